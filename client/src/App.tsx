@@ -5,6 +5,8 @@ import Home from "@/pages/Home";
 import Dashboard from "@/pages/Dashboard";
 import Wallets from "@/pages/Wallets";
 import Transactions from "@/pages/Transactions";
+import Transfer from "@/pages/Transfer";
+import PayRequest from "@/pages/PayRequest";
 import { Route, Switch } from "wouter";
 import ErrorBoundary from "./components/ErrorBoundary";
 import { ThemeProvider } from "./contexts/ThemeContext";
@@ -16,6 +18,8 @@ function Router() {
       <Route path="/dashboard" component={Dashboard} />
       <Route path="/wallets" component={Wallets} />
       <Route path="/transactions" component={Transactions} />
+      <Route path="/transfer" component={Transfer} />
+      <Route path="/pay/:token" component={PayRequest} />
       <Route path="/404" component={NotFound} />
       {/* Final fallback route */}
       <Route component={NotFound} />
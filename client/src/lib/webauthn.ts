@@ -0,0 +1,68 @@
+/**
+ * Browser-side WebAuthn helpers
+ * Convert the server's base64url options into the ArrayBuffers the
+ * Credential Management API expects, and encode the response back.
+ */
+
+type AuthenticationOptions = {
+  challenge: string;
+  timeout?: number;
+  rpId?: string;
+  userVerification?: string;
+  allowCredentials?: { type: string; id: string; transports?: string[] }[];
+};
+
+function toBase64Url(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=/g, "");
+}
+
+function fromBase64Url(value: string): ArrayBuffer {
+  const padded = value + "===".slice((value.length + 3) % 4);
+  const binary = atob(padded.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+export function isWebAuthnSupported() {
+  return typeof window !== "undefined" && typeof window.PublicKeyCredential !== "undefined";
+}
+
+/**
+ * Ask the platform authenticator for an assertion
+ */
+export async function getAssertion(options: AuthenticationOptions) {
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      challenge: fromBase64Url(options.challenge),
+      timeout: options.timeout,
+      rpId: options.rpId,
+      userVerification: options.userVerification as UserVerificationRequirement | undefined,
+      allowCredentials: options.allowCredentials?.map(c => ({
+        type: "public-key" as const,
+        id: fromBase64Url(c.id),
+        transports: c.transports as AuthenticatorTransport[] | undefined,
+      })),
+    },
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error("No credential was selected");
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    credentialId: toBase64Url(credential.rawId),
+    clientDataJSON: toBase64Url(response.clientDataJSON),
+    authenticatorData: toBase64Url(response.authenticatorData),
+    signature: toBase64Url(response.signature),
+    userHandle: response.userHandle ? toBase64Url(response.userHandle) : undefined,
+  };
+}
@@ -6,6 +6,8 @@ import { ArrowUpRight, ArrowDownLeft, Send, Plus, Wallet } from "lucide-react";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
 import { useLocation } from "wouter";
 
+const BASE_CURRENCY = "USD";
+
 export default function Dashboard() {
   const { user, isAuthenticated } = useAuth();
   const [, setLocation] = useLocation();
@@ -17,20 +19,21 @@ export default function Dashboard() {
 
   // Fetch recent transactions
   const { data: transactionsData, isLoading: transactionsLoading } = trpc.transactions.list.useQuery(
-    { limit: 5, offset: 0 },
+    { limit: 5 },
     { enabled: isAuthenticated }
   );
 
   // Fetch portfolio value
   const { data: portfolioData } = trpc.wallets.getPortfolioValue.useQuery(
-    { baseCurrency: "USD" },
+    { baseCurrency: BASE_CURRENCY },
     { enabled: isAuthenticated }
   );
 
   // Fetch wallet distribution
-  const { data: distributionData } = trpc.wallets.getDistribution.useQuery(undefined, {
-    enabled: isAuthenticated,
-  });
+  const { data: distributionData } = trpc.wallets.getDistribution.useQuery(
+    { baseCurrency: BASE_CURRENCY },
+    { enabled: isAuthenticated }
+  );
 
   if (!isAuthenticated) {
     return (
@@ -69,9 +72,22 @@ export default function Dashboard() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-foreground">
-                ${portfolioData?.success && portfolioData.totalValue ? portfolioData.totalValue.toFixed(2) : "0.00"}
+                {new Intl.NumberFormat(undefined, { style: "currency", currency: BASE_CURRENCY }).format(
+                  portfolioData?.success && portfolioData.totalValue ? Number(portfolioData.totalValue) : 0
+                )}
               </div>
-              <p className="text-xs text-muted-foreground mt-2">USD</p>
+              <p className="text-xs text-muted-foreground mt-2">
+                {BASE_CURRENCY}
+                {portfolioData?.success && portfolioData.incomplete && (
+                  <span className="text-amber-600">
+                    {" "}· excludes{" "}
+                    {portfolioData.wallets?.filter(w => w.rateMissing).map(w => w.currency).join(", ")} (no rate)
+                  </span>
+                )}
+                {portfolioData?.success && portfolioData.stale && (
+                  <span className="text-amber-600"> · some rates are out of date</span>
+                )}
+              </p>
             </CardContent>
           </Card>
 
@@ -113,20 +129,20 @@ export default function Dashboard() {
                 <ResponsiveContainer width="100%" height={300}>
                   <PieChart>
                     <Pie
-                      data={distributionData.distribution || []}
+                      data={distributionData.distribution.map(entry => ({ ...entry, share: Number(entry.percentage) }))}
                       cx="50%"
                       cy="50%"
                       labelLine={false}
-                      label={({ currency, percentage }) => `${currency} ${(percentage as number).toFixed(1)}%`}
+                      label={({ currency, percentage }) => `${currency} ${percentage}%`}
                       outerRadius={80}
                       fill="#8884d8"
-                      dataKey="percentage"
+                      dataKey="share"
                     >
                       {distributionData.distribution?.map((entry, index) => (
                         <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                       ))}
                     </Pie>
-                    <Tooltip formatter={(value) => `${(value as number).toFixed(1)}%`} />
+                    <Tooltip formatter={(value) => `${(value as number).toFixed(2)}%`} />
                   </PieChart>
                 </ResponsiveContainer>
               ) : (
@@ -4,10 +4,42 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Fingerprint, Wallet, TrendingUp, Lock, Zap, Globe } from "lucide-react";
 import { useLocation } from "wouter";
 import { getLoginUrl } from "@/const";
+import { trpc } from "@/lib/trpc";
+import { getAssertion, isWebAuthnSupported } from "@/lib/webauthn";
+import { toast } from "sonner";
 
 export default function Home() {
   const { user, isAuthenticated } = useAuth();
   const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
+
+  const signInMutation = trpc.auth.signInWithFingerprint.useMutation({
+    onSuccess: async (data) => {
+      if (data.success) {
+        await utils.auth.me.invalidate();
+        setLocation("/dashboard");
+      } else {
+        toast.error(data.error);
+      }
+    },
+    onError: () => {
+      toast.error("Fingerprint sign-in failed");
+    },
+  });
+
+  const handleFingerprintSignIn = async () => {
+    try {
+      const optionsData = await utils.auth.getAuthenticationOptions.fetch(undefined, { staleTime: 0 });
+      if (!optionsData.success || !optionsData.options) {
+        toast.error(optionsData.error || "Fingerprint sign-in is unavailable");
+        return;
+      }
+      const assertion = await getAssertion(optionsData.options);
+      signInMutation.mutate(assertion);
+    } catch (error) {
+      toast.error("Fingerprint sign-in was cancelled");
+    }
+  };
 
   if (isAuthenticated) {
     return (
@@ -159,9 +191,21 @@ export default function Home() {
             <Wallet className="w-6 h-6 text-primary" />
             <span className="text-xl font-bold text-foreground">Biometric Wallet</span>
           </div>
-          <Button onClick={() => window.location.href = getLoginUrl()}>
-            Sign In
-          </Button>
+          <div className="flex items-center gap-2">
+            {isWebAuthnSupported() && (
+              <Button
+                variant="outline"
+                onClick={handleFingerprintSignIn}
+                disabled={signInMutation.isPending}
+              >
+                <Fingerprint className="w-4 h-4 mr-2" />
+                Sign In with Fingerprint
+              </Button>
+            )}
+            <Button onClick={() => window.location.href = getLoginUrl()}>
+              Sign In
+            </Button>
+          </div>
         </div>
       </nav>
 
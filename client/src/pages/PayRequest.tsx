@@ -0,0 +1,187 @@
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+import { getAssertion, isWebAuthnSupported } from "@/lib/webauthn";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { HandCoins } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { useLocation, useParams } from "wouter";
+
+export default function PayRequest() {
+  const { isAuthenticated } = useAuth();
+  const [, setLocation] = useLocation();
+  const { token = "" } = useParams<{ token: string }>();
+  const utils = trpc.useUtils();
+
+  const [fromWalletId, setFromWalletId] = useState("");
+  const [isConfirming, setIsConfirming] = useState(false);
+  // One key per visit, so a retried payment is not sent twice
+  const [idempotencyKey] = useState(() => crypto.randomUUID());
+
+  const { data: requestData, isLoading } = trpc.paymentRequests.getByToken.useQuery(
+    { token },
+    { enabled: isAuthenticated && token.length > 0 }
+  );
+
+  // Fetch wallets to pay from
+  const { data: walletsData } = trpc.wallets.list.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+
+  const payMutation = trpc.paymentRequests.pay.useMutation({
+    onSuccess: (data) => {
+      if (data.success) {
+        toast.success(data.message);
+        utils.paymentRequests.getByToken.invalidate({ token });
+        utils.wallets.list.invalidate();
+        utils.transactions.list.invalidate();
+      } else {
+        toast.error(data.error);
+      }
+    },
+    onError: (error) => {
+      toast.error(error.message || "Payment failed");
+    },
+  });
+
+  const request = requestData?.success ? requestData.request : undefined;
+  const payableWallets = walletsData?.success
+    ? (walletsData.wallets ?? []).filter(wallet => wallet.currencyCode === request?.currencyCode)
+    : [];
+
+  // Approve the payment with a fingerprint and send it
+  const handlePay = async () => {
+    if (!request || !fromWalletId) {
+      toast.error("Choose a wallet to pay from");
+      return;
+    }
+    if (!isWebAuthnSupported()) {
+      toast.error("This browser cannot verify your fingerprint");
+      return;
+    }
+
+    setIsConfirming(true);
+    try {
+      const optionsData = await utils.auth.getStepUpOptions.fetch(
+        {
+          action: "transfer",
+          wallet: fromWalletId,
+          amount: request.amount,
+          destination: `paymentRequest:${token}`,
+        },
+        { staleTime: 0 }
+      );
+      if (!optionsData.success || !optionsData.options) {
+        toast.error(optionsData.error || "Fingerprint verification is unavailable");
+        return;
+      }
+
+      const assertion = await getAssertion(optionsData.options);
+      payMutation.mutate({
+        token,
+        fromWalletId: Number(fromWalletId),
+        amount: request.amount,
+        stepUp: { assertion },
+        idempotencyKey,
+      });
+    } catch (error) {
+      toast.error("Fingerprint verification was cancelled");
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  if (!isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Please Log In</CardTitle>
+            <CardDescription>You need to be logged in to pay this request</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button className="w-full" onClick={() => setLocation("/")}>
+              Go to Home
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-md mx-auto">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <HandCoins className="w-5 h-5" />
+              Payment Request
+            </CardTitle>
+            {request && (
+              <CardDescription>
+                {request.requester.displayName}
+                {request.requester.handle && ` (@${request.requester.handle})`} is asking for
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <p className="text-muted-foreground">Loading...</p>
+            ) : !request ? (
+              <p className="text-muted-foreground">{requestData?.error || "Payment request not found"}</p>
+            ) : (
+              <>
+                <div className="bg-muted p-4 rounded-lg space-y-2">
+                  <p className="text-3xl font-bold text-foreground">
+                    {request.amount} {request.currencyCode}
+                  </p>
+                  {request.memo && <p className="text-foreground">{request.memo}</p>}
+                  {request.expiresAt && (
+                    <p className="text-sm text-muted-foreground">
+                      Expires {new Date(request.expiresAt).toLocaleString()}
+                    </p>
+                  )}
+                </div>
+
+                {request.isOwn ? (
+                  <p className="text-sm text-muted-foreground">This is your request. Share this page's link to get paid.</p>
+                ) : request.status !== "open" ? (
+                  <p className="text-sm text-muted-foreground capitalize">This request is {request.status}.</p>
+                ) : (
+                  <>
+                    <div>
+                      <Label htmlFor="fromWallet">Pay from</Label>
+                      <select
+                        id="fromWallet"
+                        className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground mt-2"
+                        value={fromWalletId}
+                        onChange={(e) => setFromWalletId(e.target.value)}
+                      >
+                        <option value="">Choose a {request.currencyCode} wallet</option>
+                        {payableWallets.map(wallet => (
+                          <option key={wallet.id} value={wallet.id}>
+                            {wallet.currencyCode} — {wallet.availableBalance} available
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <Button
+                      className="w-full"
+                      onClick={handlePay}
+                      disabled={isConfirming || payMutation.isPending || payMutation.data?.success}
+                    >
+                      {isConfirming || payMutation.isPending ? "Paying..." : "Confirm & Pay"}
+                    </Button>
+                  </>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -2,72 +2,115 @@ import { useAuth } from "@/_core/hooks/useAuth";
 import { trpc } from "@/lib/trpc";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { ArrowUpRight, ArrowDownLeft, Download, Filter } from "lucide-react";
 import { useState } from "react";
 import { toast } from "sonner";
 import { useLocation } from "wouter";
 
-type TransactionType = "transfer" | "deposit" | "withdrawal" | "exchange";
-type TransactionStatus = "pending" | "completed" | "failed" | "cancelled";
+type TransactionType = "transfer" | "deposit" | "withdrawal" | "exchange" | "refund";
+type TransactionStatus = "pending" | "processing" | "completed" | "failed" | "cancelled";
+
+type FilterForm = {
+  type: TransactionType | "all";
+  status: TransactionStatus | "all";
+  from: string;
+  to: string;
+  minAmount: string;
+  maxAmount: string;
+  walletId: string;
+  counterpartyUserId: string;
+  search: string;
+};
+
+const emptyFilters: FilterForm = {
+  type: "all",
+  status: "all",
+  from: "",
+  to: "",
+  minAmount: "",
+  maxAmount: "",
+  walletId: "",
+  counterpartyUserId: "",
+  search: "",
+};
+
+// Turn the form into server filters; blank fields are left out and the end date covers the whole day
+const toQueryFilters = (form: FilterForm) => ({
+  type: form.type === "all" ? undefined : form.type,
+  status: form.status === "all" ? undefined : form.status,
+  from: form.from ? new Date(`${form.from}T00:00:00`) : undefined,
+  to: form.to ? new Date(`${form.to}T23:59:59.999`) : undefined,
+  minAmount: form.minAmount || undefined,
+  maxAmount: form.maxAmount || undefined,
+  walletId: form.walletId ? Number(form.walletId) : undefined,
+  counterpartyUserId: form.counterpartyUserId ? Number(form.counterpartyUserId) : undefined,
+  search: form.search.trim() || undefined,
+});
+
+const downloadFile = (data: string, filename: string, mimeType: string) => {
+  const element = document.createElement("a");
+  element.setAttribute("href", `data:${mimeType};charset=utf-8,${encodeURIComponent(data)}`);
+  element.setAttribute("download", filename);
+  element.style.display = "none";
+  document.body.appendChild(element);
+  element.click();
+  document.body.removeChild(element);
+};
 
 export default function Transactions() {
-  const { isAuthenticated } = useAuth();
+  const { user, isAuthenticated } = useAuth();
   const [, setLocation] = useLocation();
-  const [selectedType, setSelectedType] = useState<TransactionType | "all">("all");
-  const [selectedStatus, setSelectedStatus] = useState<TransactionStatus | "all">("all");
+  const utils = trpc.useUtils();
+  const [form, setForm] = useState<FilterForm>(emptyFilters);
+  const [appliedFilters, setAppliedFilters] = useState<FilterForm>(emptyFilters);
   const [isExporting, setIsExporting] = useState(false);
 
-  // Fetch transactions
-  const { data: transactionsData, isLoading, refetch } = trpc.transactions.list.useQuery(
+  const updateForm = (changes: Partial<FilterForm>) => setForm(current => ({ ...current, ...changes }));
+  const filters = toQueryFilters(appliedFilters);
+
+  // Fetch transactions a page at a time
+  const {
+    data: transactionsData,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = trpc.transactions.list.useInfiniteQuery(
+    { limit: 50, filters },
     {
-      limit: 100,
-      offset: 0,
-      type: selectedType === "all" ? undefined : selectedType,
-      status: selectedStatus === "all" ? undefined : selectedStatus,
-    },
-    { enabled: isAuthenticated }
+      enabled: isAuthenticated,
+      getNextPageParam: (lastPage) => (lastPage.success ? lastPage.nextCursor ?? undefined : undefined),
+    }
   );
 
-  const handleExport = (format: "csv" | "json") => {
-    setIsExporting(true);
-    try {
-      if (transactionsData?.success && transactionsData.transactions) {
-        const transactions = transactionsData.transactions;
+  // Fetch wallets for the wallet filter
+  const { data: walletsData } = trpc.wallets.list.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
 
-        if (format === "json") {
-          const json = JSON.stringify(transactions, null, 2);
-          const element = document.createElement("a");
-          element.setAttribute("href", `data:application/json;charset=utf-8,${encodeURIComponent(json)}`);
-          element.setAttribute("download", `transactions_${new Date().toISOString().split("T")[0]}.json`);
-          element.style.display = "none";
-          document.body.appendChild(element);
-          element.click();
-          document.body.removeChild(element);
-        } else {
-          const headers = ["ID", "Type", "Status", "Amount", "Fee", "Date", "Description"];
-          const rows = transactions.map(t => [
-            t.id,
-            t.transactionType,
-            t.status,
-            t.amount,
-            t.fee,
-            new Date(t.createdAt).toISOString(),
-            t.description || "",
-          ]);
+  const pages = transactionsData?.pages ?? [];
+  const transactions = pages.flatMap(page => (page.success ? page.transactions ?? [] : []));
+  const total = pages[0]?.success ? pages[0].total ?? 0 : 0;
+  const failedPage = pages.find(page => !page.success);
 
-          const csv = [headers, ...rows].map(row => row.join(",")).join("\n");
-          const element = document.createElement("a");
-          element.setAttribute("href", `data:text/csv;charset=utf-8,${encodeURIComponent(csv)}`);
-          element.setAttribute("download", `transactions_${new Date().toISOString().split("T")[0]}.csv`);
-          element.style.display = "none";
-          document.body.appendChild(element);
-          element.click();
-          document.body.removeChild(element);
-        }
+  const handleApplyFilters = () => setAppliedFilters(form);
+
+  const handleResetFilters = () => {
+    setForm(emptyFilters);
+    setAppliedFilters(emptyFilters);
+  };
 
+  // Export every transaction matching the applied filters, not just the loaded pages
+  const handleExport = async (format: "csv" | "json") => {
+    setIsExporting(true);
+    try {
+      const result = await utils.transactions.export.fetch({ format, filters });
+      if (result.success && result.data && result.filename) {
+        downloadFile(result.data, result.filename, format === "json" ? "application/json" : "text/csv");
         toast.success("Transactions exported successfully");
       } else {
-        toast.error("No transactions to export");
+        toast.error(result.error ?? "No transactions to export");
       }
     } catch (error) {
       toast.error("Failed to export transactions");
@@ -117,14 +160,15 @@ export default function Transactions() {
                 <label className="text-sm font-medium text-foreground">Transaction Type</label>
                 <select
                   className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground mt-2"
-                  value={selectedType}
-                  onChange={(e) => setSelectedType(e.target.value as TransactionType | "all")}
+                  value={form.type}
+                  onChange={(e) => updateForm({ type: e.target.value as TransactionType | "all" })}
                 >
                   <option value="all">All Types</option>
                   <option value="transfer">Transfer</option>
                   <option value="deposit">Deposit</option>
                   <option value="withdrawal">Withdrawal</option>
                   <option value="exchange">Exchange</option>
+                  <option value="refund">Refund</option>
                 </select>
               </div>
 
@@ -132,27 +176,107 @@ export default function Transactions() {
                 <label className="text-sm font-medium text-foreground">Status</label>
                 <select
                   className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground mt-2"
-                  value={selectedStatus}
-                  onChange={(e) => setSelectedStatus(e.target.value as TransactionStatus | "all")}
+                  value={form.status}
+                  onChange={(e) => updateForm({ status: e.target.value as TransactionStatus | "all" })}
                 >
                   <option value="all">All Status</option>
                   <option value="pending">Pending</option>
+                  <option value="processing">Processing</option>
                   <option value="completed">Completed</option>
                   <option value="failed">Failed</option>
                   <option value="cancelled">Cancelled</option>
                 </select>
               </div>
 
-              <div className="flex items-end gap-2">
-                <Button
-                  variant="outline"
-                  className="flex-1"
-                  onClick={() => refetch()}
-                  disabled={isLoading}
+              <div>
+                <label className="text-sm font-medium text-foreground">Wallet</label>
+                <select
+                  className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground mt-2"
+                  value={form.walletId}
+                  onChange={(e) => updateForm({ walletId: e.target.value })}
                 >
-                  Apply Filters
-                </Button>
+                  <option value="">All Wallets</option>
+                  {walletsData?.success && walletsData.wallets?.map(wallet => (
+                    <option key={wallet.id} value={wallet.id}>
+                      {wallet.currencyCode} wallet #{wallet.id}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-foreground">From</label>
+                <Input
+                  type="date"
+                  className="mt-2"
+                  value={form.from}
+                  onChange={(e) => updateForm({ from: e.target.value })}
+                />
               </div>
+
+              <div>
+                <label className="text-sm font-medium text-foreground">To</label>
+                <Input
+                  type="date"
+                  className="mt-2"
+                  value={form.to}
+                  onChange={(e) => updateForm({ to: e.target.value })}
+                />
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-foreground">Counterparty User ID</label>
+                <Input
+                  type="number"
+                  min={1}
+                  className="mt-2"
+                  placeholder="Any"
+                  value={form.counterpartyUserId}
+                  onChange={(e) => updateForm({ counterpartyUserId: e.target.value })}
+                />
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-foreground">Min Amount</label>
+                <Input
+                  inputMode="decimal"
+                  className="mt-2"
+                  placeholder="0.00"
+                  value={form.minAmount}
+                  onChange={(e) => updateForm({ minAmount: e.target.value })}
+                />
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-foreground">Max Amount</label>
+                <Input
+                  inputMode="decimal"
+                  className="mt-2"
+                  placeholder="Any"
+                  value={form.maxAmount}
+                  onChange={(e) => updateForm({ maxAmount: e.target.value })}
+                />
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-foreground">Description</label>
+                <Input
+                  className="mt-2"
+                  placeholder="Search descriptions"
+                  value={form.search}
+                  onChange={(e) => updateForm({ search: e.target.value })}
+                  onKeyDown={(e) => e.key === "Enter" && handleApplyFilters()}
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-2 mb-4">
+              <Button variant="outline" onClick={handleApplyFilters} disabled={isLoading}>
+                Apply Filters
+              </Button>
+              <Button variant="ghost" onClick={handleResetFilters}>
+                Reset
+              </Button>
             </div>
 
             <div className="flex gap-2">
@@ -183,9 +307,11 @@ export default function Transactions() {
           <CardHeader>
             <CardTitle>All Transactions</CardTitle>
             <CardDescription>
-              {transactionsData?.success && transactionsData.transactions
-                ? `Showing ${transactionsData.transactions.length} transactions`
-                : "No transactions found"}
+              {failedPage
+                ? failedPage.error
+                : total > 0
+                  ? `Showing ${transactions.length} of ${total} transactions`
+                  : "No transactions found"}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -193,7 +319,7 @@ export default function Transactions() {
               <div className="text-center py-8 text-muted-foreground">
                 Loading transactions...
               </div>
-            ) : transactionsData?.success && transactionsData.transactions && transactionsData.transactions.length > 0 ? (
+            ) : transactions.length > 0 ? (
               <div className="overflow-x-auto">
                 <table className="w-full">
                   <thead>
@@ -207,7 +333,7 @@ export default function Transactions() {
                     </tr>
                   </thead>
                   <tbody>
-                    {transactionsData.transactions.map((tx) => (
+                    {transactions.map((tx) => (
                       <tr key={tx.id} className="border-b border-border hover:bg-muted/50 transition-colors">
                         <td className="py-3 px-4">
                           <div className="flex items-center gap-2">
@@ -223,13 +349,18 @@ export default function Transactions() {
                         </td>
                         <td className="py-3 px-4">
                           <span className={`font-semibold ${tx.transactionType === "withdrawal" ? "text-red-600" : "text-green-600"}`}>
-                            {tx.transactionType === "withdrawal" ? "-" : "+"}{tx.amount}
+                            {tx.transactionType === "withdrawal" ? "-" : "+"}
+                            {/* Recipients of a conversion see what landed in their wallet */}
+                            {tx.convertedAmount && tx.toUserId === user?.id && tx.fromUserId !== user?.id
+                              ? tx.convertedAmount
+                              : tx.amount}
                           </span>
                         </td>
                         <td className="py-3 px-4">
                           <span className={`text-xs px-2 py-1 rounded-full font-medium ${
                             tx.status === "completed" ? "bg-green-100 text-green-800" :
                             tx.status === "pending" ? "bg-yellow-100 text-yellow-800" :
+                            tx.status === "processing" ? "bg-blue-100 text-blue-800" :
                             tx.status === "failed" ? "bg-red-100 text-red-800" :
                             "bg-gray-100 text-gray-800"
                           }`}>
@@ -255,6 +386,13 @@ export default function Transactions() {
                     ))}
                   </tbody>
                 </table>
+                {hasNextPage && (
+                  <div className="text-center pt-4">
+                    <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                      {isFetchingNextPage ? "Loading..." : "Load More"}
+                    </Button>
+                  </div>
+                )}
               </div>
             ) : (
               <div className="text-center py-12 text-muted-foreground">
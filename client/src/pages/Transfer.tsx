@@ -0,0 +1,590 @@
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+import { getAssertion, isWebAuthnSupported } from "@/lib/webauthn";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Send, QrCode, HandCoins } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { useLocation, useSearch } from "wouter";
+
+type RecipientType = "handle" | "email" | "qr";
+
+const recipientPlaceholders: Record<RecipientType, string> = {
+  handle: "@alice",
+  email: "alice@example.com",
+  qr: "biowallet:pay?to=...",
+};
+
+const buildRecipient = (type: RecipientType, value: string) => {
+  switch (type) {
+    case "handle":
+      return { type, handle: value };
+    case "email":
+      return { type, email: value };
+    case "qr":
+      return { type, payload: value };
+  }
+};
+
+type TransferRequest = {
+  fromWalletId: number;
+  recipient: ReturnType<typeof buildRecipient>;
+  amount: string;
+  toCurrencyCode?: string;
+  quoteId?: number;
+  fee: string;
+  description?: string;
+  idempotencyKey: string;
+};
+
+export default function Transfer() {
+  const { isAuthenticated } = useAuth();
+  const [, setLocation] = useLocation();
+  const search = useSearch();
+  const utils = trpc.useUtils();
+
+  const [fromWalletId, setFromWalletId] = useState(() => new URLSearchParams(search).get("wallet") ?? "");
+  const [recipientType, setRecipientType] = useState<RecipientType>("handle");
+  const [recipientValue, setRecipientValue] = useState("");
+  const [amount, setAmount] = useState("");
+  const [toCurrencyCode, setToCurrencyCode] = useState("");
+  const [description, setDescription] = useState("");
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [pending, setPending] = useState<{
+    request: TransferRequest;
+    preview: {
+      recipient: { displayName: string; handle: string | null };
+      currencyCode: string;
+      amount: string;
+      fee: string;
+      opensWallet: boolean;
+      conversion: {
+        quoteId: number;
+        toCurrencyCode: string;
+        rate: string;
+        convertedAmount: string;
+        expiresAt: Date;
+      } | null;
+    };
+    stepUpOperation: { action: "transfer"; wallet: string; amount: string; destination: string; fee?: string };
+  } | null>(null);
+
+  // Fetch wallets to send from
+  const { data: walletsData } = trpc.wallets.list.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+
+  // Fetch currencies the recipient can be paid in
+  const { data: currenciesData } = trpc.wallets.listCurrencies.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+
+  const transferMutation = trpc.transactions.transfer.useMutation({
+    onSuccess: (data) => {
+      if (data.success) {
+        toast.success(data.message);
+        setPending(null);
+        setAmount("");
+        setDescription("");
+        utils.wallets.list.invalidate();
+        utils.transactions.list.invalidate();
+      } else {
+        toast.error(data.error);
+      }
+    },
+    onError: (error) => {
+      toast.error(error.message || "Transfer failed");
+    },
+  });
+
+  // Resolve the recipient and show who will receive the funds before anything moves
+  const handleReview = async () => {
+    if (!fromWalletId || !recipientValue.trim() || !amount.trim()) {
+      toast.error("Choose a wallet, a recipient and an amount");
+      return;
+    }
+
+    setIsReviewing(true);
+    try {
+      const request: Omit<TransferRequest, "quoteId" | "fee"> = {
+        fromWalletId: Number(fromWalletId),
+        recipient: buildRecipient(recipientType, recipientValue.trim()),
+        amount: amount.trim(),
+        toCurrencyCode: toCurrencyCode || undefined,
+        description: description.trim() || undefined,
+        idempotencyKey: crypto.randomUUID(),
+      };
+      const result = await utils.transactions.previewTransfer.fetch(
+        {
+          fromWalletId: request.fromWalletId,
+          recipient: request.recipient,
+          amount: request.amount,
+          toCurrencyCode: request.toCurrencyCode,
+        },
+        { staleTime: 0 }
+      );
+      if (result.success && result.preview && result.stepUpOperation) {
+        // Transfers are sent at the previewed fee, and cross-currency ones at the quoted price
+        setPending({
+          request: { ...request, quoteId: result.preview.conversion?.quoteId, fee: result.preview.fee },
+          preview: result.preview,
+          stepUpOperation: result.stepUpOperation,
+        });
+      } else {
+        toast.error(result.error || "Could not find that recipient");
+      }
+    } catch (error) {
+      toast.error("Could not find that recipient");
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  // Approve the previewed transfer with a fingerprint and send it
+  const handleConfirm = async () => {
+    if (!pending) return;
+    if (!isWebAuthnSupported()) {
+      toast.error("This browser cannot verify your fingerprint");
+      return;
+    }
+
+    setIsConfirming(true);
+    try {
+      const optionsData = await utils.auth.getStepUpOptions.fetch(pending.stepUpOperation, { staleTime: 0 });
+      if (!optionsData.success || !optionsData.options) {
+        toast.error(optionsData.error || "Fingerprint verification is unavailable");
+        return;
+      }
+
+      const assertion = await getAssertion(optionsData.options);
+      transferMutation.mutate({ ...pending.request, stepUp: { assertion } });
+    } catch (error) {
+      toast.error("Fingerprint verification was cancelled");
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  if (!isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Please Log In</CardTitle>
+            <CardDescription>You need to be logged in to send money</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button className="w-full" onClick={() => setLocation("/")}>
+              Go to Home
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Send Money</h1>
+          <p className="text-muted-foreground mt-2">Send to a handle, an email address or a payment code</p>
+        </div>
+
+        {pending ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Confirm Transfer</CardTitle>
+              <CardDescription>Check the recipient before approving with your fingerprint</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="bg-muted p-4 rounded-lg space-y-2">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">To</span>
+                  <span className="font-semibold text-foreground">
+                    {pending.preview.recipient.displayName}
+                    {pending.preview.recipient.handle && (
+                      <span className="text-muted-foreground font-normal"> @{pending.preview.recipient.handle}</span>
+                    )}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Amount</span>
+                  <span className="font-semibold text-foreground">
+                    {pending.preview.amount} {pending.preview.currencyCode}
+                  </span>
+                </div>
+                {pending.preview.conversion && (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">They receive</span>
+                      <span className="font-semibold text-foreground">
+                        {pending.preview.conversion.convertedAmount} {pending.preview.conversion.toCurrencyCode}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Rate</span>
+                      <span className="text-foreground">
+                        1 {pending.preview.currencyCode} = {pending.preview.conversion.rate} {pending.preview.conversion.toCurrencyCode}
+                      </span>
+                    </div>
+                  </>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Fee</span>
+                  <span className="text-foreground">
+                    {pending.preview.fee} {pending.preview.currencyCode}
+                  </span>
+                </div>
+                {pending.request.description && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Description</span>
+                    <span className="text-foreground">{pending.request.description}</span>
+                  </div>
+                )}
+              </div>
+              {pending.preview.opensWallet && (
+                <p className="text-sm text-muted-foreground">
+                  The recipient has no {pending.preview.conversion?.toCurrencyCode ?? pending.preview.currencyCode} wallet
+                  yet; one will be opened for them.
+                </p>
+              )}
+              {pending.preview.conversion && (
+                <p className="text-sm text-muted-foreground">
+                  This rate is held until {new Date(pending.preview.conversion.expiresAt).toLocaleTimeString()}.
+                </p>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" onClick={() => setPending(null)} disabled={isConfirming || transferMutation.isPending}>
+                  Back
+                </Button>
+                <Button onClick={handleConfirm} disabled={isConfirming || transferMutation.isPending}>
+                  {isConfirming || transferMutation.isPending ? "Sending..." : "Confirm & Send"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Send className="w-5 h-5" />
+                Transfer Details
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="fromWallet">From</Label>
+                <select
+                  id="fromWallet"
+                  className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground mt-2"
+                  value={fromWalletId}
+                  onChange={(e) => setFromWalletId(e.target.value)}
+                >
+                  <option value="">Choose a wallet</option>
+                  {walletsData?.success && walletsData.wallets?.map(wallet => (
+                    <option key={wallet.id} value={wallet.id}>
+                      {wallet.currencyCode} — {wallet.availableBalance} available
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <Label htmlFor="recipient">To</Label>
+                <div className="flex gap-2 mt-2">
+                  <select
+                    className="px-3 py-2 border border-input rounded-md bg-background text-foreground"
+                    value={recipientType}
+                    onChange={(e) => setRecipientType(e.target.value as RecipientType)}
+                  >
+                    <option value="handle">Handle</option>
+                    <option value="email">Email</option>
+                    <option value="qr">Payment code</option>
+                  </select>
+                  <Input
+                    id="recipient"
+                    placeholder={recipientPlaceholders[recipientType]}
+                    value={recipientValue}
+                    onChange={(e) => setRecipientValue(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="amount">Amount</Label>
+                <Input
+                  id="amount"
+                  inputMode="decimal"
+                  className="mt-2"
+                  placeholder="0.00"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="toCurrency">Recipient gets</Label>
+                <select
+                  id="toCurrency"
+                  className="w-full px-3 py-2 border border-input rounded-md bg-background text-foreground mt-2"
+                  value={toCurrencyCode}
+                  onChange={(e) => setToCurrencyCode(e.target.value)}
+                >
+                  <option value="">Same currency (or what their payment code asks for)</option>
+                  {currenciesData?.success && currenciesData.currencies?.map(currency => (
+                    <option key={currency.code} value={currency.code}>
+                      {currency.name} ({currency.code})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <Label htmlFor="description">Description (optional)</Label>
+                <Input
+                  id="description"
+                  className="mt-2"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+
+              <Button className="w-full" onClick={handleReview} disabled={isReviewing}>
+                {isReviewing ? "Checking..." : "Review Transfer"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <ReceiveCard />
+        <RequestMoneyCard />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The current user's handle and payment QR code, for receiving money
+ */
+function ReceiveCard() {
+  const { user } = useAuth();
+  const utils = trpc.useUtils();
+  const [handle, setHandle] = useState(user?.handle ?? "");
+
+  const { data: paymentCode } = trpc.profile.getPaymentCode.useQuery({});
+
+  const setHandleMutation = trpc.profile.setHandle.useMutation({
+    onSuccess: (data) => {
+      if (data.success) {
+        toast.success(data.handle ? `Your handle is now @${data.handle}` : "Handle removed");
+        utils.auth.me.invalidate();
+      } else {
+        toast.error(data.error);
+      }
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update handle");
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <QrCode className="w-5 h-5" />
+          Receive Money
+        </CardTitle>
+        <CardDescription>Share your handle or let the sender scan your payment code</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="handle">Your handle</Label>
+          <div className="flex gap-2 mt-2">
+            <Input
+              id="handle"
+              placeholder="alice"
+              value={handle}
+              onChange={(e) => setHandle(e.target.value)}
+            />
+            <Button
+              variant="outline"
+              onClick={() => setHandleMutation.mutate({ handle: handle.trim() || null })}
+              disabled={setHandleMutation.isPending}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+
+        {paymentCode?.success && paymentCode.qrCode && (
+          <div className="flex flex-col items-center gap-2">
+            <img src={paymentCode.qrCode} alt="Payment QR code" className="w-48 h-48" />
+            <code className="text-xs break-all text-muted-foreground">{paymentCode.payload}</code>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Ask for money with a shareable link, and manage the links already sent
+ */
+function RequestMoneyCard() {
+  const utils = trpc.useUtils();
+  const [amount, setAmount] = useState("");
+  const [currencyCode, setCurrencyCode] = useState("");
+  const [memo, setMemo] = useState("");
+  const [multiUse, setMultiUse] = useState(false);
+  const [expiresAt, setExpiresAt] = useState("");
+
+  const { data: currenciesData } = trpc.wallets.listCurrencies.useQuery();
+  const { data: requestsData } = trpc.paymentRequests.list.useQuery();
+
+  const linkFor = (path: string) => `${window.location.origin}${path}`;
+
+  const copyLink = async (path: string) => {
+    try {
+      await navigator.clipboard.writeText(linkFor(path));
+      toast.success("Payment link copied");
+    } catch (error) {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  const createMutation = trpc.paymentRequests.create.useMutation({
+    onSuccess: (data) => {
+      if (data.success && data.request) {
+        setAmount("");
+        setMemo("");
+        copyLink(data.request.path);
+        utils.paymentRequests.list.invalidate();
+      } else {
+        toast.error(data.error);
+      }
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to create payment request");
+    },
+  });
+
+  const cancelMutation = trpc.paymentRequests.cancel.useMutation({
+    onSuccess: (data) => {
+      if (data.success) {
+        toast.success("Payment request cancelled");
+        utils.paymentRequests.list.invalidate();
+      } else {
+        toast.error(data.error);
+      }
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to cancel payment request");
+    },
+  });
+
+  const handleCreate = () => {
+    if (!amount.trim() || !currencyCode) {
+      toast.error("Enter an amount and a currency");
+      return;
+    }
+    createMutation.mutate({
+      amount: amount.trim(),
+      currencyCode,
+      memo: memo.trim() || undefined,
+      multiUse,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HandCoins className="w-5 h-5" />
+          Request Money
+        </CardTitle>
+        <CardDescription>Create a link anyone with an account can open to pay you</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            inputMode="decimal"
+            placeholder="0.00"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+          <select
+            className="px-3 py-2 border border-input rounded-md bg-background text-foreground"
+            value={currencyCode}
+            onChange={(e) => setCurrencyCode(e.target.value)}
+          >
+            <option value="">Currency</option>
+            {currenciesData?.success && currenciesData.currencies?.map(currency => (
+              <option key={currency.code} value={currency.code}>
+                {currency.code}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Input placeholder="What is it for? (optional)" value={memo} onChange={(e) => setMemo(e.target.value)} />
+        <div>
+          <Label htmlFor="requestExpiresAt">Expires (optional)</Label>
+          <Input
+            id="requestExpiresAt"
+            type="datetime-local"
+            className="mt-2"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-foreground">
+          <input type="checkbox" checked={multiUse} onChange={(e) => setMultiUse(e.target.checked)} />
+          Let more than one person pay this link
+        </label>
+        <Button className="w-full" onClick={handleCreate} disabled={createMutation.isPending}>
+          {createMutation.isPending ? "Creating..." : "Create & Copy Link"}
+        </Button>
+
+        {requestsData?.success && requestsData.requests.length > 0 && (
+          <div className="divide-y divide-border border-t border-border">
+            {requestsData.requests.map(request => (
+              <div key={request.id} className="flex items-center justify-between gap-2 py-3">
+                <div className="min-w-0">
+                  <p className="font-semibold text-foreground">
+                    {request.amount} {request.currencyCode}
+                    <span className="ml-2 text-xs font-normal text-muted-foreground capitalize">{request.status}</span>
+                  </p>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {request.memo || "No memo"}
+                    {request.paymentCount > 0 && ` · paid ${request.paymentCount}×`}
+                  </p>
+                </div>
+                {request.status === "open" && (
+                  <div className="flex gap-2 shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => copyLink(request.path)}>
+                      Copy Link
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => cancelMutation.mutate({ id: request.id })}
+                      disabled={cancelMutation.isPending}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,6 @@
 import { useAuth } from "@/_core/hooks/useAuth";
 import { trpc } from "@/lib/trpc";
+import { formatAmount } from "@shared/money";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -22,6 +23,17 @@ export default function Wallets() {
     enabled: isAuthenticated,
   });
 
+  // Fetch currencies new wallets can be opened in
+  const { data: currenciesData } = trpc.wallets.listCurrencies.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+  const currencies = currenciesData?.success ? currenciesData.currencies ?? [] : [];
+  const currencyGroups = [
+    { label: "Fiat", currencies: currencies.filter(c => c.kind === "fiat") },
+    { label: "Cryptocurrency", currencies: currencies.filter(c => c.kind === "crypto") },
+    { label: "Tokens", currencies: currencies.filter(c => c.kind === "token") },
+  ].filter(group => group.currencies.length > 0);
+
   // Create wallet mutation
   const createWalletMutation = trpc.wallets.create.useMutation({
     onSuccess: (data) => {
@@ -45,6 +57,12 @@ export default function Wallets() {
     });
   };
 
+  // Show balances at their currency's precision; unknown currencies keep the stored value
+  const formatWalletBalance = (balance: string, currencyCode: string) => {
+    const currency = currencies.find(c => c.code === currencyCode);
+    return currency ? formatAmount(balance, currency) : balance;
+  };
+
   const handleCopyAddress = (address: string, currency: string) => {
     navigator.clipboard.writeText(address);
     setCopied(currency);
@@ -100,20 +118,15 @@ export default function Wallets() {
                     value={selectedCurrency}
                     onChange={(e) => setSelectedCurrency(e.target.value)}
                   >
-                    <optgroup label="Fiat">
-                      <option value="USD">US Dollar (USD)</option>
-                      <option value="EUR">Euro (EUR)</option>
-                      <option value="GBP">British Pound (GBP)</option>
-                      <option value="JPY">Japanese Yen (JPY)</option>
-                      <option value="CAD">Canadian Dollar (CAD)</option>
-                      <option value="AUD">Australian Dollar (AUD)</option>
-                    </optgroup>
-                    <optgroup label="Cryptocurrency">
-                      <option value="BTC">Bitcoin (BTC)</option>
-                      <option value="ETH">Ethereum (ETH)</option>
-                      <option value="LTC">Litecoin (LTC)</option>
-                      <option value="XRP">Ripple (XRP)</option>
-                    </optgroup>
+                    {currencyGroups.map(group => (
+                      <optgroup key={group.label} label={group.label}>
+                        {group.currencies.map(currency => (
+                          <option key={currency.code} value={currency.code}>
+                            {currency.name} ({currency.code})
+                          </option>
+                        ))}
+                      </optgroup>
+                    ))}
                   </select>
                 </div>
                 <Button
@@ -152,9 +165,14 @@ export default function Wallets() {
                 <CardContent className="space-y-4">
                   <div>
                     <p className="text-3xl font-bold text-foreground">
-                      {parseFloat(wallet.balance).toFixed(8)}
+                      {formatWalletBalance(wallet.balance, wallet.currencyCode)}
                     </p>
                     <p className="text-sm text-muted-foreground mt-1">{wallet.currencyCode}</p>
+                    {wallet.availableBalance !== wallet.ledgerBalance && (
+                      <p className="text-sm text-muted-foreground mt-1">
+                        Available: {formatWalletBalance(wallet.availableBalance, wallet.currencyCode)}
+                      </p>
+                    )}
                   </div>
 
                   {wallet.address && (
@@ -0,0 +1 @@
+ALTER TABLE `fingerprints` ADD `aaguid` varchar(36);
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `webauthnChallenges` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`challenge` varchar(128) NOT NULL,
+	`purpose` enum('register','login','transaction') NOT NULL,
+	`userId` int,
+	`sessionId` varchar(64),
+	`expiresAt` timestamp NOT NULL,
+	`usedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `webauthnChallenges_id` PRIMARY KEY(`id`),
+	CONSTRAINT `webauthnChallenges_challenge_unique` UNIQUE(`challenge`)
+);
@@ -0,0 +1 @@
+ALTER TABLE `fingerprints` ADD `nickname` varchar(100);
\ No newline at end of file
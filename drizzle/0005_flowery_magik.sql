@@ -0,0 +1,9 @@
+CREATE TABLE `recoveryCodes` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`codeHash` varchar(64) NOT NULL,
+	`usedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `recoveryCodes_id` PRIMARY KEY(`id`),
+	CONSTRAINT `recoveryCodes_codeHash_unique` UNIQUE(`codeHash`)
+);
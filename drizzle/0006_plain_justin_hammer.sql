@@ -0,0 +1,10 @@
+CREATE TABLE `totpFactors` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`secret` text NOT NULL,
+	`confirmedAt` timestamp,
+	`lastUsedStep` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `totpFactors_id` PRIMARY KEY(`id`),
+	CONSTRAINT `totpFactors_userId_unique` UNIQUE(`userId`)
+);
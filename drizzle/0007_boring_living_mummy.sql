@@ -0,0 +1,12 @@
+CREATE TABLE `sessions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`sessionId` varchar(64) NOT NULL,
+	`userId` int NOT NULL,
+	`userAgent` text,
+	`ipAddress` varchar(45),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`lastSeenAt` timestamp NOT NULL DEFAULT (now()),
+	`revokedAt` timestamp,
+	CONSTRAINT `sessions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `sessions_sessionId_unique` UNIQUE(`sessionId`)
+);
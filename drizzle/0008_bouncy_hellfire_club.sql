@@ -0,0 +1,14 @@
+CREATE TABLE `authenticatorPolicies` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userVerification` enum('required','preferred','discouraged') NOT NULL DEFAULT 'preferred',
+	`authenticatorAttachment` enum('platform','cross-platform','any') NOT NULL DEFAULT 'platform',
+	`requireAttestation` boolean NOT NULL DEFAULT false,
+	`allowedAaguids` json,
+	`blockedAaguids` json,
+	`updatedBy` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `authenticatorPolicies_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `fingerprints` ADD `attestationType` enum('none','self','basic');--> statement-breakpoint
+ALTER TABLE `fingerprints` ADD `userVerified` boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `ledgerEntries` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`transactionId` int,
+	`account` enum('wallet','external','fees','exchange') NOT NULL,
+	`walletId` int,
+	`currencyCode` varchar(10) NOT NULL,
+	`direction` enum('debit','credit') NOT NULL,
+	`amount` decimal(18,8) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `ledgerEntries_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+-- Opening balances: post existing wallet balances against the external account
+INSERT INTO `ledgerEntries` (`transactionId`, `account`, `walletId`, `currencyCode`, `direction`, `amount`)
+SELECT NULL, 'wallet', `id`, `currencyCode`, 'credit', `balance` FROM `wallets` WHERE `balance` > 0;
+--> statement-breakpoint
+INSERT INTO `ledgerEntries` (`transactionId`, `account`, `walletId`, `currencyCode`, `direction`, `amount`)
+SELECT NULL, 'external', NULL, `currencyCode`, 'debit', `balance` FROM `wallets` WHERE `balance` > 0;
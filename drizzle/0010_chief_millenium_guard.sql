@@ -0,0 +1,27 @@
+CREATE TABLE `currencies` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`code` varchar(10) NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`kind` enum('fiat','crypto','token') NOT NULL,
+	`decimals` int NOT NULL,
+	`symbol` varchar(10),
+	`network` varchar(50),
+	`enabled` boolean NOT NULL DEFAULT true,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `currencies_id` PRIMARY KEY(`id`),
+	CONSTRAINT `currencies_code_unique` UNIQUE(`code`)
+);
+--> statement-breakpoint
+-- Seed the currencies that were previously hardcoded in the routers
+INSERT INTO `currencies` (`code`, `name`, `kind`, `decimals`, `symbol`, `network`) VALUES
+('USD', 'US Dollar', 'fiat', 2, '$', NULL),
+('EUR', 'Euro', 'fiat', 2, '€', NULL),
+('GBP', 'British Pound', 'fiat', 2, '£', NULL),
+('JPY', 'Japanese Yen', 'fiat', 0, '¥', NULL),
+('CAD', 'Canadian Dollar', 'fiat', 2, 'CA$', NULL),
+('AUD', 'Australian Dollar', 'fiat', 2, 'A$', NULL),
+('BTC', 'Bitcoin', 'crypto', 8, '₿', 'bitcoin'),
+('ETH', 'Ethereum', 'crypto', 8, 'Ξ', 'ethereum'),
+('LTC', 'Litecoin', 'crypto', 8, 'Ł', 'litecoin'),
+('XRP', 'Ripple', 'crypto', 6, 'XRP', 'xrpl');
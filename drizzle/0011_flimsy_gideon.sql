@@ -0,0 +1,13 @@
+CREATE TABLE `idempotencyKeys` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`key` varchar(128) NOT NULL,
+	`procedure` varchar(64) NOT NULL,
+	`requestHash` varchar(64) NOT NULL,
+	`status` enum('pending','completed') NOT NULL DEFAULT 'pending',
+	`response` json,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`completedAt` timestamp,
+	CONSTRAINT `idempotencyKeys_id` PRIMARY KEY(`id`),
+	CONSTRAINT `idempotencyKeys_userId_key_unique` UNIQUE(`userId`,`key`)
+);
@@ -0,0 +1,14 @@
+CREATE TABLE `holds` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`walletId` int NOT NULL,
+	`userId` int NOT NULL,
+	`transactionId` int,
+	`currencyCode` varchar(10) NOT NULL,
+	`amount` decimal(18,8) NOT NULL,
+	`status` enum('active','captured','released','expired') NOT NULL DEFAULT 'active',
+	`reason` varchar(255),
+	`expiresAt` timestamp NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`settledAt` timestamp,
+	CONSTRAINT `holds_id` PRIMARY KEY(`id`)
+);
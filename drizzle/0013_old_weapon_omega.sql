@@ -0,0 +1,2 @@
+ALTER TABLE `users` ADD `handle` varchar(30);--> statement-breakpoint
+ALTER TABLE `users` ADD CONSTRAINT `users_handle_unique` UNIQUE(`handle`);
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE `exchangeQuotes` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`fromCurrency` varchar(10) NOT NULL,
+	`toCurrency` varchar(10) NOT NULL,
+	`amount` decimal(18,8) NOT NULL,
+	`fee` decimal(18,8) NOT NULL,
+	`marketRate` decimal(36,18) NOT NULL,
+	`spread` decimal(10,8) NOT NULL,
+	`rate` decimal(36,18) NOT NULL,
+	`convertedAmount` decimal(18,8) NOT NULL,
+	`expiresAt` timestamp NOT NULL,
+	`usedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `exchangeQuotes_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `transactions` ADD `exchangeRate` decimal(36,18);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `convertedAmount` decimal(18,8);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `quoteId` int;
\ No newline at end of file
@@ -0,0 +1,43 @@
+CREATE TABLE `jobs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`type` varchar(64) NOT NULL,
+	`payload` json NOT NULL,
+	`dedupeKey` varchar(128),
+	`status` enum('queued','running','completed','failed') NOT NULL DEFAULT 'queued',
+	`runAt` timestamp NOT NULL,
+	`attempts` int NOT NULL DEFAULT 0,
+	`maxAttempts` int NOT NULL DEFAULT 1,
+	`lockedBy` varchar(64),
+	`lockedUntil` timestamp,
+	`lastError` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`finishedAt` timestamp,
+	CONSTRAINT `jobs_id` PRIMARY KEY(`id`),
+	CONSTRAINT `jobs_dedupeKey_unique` UNIQUE(`dedupeKey`)
+);
+--> statement-breakpoint
+CREATE TABLE `scheduledTransfers` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`fromWalletId` int NOT NULL,
+	`recipient` json NOT NULL,
+	`amount` decimal(18,8) NOT NULL,
+	`toCurrencyCode` varchar(10),
+	`description` text,
+	`frequency` enum('once','daily','weekly','monthly','cron') NOT NULL,
+	`cronExpression` varchar(100),
+	`startAt` timestamp NOT NULL,
+	`endAt` timestamp,
+	`status` enum('active','paused','cancelled','completed') NOT NULL DEFAULT 'active',
+	`occurrence` int NOT NULL DEFAULT 0,
+	`nextRunAt` timestamp,
+	`lastRunAt` timestamp,
+	`lastRunStatus` enum('completed','failed'),
+	`lastError` text,
+	`lastTransactionId` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `scheduledTransfers_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `jobs_status_runAt_idx` ON `jobs` (`status`,`runAt`);
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE `paymentRequests` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`token` varchar(64) NOT NULL,
+	`amount` decimal(18,8) NOT NULL,
+	`currencyCode` varchar(10) NOT NULL,
+	`memo` text,
+	`multiUse` boolean NOT NULL DEFAULT false,
+	`status` enum('open','paid','expired','cancelled') NOT NULL DEFAULT 'open',
+	`expiresAt` timestamp,
+	`paymentCount` int NOT NULL DEFAULT 0,
+	`lastPaidAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `paymentRequests_id` PRIMARY KEY(`id`),
+	CONSTRAINT `paymentRequests_token_unique` UNIQUE(`token`)
+);
+--> statement-breakpoint
+ALTER TABLE `transactions` ADD `paymentRequestId` int;--> statement-breakpoint
+CREATE INDEX `paymentRequests_status_expiresAt_idx` ON `paymentRequests` (`status`,`expiresAt`);
\ No newline at end of file
@@ -0,0 +1,28 @@
+CREATE TABLE `disputes` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`transactionId` int NOT NULL,
+	`openedBy` int NOT NULL,
+	`respondentId` int NOT NULL,
+	`reason` enum('not_received','unauthorized','not_as_described','duplicate','other') NOT NULL,
+	`description` text NOT NULL,
+	`evidence` json,
+	`amount` decimal(18,8) NOT NULL,
+	`holdId` int,
+	`status` enum('open','responded','resolved','withdrawn') NOT NULL DEFAULT 'open',
+	`response` text,
+	`responseEvidence` json,
+	`respondedAt` timestamp,
+	`resolution` enum('refund','partial_refund','rejected'),
+	`refundTransactionId` int,
+	`resolvedBy` int,
+	`resolutionNote` text,
+	`resolvedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `disputes_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `transactions` MODIFY COLUMN `transactionType` enum('transfer','deposit','withdrawal','exchange','refund') NOT NULL;--> statement-breakpoint
+ALTER TABLE `transactions` ADD `refundOfId` int;--> statement-breakpoint
+ALTER TABLE `transactions` ADD `refundedAmount` decimal(18,8) DEFAULT '0' NOT NULL;--> statement-breakpoint
+CREATE INDEX `disputes_transactionId_idx` ON `disputes` (`transactionId`);
\ No newline at end of file
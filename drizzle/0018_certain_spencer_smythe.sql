@@ -0,0 +1,15 @@
+CREATE TABLE `transactionEvents` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`transactionId` int NOT NULL,
+	`fromStatus` enum('pending','processing','completed','failed','cancelled'),
+	`toStatus` enum('pending','processing','completed','failed','cancelled') NOT NULL,
+	`actorId` int,
+	`reason` varchar(64) NOT NULL,
+	`note` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `transactionEvents_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `transactions` MODIFY COLUMN `status` enum('pending','processing','completed','failed','cancelled') NOT NULL DEFAULT 'pending';--> statement-breakpoint
+ALTER TABLE `transactions` ADD `failureReason` varchar(64);--> statement-breakpoint
+CREATE INDEX `transactionEvents_transactionId_idx` ON `transactionEvents` (`transactionId`);
\ No newline at end of file
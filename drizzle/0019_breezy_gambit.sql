@@ -0,0 +1,25 @@
+CREATE TABLE `feeSchedules` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`transactionType` enum('transfer','withdrawal','exchange') NOT NULL,
+	`currencyCode` varchar(10),
+	`userTier` varchar(32),
+	`feeType` enum('flat','percentage','tiered') NOT NULL,
+	`flatAmount` decimal(18,8),
+	`rate` decimal(10,8),
+	`tiers` json,
+	`minFee` decimal(18,8),
+	`maxFee` decimal(18,8),
+	`enabled` boolean NOT NULL DEFAULT true,
+	`createdBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `feeSchedules_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `users` ADD `feeTier` varchar(32) DEFAULT 'standard' NOT NULL;--> statement-breakpoint
+CREATE INDEX `feeSchedules_transactionType_idx` ON `feeSchedules` (`transactionType`);--> statement-breakpoint
+-- Default schedules: the fees previously hardcoded for crypto withdrawals and conversions
+INSERT INTO `feeSchedules` (`transactionType`, `currencyCode`, `feeType`, `flatAmount`, `rate`) VALUES
+('withdrawal', 'BTC', 'flat', '0.0005', NULL),
+('withdrawal', 'ETH', 'flat', '0.0005', NULL),
+('exchange', NULL, 'percentage', NULL, '0.001');
@@ -0,0 +1 @@
+ALTER TABLE `idempotencyKeys` ADD `lockedUntil` timestamp;
\ No newline at end of file
@@ -0,0 +1,26 @@
+ALTER TABLE `wallets` MODIFY COLUMN `userId` int;--> statement-breakpoint
+ALTER TABLE `currencies` ADD `revenueWalletId` int;--> statement-breakpoint
+-- Revenue wallets: one platform wallet per currency
+INSERT INTO `wallets` (`userId`, `currencyCode`, `balance`)
+SELECT NULL, `code`, 0 FROM `currencies`;
+--> statement-breakpoint
+UPDATE `currencies` JOIN `wallets` ON `wallets`.`userId` IS NULL AND `wallets`.`currencyCode` = `currencies`.`code`
+SET `currencies`.`revenueWalletId` = `wallets`.`id`;
+--> statement-breakpoint
+-- Move the fees collected so far from the fees account to the revenue wallets
+INSERT INTO `ledgerEntries` (`transactionId`, `account`, `walletId`, `currencyCode`, `direction`, `amount`)
+SELECT NULL, 'wallet', `currencies`.`revenueWalletId`, `fees`.`currencyCode`, 'credit', `fees`.`total`
+FROM (
+	SELECT `currencyCode`, SUM(CASE WHEN `direction` = 'credit' THEN `amount` ELSE -`amount` END) AS `total`
+	FROM `ledgerEntries` WHERE `account` = 'fees' GROUP BY `currencyCode`
+) AS `fees`
+JOIN `currencies` ON `currencies`.`code` = `fees`.`currencyCode`
+WHERE `fees`.`total` > 0;
+--> statement-breakpoint
+INSERT INTO `ledgerEntries` (`transactionId`, `account`, `walletId`, `currencyCode`, `direction`, `amount`)
+SELECT NULL, 'fees', NULL, `currencyCode`, 'debit', `amount` FROM `ledgerEntries`
+WHERE `account` = 'wallet' AND `walletId` IN (SELECT `revenueWalletId` FROM `currencies`);
+--> statement-breakpoint
+UPDATE `wallets` JOIN `ledgerEntries` ON `ledgerEntries`.`walletId` = `wallets`.`id`
+SET `wallets`.`balance` = `ledgerEntries`.`amount`
+WHERE `wallets`.`userId` IS NULL;
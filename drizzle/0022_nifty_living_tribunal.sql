@@ -0,0 +1 @@
+ALTER TABLE `wallets` ADD CONSTRAINT `wallets_userId_currencyCode_unique` UNIQUE(`userId`,`currencyCode`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `totpFactors` ADD `failedAttempts` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `totpFactors` ADD `lockedUntil` timestamp;
\ No newline at end of file
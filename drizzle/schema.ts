@@ -1,4 +1,4 @@
-import { decimal, int, json, mysqlEnum, mysqlTable, text, timestamp, varchar, boolean } from "drizzle-orm/mysql-core";
+import { decimal, int, json, mysqlEnum, mysqlTable, text, timestamp, varchar, boolean, index, uniqueIndex } from "drizzle-orm/mysql-core";
 import { relations } from "drizzle-orm";
 
 /**
@@ -16,8 +16,12 @@ export const users = mysqlTable("users", {
   openId: varchar("openId", { length: 64 }).notNull().unique(),
   name: text("name"),
   email: varchar("email", { length: 320 }),
+  /** Public handle other users can send money to; lowercase, unique */
+  handle: varchar("handle", { length: 30 }).unique(),
   loginMethod: varchar("loginMethod", { length: 64 }),
   role: mysqlEnum("role", ["user", "admin"]).default("user").notNull(),
+  /** Selects fee schedules for this user; set by admins */
+  feeTier: varchar("feeTier", { length: 32 }).default("standard").notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
   lastSignedIn: timestamp("lastSignedIn").defaultNow().notNull(),
@@ -29,14 +33,14 @@ export type InsertUser = typeof users.$inferInsert;
 // Wallets table - stores individual currency wallets for each user
 export const wallets = mysqlTable("wallets", {
   id: int("id").autoincrement().primaryKey(),
-  userId: int("userId").notNull(),
+  userId: int("userId"), // null for the platform's fee revenue wallets
   currencyCode: varchar("currencyCode", { length: 10 }).notNull(), // e.g., 'USD', 'BTC', 'ETH'
   balance: decimal("balance", { precision: 18, scale: 8 }).default("0").notNull(),
   address: varchar("address", { length: 255 }), // for crypto wallets
   isActive: boolean("isActive").default(true).notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
-});
+}, table => [uniqueIndex("wallets_userId_currencyCode_unique").on(table.userId, table.currencyCode)]);
 
 export type Wallet = typeof wallets.$inferSelect;
 export type InsertWallet = typeof wallets.$inferInsert;
@@ -50,10 +54,23 @@ export const transactions = mysqlTable("transactions", {
   toWalletId: int("toWalletId"),
   amount: decimal("amount", { precision: 18, scale: 8 }).notNull(),
   fee: decimal("fee", { precision: 18, scale: 8 }).default("0"),
-  transactionType: mysqlEnum("transactionType", ["transfer", "deposit", "withdrawal", "exchange"]).notNull(),
-  status: mysqlEnum("status", ["pending", "completed", "failed", "cancelled"]).default("pending").notNull(),
+  transactionType: mysqlEnum("transactionType", ["transfer", "deposit", "withdrawal", "exchange", "refund"]).notNull(),
+  /** Moves only along the transitions in server/transactionStates.ts */
+  status: mysqlEnum("status", ["pending", "processing", "completed", "failed", "cancelled"]).default("pending").notNull(),
+  /** Reason code of the move to failed or cancelled */
+  failureReason: varchar("failureReason", { length: 64 }),
   blockchainTxHash: varchar("blockchainTxHash", { length: 255 }),
   description: text("description"),
+  /** Conversions only: rate applied to `amount`, the credited amount in the destination currency, and the quote used */
+  exchangeRate: decimal("exchangeRate", { precision: 36, scale: 18 }),
+  convertedAmount: decimal("convertedAmount", { precision: 18, scale: 8 }),
+  quoteId: int("quoteId"),
+  /** Transfers paying a payment request */
+  paymentRequestId: int("paymentRequestId"),
+  /** Refunds only: the transfer being refunded */
+  refundOfId: int("refundOfId"),
+  /** Transfers only: total refunded so far */
+  refundedAmount: decimal("refundedAmount", { precision: 18, scale: 8 }).default("0").notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   completedAt: timestamp("completedAt"),
 });
@@ -61,13 +78,204 @@ export const transactions = mysqlTable("transactions", {
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = typeof transactions.$inferInsert;
 
+// Transaction events table - every status a transaction has had, with who moved it and why
+// `fromStatus` is null for the event recording the transaction's creation.
+export const transactionEvents = mysqlTable("transactionEvents", {
+  id: int("id").autoincrement().primaryKey(),
+  transactionId: int("transactionId").notNull(),
+  fromStatus: mysqlEnum("fromStatus", ["pending", "processing", "completed", "failed", "cancelled"]),
+  toStatus: mysqlEnum("toStatus", ["pending", "processing", "completed", "failed", "cancelled"]).notNull(),
+  actorId: int("actorId"), // null for the system, e.g. expiry jobs
+  reason: varchar("reason", { length: 64 }).notNull(),
+  note: text("note"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, table => [index("transactionEvents_transactionId_idx").on(table.transactionId)]);
+
+export type TransactionEvent = typeof transactionEvents.$inferSelect;
+export type InsertTransactionEvent = typeof transactionEvents.$inferInsert;
+
+// Ledger entries table - double-entry postings behind every balance change
+// Wallet accounts are credited when their balance grows; system accounts
+// (external, fees, exchange) are per currency and have no walletId. Fees are
+// credited to revenue wallets; the fees account only holds older postings.
+export const ledgerEntries = mysqlTable("ledgerEntries", {
+  id: int("id").autoincrement().primaryKey(),
+  transactionId: int("transactionId"), // null for opening balances
+  account: mysqlEnum("account", ["wallet", "external", "fees", "exchange"]).notNull(),
+  walletId: int("walletId"),
+  currencyCode: varchar("currencyCode", { length: 10 }).notNull(),
+  direction: mysqlEnum("direction", ["debit", "credit"]).notNull(),
+  amount: decimal("amount", { precision: 18, scale: 8 }).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type InsertLedgerEntry = typeof ledgerEntries.$inferInsert;
+
+// Holds table - funds reserved for pending operations
+// A wallet's available balance is its balance minus its active, unexpired
+// holds; holds never touch the ledger until they are captured.
+export const holds = mysqlTable("holds", {
+  id: int("id").autoincrement().primaryKey(),
+  walletId: int("walletId").notNull(),
+  userId: int("userId").notNull(),
+  transactionId: int("transactionId"), // the pending transaction the hold reserves funds for
+  currencyCode: varchar("currencyCode", { length: 10 }).notNull(),
+  amount: decimal("amount", { precision: 18, scale: 8 }).notNull(),
+  status: mysqlEnum("status", ["active", "captured", "released", "expired"]).default("active").notNull(),
+  reason: varchar("reason", { length: 255 }),
+  expiresAt: timestamp("expiresAt").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  settledAt: timestamp("settledAt"),
+});
+
+export type Hold = typeof holds.$inferSelect;
+export type InsertHold = typeof holds.$inferInsert;
+
+// Idempotency keys table - remembers the outcome of money-moving requests
+// so a retried request replays the stored result instead of running twice
+export const idempotencyKeys = mysqlTable("idempotencyKeys", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  key: varchar("key", { length: 128 }).notNull(),
+  procedure: varchar("procedure", { length: 64 }).notNull(),
+  requestHash: varchar("requestHash", { length: 64 }).notNull(), // SHA-256 of the canonical input
+  status: mysqlEnum("status", ["pending", "completed"]).default("pending").notNull(),
+  response: json("response"),
+  lockedUntil: timestamp("lockedUntil"), // lease on a pending claim; once it lapses the key can be claimed again
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  completedAt: timestamp("completedAt"),
+}, table => [uniqueIndex("idempotencyKeys_userId_key_unique").on(table.userId, table.key)]);
+
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type InsertIdempotencyKey = typeof idempotencyKeys.$inferInsert;
+
+// Jobs table - background work queued to run at `runAt`, claimed by one server instance at a time
+// `lockedUntil` is the claim's lease; a job whose lease lapses while running is picked up again
+export const jobs = mysqlTable("jobs", {
+  id: int("id").autoincrement().primaryKey(),
+  type: varchar("type", { length: 64 }).notNull(),
+  payload: json("payload").notNull(),
+  /** Optional unique key so a job is only enqueued once, e.g. one per schedule occurrence */
+  dedupeKey: varchar("dedupeKey", { length: 128 }).unique(),
+  status: mysqlEnum("status", ["queued", "running", "completed", "failed"]).default("queued").notNull(),
+  runAt: timestamp("runAt").notNull(),
+  attempts: int("attempts").default(0).notNull(),
+  maxAttempts: int("maxAttempts").default(1).notNull(),
+  lockedBy: varchar("lockedBy", { length: 64 }),
+  lockedUntil: timestamp("lockedUntil"),
+  lastError: text("lastError"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  finishedAt: timestamp("finishedAt"),
+}, table => [index("jobs_status_runAt_idx").on(table.status, table.runAt)]);
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
+
+// Scheduled transfers table - one-off and recurring transfers run by the job runner
+// `occurrence` counts the runs due so far, including skipped ones; each run's job carries the occurrence it was queued for
+export const scheduledTransfers = mysqlTable("scheduledTransfers", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  fromWalletId: int("fromWalletId").notNull(),
+  /** Recipient as accepted by `transactions.transfer` */
+  recipient: json("recipient").notNull(),
+  amount: decimal("amount", { precision: 18, scale: 8 }).notNull(),
+  toCurrencyCode: varchar("toCurrencyCode", { length: 10 }),
+  description: text("description"),
+  frequency: mysqlEnum("frequency", ["once", "daily", "weekly", "monthly", "cron"]).notNull(),
+  cronExpression: varchar("cronExpression", { length: 100 }),
+  startAt: timestamp("startAt").notNull(),
+  endAt: timestamp("endAt"),
+  status: mysqlEnum("status", ["active", "paused", "cancelled", "completed"]).default("active").notNull(),
+  occurrence: int("occurrence").default(0).notNull(),
+  nextRunAt: timestamp("nextRunAt"),
+  lastRunAt: timestamp("lastRunAt"),
+  lastRunStatus: mysqlEnum("lastRunStatus", ["completed", "failed"]),
+  lastError: text("lastError"),
+  lastTransactionId: int("lastTransactionId"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type ScheduledTransfer = typeof scheduledTransfers.$inferSelect;
+export type InsertScheduledTransfer = typeof scheduledTransfers.$inferInsert;
+
+// Payment requests table - money a user asks for through a shareable link
+// Single-use requests are paid once; multi-use ones stay open until cancelled or expired.
+export const paymentRequests = mysqlTable("paymentRequests", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(), // the requester, who gets paid
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  amount: decimal("amount", { precision: 18, scale: 8 }).notNull(),
+  currencyCode: varchar("currencyCode", { length: 10 }).notNull(),
+  memo: text("memo"),
+  multiUse: boolean("multiUse").default(false).notNull(),
+  status: mysqlEnum("status", ["open", "paid", "expired", "cancelled"]).default("open").notNull(),
+  expiresAt: timestamp("expiresAt"),
+  paymentCount: int("paymentCount").default(0).notNull(),
+  lastPaidAt: timestamp("lastPaidAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, table => [index("paymentRequests_status_expiresAt_idx").on(table.status, table.expiresAt)]);
+
+export type PaymentRequest = typeof paymentRequests.$inferSelect;
+export type InsertPaymentRequest = typeof paymentRequests.$inferInsert;
+
+// Disputes table - a payer contests a completed transfer; the payee responds and an admin decides
+// While a dispute is open the disputed amount is held in the payee's wallet (`holdId`) when their balance allows.
+export const disputes = mysqlTable("disputes", {
+  id: int("id").autoincrement().primaryKey(),
+  transactionId: int("transactionId").notNull(),
+  openedBy: int("openedBy").notNull(), // the payer
+  respondentId: int("respondentId").notNull(), // the payee
+  reason: mysqlEnum("reason", ["not_received", "unauthorized", "not_as_described", "duplicate", "other"]).notNull(),
+  description: text("description").notNull(),
+  evidence: json("evidence"), // notes and links from the payer
+  amount: decimal("amount", { precision: 18, scale: 8 }).notNull(), // still refundable when opened
+  holdId: int("holdId"),
+  status: mysqlEnum("status", ["open", "responded", "resolved", "withdrawn"]).default("open").notNull(),
+  response: text("response"),
+  responseEvidence: json("responseEvidence"),
+  respondedAt: timestamp("respondedAt"),
+  resolution: mysqlEnum("resolution", ["refund", "partial_refund", "rejected"]),
+  refundTransactionId: int("refundTransactionId"),
+  resolvedBy: int("resolvedBy"),
+  resolutionNote: text("resolutionNote"),
+  resolvedAt: timestamp("resolvedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, table => [index("disputes_transactionId_idx").on(table.transactionId)]);
+
+export type Dispute = typeof disputes.$inferSelect;
+export type InsertDispute = typeof disputes.$inferInsert;
+
+// Sessions table - one row per signed-in browser or device, keyed by the JWT "sid" claim
+export const sessions = mysqlTable("sessions", {
+  id: int("id").autoincrement().primaryKey(),
+  sessionId: varchar("sessionId", { length: 64 }).notNull().unique(),
+  userId: int("userId").notNull(),
+  userAgent: text("userAgent"),
+  ipAddress: varchar("ipAddress", { length: 45 }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(), // first seen
+  lastSeenAt: timestamp("lastSeenAt").defaultNow().notNull(),
+  revokedAt: timestamp("revokedAt"),
+});
+
+export type Session = typeof sessions.$inferSelect;
+export type InsertSession = typeof sessions.$inferInsert;
+
 // Fingerprints table - stores WebAuthn credential data
 export const fingerprints = mysqlTable("fingerprints", {
   id: int("id").autoincrement().primaryKey(),
   userId: int("userId").notNull(),
   credentialId: varchar("credentialId", { length: 255 }).notNull().unique(),
+  nickname: varchar("nickname", { length: 100 }), // user-chosen label, e.g. "Work laptop"
   publicKey: text("publicKey").notNull(), // encrypted
   counter: int("counter").default(0).notNull(),
+  aaguid: varchar("aaguid", { length: 36 }), // authenticator model, from attested credential data
+  attestationType: mysqlEnum("attestationType", ["none", "self", "basic"]), // null for credentials registered before it was recorded
+  userVerified: boolean("userVerified").default(false).notNull(), // UV flag at registration
   transports: json("transports"),
   isActive: boolean("isActive").default(true).notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
@@ -77,6 +285,85 @@ export const fingerprints = mysqlTable("fingerprints", {
 export type Fingerprint = typeof fingerprints.$inferSelect;
 export type InsertFingerprint = typeof fingerprints.$inferInsert;
 
+// Authenticator policies table - admin-managed registration policy, latest row applies
+export const authenticatorPolicies = mysqlTable("authenticatorPolicies", {
+  id: int("id").autoincrement().primaryKey(),
+  userVerification: mysqlEnum("userVerification", ["required", "preferred", "discouraged"]).default("preferred").notNull(),
+  authenticatorAttachment: mysqlEnum("authenticatorAttachment", ["platform", "cross-platform", "any"]).default("platform").notNull(),
+  requireAttestation: boolean("requireAttestation").default(false).notNull(),
+  allowedAaguids: json("allowedAaguids"), // empty or null allows any model not blocked
+  blockedAaguids: json("blockedAaguids"),
+  updatedBy: int("updatedBy").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type AuthenticatorPolicyRecord = typeof authenticatorPolicies.$inferSelect;
+export type InsertAuthenticatorPolicy = typeof authenticatorPolicies.$inferInsert;
+
+// WebAuthn challenges table - single-use ceremony challenges bound to a user or pre-auth session
+export const webauthnChallenges = mysqlTable("webauthnChallenges", {
+  id: int("id").autoincrement().primaryKey(),
+  challenge: varchar("challenge", { length: 128 }).notNull().unique(),
+  purpose: mysqlEnum("purpose", ["register", "login", "transaction"]).notNull(),
+  userId: int("userId"),
+  sessionId: varchar("sessionId", { length: 64 }),
+  expiresAt: timestamp("expiresAt").notNull(),
+  usedAt: timestamp("usedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type WebauthnChallenge = typeof webauthnChallenges.$inferSelect;
+export type InsertWebauthnChallenge = typeof webauthnChallenges.$inferInsert;
+
+// Recovery codes table - single-use fallback for biometric step-up
+export const recoveryCodes = mysqlTable("recoveryCodes", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  codeHash: varchar("codeHash", { length: 64 }).notNull().unique(), // HMAC-SHA256 of the normalized code
+  usedAt: timestamp("usedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
+export type InsertRecoveryCode = typeof recoveryCodes.$inferInsert;
+
+// TOTP factors table - RFC 6238 authenticator app enrollment, one per user
+export const totpFactors = mysqlTable("totpFactors", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull().unique(),
+  secret: text("secret").notNull(), // AES-256-GCM encrypted base32 secret
+  confirmedAt: timestamp("confirmedAt"), // null until the first code is verified
+  lastUsedStep: int("lastUsedStep").default(0).notNull(), // last accepted time step, rejects replays
+  failedAttempts: int("failedAttempts").default(0).notNull(), // wrong codes since the last accepted one or lockout
+  lockedUntil: timestamp("lockedUntil"), // no codes are checked until then
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type TotpFactor = typeof totpFactors.$inferSelect;
+export type InsertTotpFactor = typeof totpFactors.$inferInsert;
+
+// Currencies table - registry of supported currencies and their precision
+export const currencies = mysqlTable("currencies", {
+  id: int("id").autoincrement().primaryKey(),
+  code: varchar("code", { length: 10 }).notNull().unique(),
+  name: varchar("name", { length: 100 }).notNull(),
+  kind: mysqlEnum("kind", ["fiat", "crypto", "token"]).notNull(),
+  /** Fractional digits amounts may carry (at most the 8 stored by amount columns) */
+  decimals: int("decimals").notNull(),
+  symbol: varchar("symbol", { length: 10 }),
+  /** Blockchain network for crypto and token currencies */
+  network: varchar("network", { length: 50 }),
+  /** Disabled currencies accept no new wallets or inbound funds */
+  enabled: boolean("enabled").default(true).notNull(),
+  /** Platform wallet that fees charged in this currency are credited to */
+  revenueWalletId: int("revenueWalletId"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Currency = typeof currencies.$inferSelect;
+export type InsertCurrency = typeof currencies.$inferInsert;
+
 // Exchange rates table - caches real-time currency exchange rates
 export const exchangeRates = mysqlTable("exchangeRates", {
   id: int("id").autoincrement().primaryKey(),
@@ -90,6 +377,49 @@ export const exchangeRates = mysqlTable("exchangeRates", {
 export type ExchangeRate = typeof exchangeRates.$inferSelect;
 export type InsertExchangeRate = typeof exchangeRates.$inferInsert;
 
+// Exchange quotes table - a conversion price offered to a user, honoured until it expires
+// `rate` is the market rate with the spread taken off; a quote is spent by at most one transaction
+export const exchangeQuotes = mysqlTable("exchangeQuotes", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  fromCurrency: varchar("fromCurrency", { length: 10 }).notNull(),
+  toCurrency: varchar("toCurrency", { length: 10 }).notNull(),
+  amount: decimal("amount", { precision: 18, scale: 8 }).notNull(),
+  fee: decimal("fee", { precision: 18, scale: 8 }).notNull(),
+  marketRate: decimal("marketRate", { precision: 36, scale: 18 }).notNull(),
+  spread: decimal("spread", { precision: 10, scale: 8 }).notNull(),
+  rate: decimal("rate", { precision: 36, scale: 18 }).notNull(),
+  convertedAmount: decimal("convertedAmount", { precision: 18, scale: 8 }).notNull(),
+  expiresAt: timestamp("expiresAt").notNull(),
+  usedAt: timestamp("usedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type ExchangeQuote = typeof exchangeQuotes.$inferSelect;
+export type InsertExchangeQuote = typeof exchangeQuotes.$inferInsert;
+
+// Fee schedules table - what the platform charges per transaction type, optionally per currency and user fee tier
+// The most specific enabled schedule applies. Amounts are in `currencyCode`, so schedules for any currency only charge a rate.
+export const feeSchedules = mysqlTable("feeSchedules", {
+  id: int("id").autoincrement().primaryKey(),
+  transactionType: mysqlEnum("transactionType", ["transfer", "withdrawal", "exchange"]).notNull(),
+  currencyCode: varchar("currencyCode", { length: 10 }), // null for any currency
+  userTier: varchar("userTier", { length: 32 }), // null for any tier
+  feeType: mysqlEnum("feeType", ["flat", "percentage", "tiered"]).notNull(),
+  flatAmount: decimal("flatAmount", { precision: 18, scale: 8 }),
+  rate: decimal("rate", { precision: 10, scale: 8 }), // fraction of the amount
+  tiers: json("tiers"), // [{ upTo, flatAmount, rate }] by ascending upTo; the last has no upTo
+  minFee: decimal("minFee", { precision: 18, scale: 8 }),
+  maxFee: decimal("maxFee", { precision: 18, scale: 8 }),
+  enabled: boolean("enabled").default(true).notNull(),
+  createdBy: int("createdBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, table => [index("feeSchedules_transactionType_idx").on(table.transactionType)]);
+
+export type FeeSchedule = typeof feeSchedules.$inferSelect;
+export type InsertFeeSchedule = typeof feeSchedules.$inferInsert;
+
 // Notifications table - tracks notification history
 export const notifications = mysqlTable("notifications", {
   id: int("id").autoincrement().primaryKey(),
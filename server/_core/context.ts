@@ -6,15 +6,20 @@ export type TrpcContext = {
   req: CreateExpressContextOptions["req"];
   res: CreateExpressContextOptions["res"];
   user: User | null;
+  /** Session ID from the session cookie, when signed in */
+  sessionId?: string;
 };
 
 export async function createContext(
   opts: CreateExpressContextOptions
 ): Promise<TrpcContext> {
   let user: User | null = null;
+  let sessionId: string | undefined;
 
   try {
-    user = await sdk.authenticateRequest(opts.req);
+    const authenticated = await sdk.authenticateSession(opts.req);
+    user = authenticated.user;
+    sessionId = authenticated.session.sessionId;
   } catch (error) {
     // Authentication is optional for public procedures.
     user = null;
@@ -24,5 +29,6 @@ export async function createContext(
     req: opts.req,
     res: opts.res,
     user,
+    sessionId,
   };
 }
@@ -7,4 +7,8 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  webAuthnRpId: process.env.WEBAUTHN_RP_ID || "localhost",
+  webAuthnOrigin: process.env.WEBAUTHN_ORIGIN || "http://localhost:3000",
+  webAuthnChallengeStore: process.env.WEBAUTHN_CHALLENGE_STORE ?? "",
+  totpEncryptionKey: process.env.TOTP_ENCRYPTION_KEY ?? "",
 };
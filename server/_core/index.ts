@@ -7,6 +7,10 @@ import { registerOAuthRoutes } from "./oauth";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
+import { registerRecurringJob, startJobRunner } from "../jobs";
+import { expireHolds } from "../holds";
+import { expirePaymentRequests } from "../db";
+import { registerScheduledTransferJobs } from "../scheduledTransfers";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -60,6 +64,12 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+
+  // Background jobs run in every instance; each job is claimed by one of them
+  registerScheduledTransferJobs();
+  registerRecurringJob("holds.expire", 5 * 60 * 1000, () => expireHolds());
+  registerRecurringJob("paymentRequests.expire", 5 * 60 * 1000, () => expirePaymentRequests(new Date()));
+  startJobRunner();
 }
 
 startServer().catch(console.error);
@@ -36,7 +36,12 @@ export function registerOAuthRoutes(app: Express) {
         lastSignedIn: new Date(),
       });
 
-      const sessionToken = await sdk.createSessionToken(userInfo.openId, {
+      const user = await db.getUserByOpenId(userInfo.openId);
+      if (!user) {
+        throw new Error("User not found after sign-in");
+      }
+
+      const sessionToken = await sdk.startSession(user, req, {
         name: userInfo.name || "",
         expiresInMs: ONE_YEAR_MS,
       });
@@ -2,9 +2,10 @@ import { AXIOS_TIMEOUT_MS, COOKIE_NAME, ONE_YEAR_MS } from "@shared/const";
 import { ForbiddenError } from "@shared/_core/errors";
 import axios, { type AxiosInstance } from "axios";
 import { parse as parseCookieHeader } from "cookie";
+import { randomBytes } from "crypto";
 import type { Request } from "express";
 import { SignJWT, jwtVerify } from "jose";
-import type { User } from "../../drizzle/schema";
+import type { Session, User } from "../../drizzle/schema";
 import * as db from "../db";
 import { ENV } from "./env";
 import type {
@@ -22,8 +23,13 @@ export type SessionPayload = {
   openId: string;
   appId: string;
   name: string;
+  /** Key of the row in the sessions table, carried as the "sid" claim */
+  sessionId?: string;
 };
 
+/** Only write lastSeenAt when it is older than this, or the client changed */
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
 const EXCHANGE_TOKEN_PATH = `/webdev.v1.WebDevAuthPublicService/ExchangeToken`;
 const GET_USER_INFO_PATH = `/webdev.v1.WebDevAuthPublicService/GetUserInfo`;
 const GET_USER_INFO_WITH_JWT_PATH = `/webdev.v1.WebDevAuthPublicService/GetUserInfoWithJwt`;
@@ -154,6 +160,14 @@ class SDKServer {
     return new Map(Object.entries(parsed));
   }
 
+  private getClientInfo(req: Request) {
+    const forwardedFor = req.headers["x-forwarded-for"];
+    const forwarded = Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor;
+    const ipAddress = forwarded?.split(",")[0]?.trim() || req.socket?.remoteAddress || null;
+    const userAgent = req.headers["user-agent"] ?? null;
+    return { ipAddress: ipAddress ? ipAddress.slice(0, 45) : null, userAgent };
+  }
+
   private getSessionSecret() {
     const secret = ENV.cookieSecret;
     return new TextEncoder().encode(secret);
@@ -166,18 +180,39 @@ class SDKServer {
    */
   async createSessionToken(
     openId: string,
-    options: { expiresInMs?: number; name?: string } = {}
+    options: { expiresInMs?: number; name?: string; sessionId?: string } = {}
   ): Promise<string> {
     return this.signSession(
       {
         openId,
         appId: ENV.appId,
         name: options.name || "",
+        sessionId: options.sessionId,
       },
       options
     );
   }
 
+  /**
+   * Record a new session for the user's current device and sign its token
+   * @example
+   * const sessionToken = await sdk.startSession(user, req, { name: user.name });
+   */
+  async startSession(
+    user: Pick<User, "id" | "openId">,
+    req: Request,
+    options: { expiresInMs?: number; name?: string } = {}
+  ): Promise<string> {
+    const sessionId = randomBytes(24).toString("base64url");
+    await db.createSession({
+      sessionId,
+      userId: user.id,
+      ...this.getClientInfo(req),
+    });
+
+    return this.createSessionToken(user.openId, { ...options, sessionId });
+  }
+
   async signSession(
     payload: SessionPayload,
     options: { expiresInMs?: number } = {}
@@ -191,6 +226,7 @@ class SDKServer {
       openId: payload.openId,
       appId: payload.appId,
       name: payload.name,
+      ...(payload.sessionId ? { sid: payload.sessionId } : {}),
     })
       .setProtectedHeader({ alg: "HS256", typ: "JWT" })
       .setExpirationTime(expirationSeconds)
@@ -199,7 +235,7 @@ class SDKServer {
 
   async verifySession(
     cookieValue: string | undefined | null
-  ): Promise<{ openId: string; appId: string; name: string } | null> {
+  ): Promise<SessionPayload | null> {
     if (!cookieValue) {
       console.warn("[Auth] Missing session cookie");
       return null;
@@ -210,7 +246,7 @@ class SDKServer {
       const { payload } = await jwtVerify(cookieValue, secretKey, {
         algorithms: ["HS256"],
       });
-      const { openId, appId, name } = payload as Record<string, unknown>;
+      const { openId, appId, name, sid } = payload as Record<string, unknown>;
 
       if (
         !isNonEmptyString(openId) ||
@@ -225,6 +261,7 @@ class SDKServer {
         openId,
         appId,
         name,
+        sessionId: isNonEmptyString(sid) ? sid : undefined,
       };
     } catch (error) {
       console.warn("[Auth] Session verification failed", String(error));
@@ -257,6 +294,15 @@ class SDKServer {
   }
 
   async authenticateRequest(req: Request): Promise<User> {
+    const { user } = await this.authenticateSession(req);
+    return user;
+  }
+
+  /**
+   * Authenticate the request and return the user with their tracked session
+   * Rejects tokens without a session ID and sessions that were revoked.
+   */
+  async authenticateSession(req: Request): Promise<{ user: User; session: Session }> {
     // Regular authentication flow
     const cookies = this.parseCookies(req.headers.cookie);
     const sessionCookie = cookies.get(COOKIE_NAME);
@@ -265,6 +311,14 @@ class SDKServer {
     if (!session) {
       throw ForbiddenError("Invalid session cookie");
     }
+    if (!session.sessionId) {
+      throw ForbiddenError("Untracked session, please sign in again");
+    }
+
+    const sessionRecord = await db.getSessionBySessionId(session.sessionId);
+    if (!sessionRecord || sessionRecord.revokedAt) {
+      throw ForbiddenError("Session revoked");
+    }
 
     const sessionUserId = session.openId;
     const signedInAt = new Date();
@@ -291,13 +345,25 @@ class SDKServer {
     if (!user) {
       throw ForbiddenError("User not found");
     }
+    if (sessionRecord.userId !== user.id) {
+      throw ForbiddenError("Session does not belong to user");
+    }
 
     await db.upsertUser({
       openId: user.openId,
       lastSignedIn: signedInAt,
     });
 
-    return user;
+    const client = this.getClientInfo(req);
+    if (
+      signedInAt.getTime() - sessionRecord.lastSeenAt.getTime() > SESSION_TOUCH_INTERVAL_MS ||
+      client.userAgent !== sessionRecord.userAgent ||
+      client.ipAddress !== sessionRecord.ipAddress
+    ) {
+      await db.touchSession(sessionRecord.id, client);
+    }
+
+    return { user, session: sessionRecord };
   }
 }
 
@@ -1,7 +1,11 @@
-import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
+import { NOT_ADMIN_ERR_MSG, STEP_UP_FAILED_ERR_MSG, STEP_UP_REQUIRED_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
+import { compareDecimals, isDecimal } from '@shared/money';
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import type { TrpcContext } from "./context";
+import { suppliedFactorCount, verifyStepUpProof, type StepUpOperation, type StepUpProof } from "../stepUp";
+import { isCompletedRequest } from "../idempotency";
+import { hasStepUpFactor } from "../authFactors";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
@@ -27,6 +31,68 @@ const requireUser = t.middleware(async opts => {
 
 export const protectedProcedure = t.procedure.use(requireUser);
 
+export type StepUpPolicy<TInput> = {
+  /**
+   * Require a fresh assertion always, only above an amount threshold, or
+   * only once the user has a factor to approve with (first-time setup of a
+   * factor needs none)
+   */
+  when: "always" | "enrolled" | { above: string };
+  /** Describe the exact operation the user is approving */
+  operation: (input: TInput) => StepUpOperation;
+  /** Number of distinct factors required, e.g. 2 for fingerprint + TOTP (default 1) */
+  factors?: 1 | 2;
+  /**
+   * The procedure's runIdempotent name; a retry of a request that already
+   * completed gets its stored result without a new approval
+   */
+  idempotent?: string;
+};
+
+/**
+ * Require a fresh biometric assertion bound to the operation in `input`,
+ * or an authenticator app or recovery code in its place or in addition.
+ * Use after `.input()` on procedures whose input accepts a `stepUp` proof.
+ */
+export function requireStepUp<TInput>(policy: StepUpPolicy<TInput>) {
+  return t.middleware(async opts => {
+    const { ctx, input, next } = opts;
+
+    if (!ctx.user) {
+      throw new TRPCError({ code: "UNAUTHORIZED", message: UNAUTHED_ERR_MSG });
+    }
+
+    const operation = policy.operation(input as TInput);
+    let required: boolean;
+    if (policy.when === "always") {
+      required = true;
+    } else if (policy.when === "enrolled") {
+      required = await hasStepUpFactor(ctx.user.id);
+    } else {
+      // Malformed amounts are treated as above any threshold
+      required = !isDecimal(operation.amount) || compareDecimals(operation.amount, policy.when.above) > 0;
+    }
+
+    const replay =
+      required &&
+      policy.idempotent !== undefined &&
+      (await isCompletedRequest(ctx.user.id, policy.idempotent, input as { idempotencyKey?: string }));
+
+    if (required && !replay) {
+      const proof = (input as { stepUp?: StepUpProof }).stepUp;
+      const factors = policy.factors ?? 1;
+      if (!proof || suppliedFactorCount(proof) < factors) {
+        throw new TRPCError({ code: "FORBIDDEN", message: STEP_UP_REQUIRED_ERR_MSG });
+      }
+      if (!(await verifyStepUpProof(ctx.user.id, operation, proof, factors))) {
+        throw new TRPCError({ code: "FORBIDDEN", message: STEP_UP_FAILED_ERR_MSG });
+      }
+    }
+
+    return next();
+  });
+}
+
 export const adminProcedure = t.procedure.use(
   t.middleware(async opts => {
     const { ctx, next } = opts;
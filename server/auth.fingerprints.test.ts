@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type Fingerprint = {
+  id: number;
+  userId: number;
+  credentialId: string;
+  nickname: string | null;
+  aaguid: string | null;
+  isActive: boolean;
+};
+
+let fingerprints: Fingerprint[] = [];
+let unusedRecoveryCodes = 0;
+let stepUpApproved = true;
+const auditLogs: Array<Record<string, unknown>> = [];
+const notifications: Array<Record<string, unknown>> = [];
+
+vi.mock("./db", async () => {
+  const actual = await vi.importActual<typeof import("./db")>("./db");
+  return {
+    ...actual,
+    getUserFingerprints: vi.fn(async (userId: number) => fingerprints.filter(fp => fp.userId === userId)),
+    updateFingerprint: vi.fn(async (id: number, changes: Partial<Fingerprint>) => {
+      fingerprints = fingerprints.map(fp => (fp.id === id ? { ...fp, ...changes } : fp));
+    }),
+    deleteFingerprint: vi.fn(async (id: number) => {
+      fingerprints = fingerprints.filter(fp => fp.id !== id);
+    }),
+    getTotpFactor: vi.fn(async () => undefined),
+    countUnusedRecoveryCodes: vi.fn(async () => unusedRecoveryCodes),
+    createAuditLog: vi.fn(async (data: Record<string, unknown>) => {
+      auditLogs.push(data);
+    }),
+    createNotification: vi.fn(async (data: Record<string, unknown>) => {
+      notifications.push(data);
+    }),
+  };
+});
+
+vi.mock("./stepUp", async () => {
+  const actual = await vi.importActual<typeof import("./stepUp")>("./stepUp");
+  return { ...actual, verifyStepUpProof: vi.fn(async () => stepUpApproved) };
+});
+
+const { appRouter } = await import("./routers");
+const { verifyStepUpProof } = await import("./stepUp");
+import { STEP_UP_FAILED_ERR_MSG, STEP_UP_REQUIRED_ERR_MSG } from "../shared/const";
+import type { TrpcContext } from "./_core/context";
+
+function createAuthContext(): TrpcContext {
+  return {
+    user: {
+      id: 1,
+      openId: "sample-user",
+      email: "sample@example.com",
+      handle: null,
+      name: "Sample User",
+      loginMethod: "manus",
+      role: "user",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+const stepUp = { recoveryCode: "ABCDE-FGHIJ" };
+
+function fingerprint(id: number, changes: Partial<Fingerprint> = {}): Fingerprint {
+  return { id, userId: 1, credentialId: `credential-${id}`, nickname: null, aaguid: null, isActive: true, ...changes };
+}
+
+describe("fingerprint management", () => {
+  beforeEach(() => {
+    fingerprints = [fingerprint(1, { nickname: "Laptop" })];
+    unusedRecoveryCodes = 0;
+    stepUpApproved = true;
+    auditLogs.length = 0;
+    notifications.length = 0;
+  });
+
+  it("will not deactivate or remove the last usable factor", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+
+    expect(await caller.auth.deactivateFingerprint({ fingerprintId: 1, stepUp })).toEqual({
+      success: false,
+      error: "Add another fingerprint or verification method before deactivating your last one",
+    });
+    expect(await caller.auth.removeFingerprint({ fingerprintId: 1, stepUp })).toEqual({
+      success: false,
+      error: "Add another fingerprint or verification method before removing your last one",
+    });
+    expect(fingerprints).toEqual([fingerprint(1, { nickname: "Laptop" })]);
+    expect(auditLogs).toHaveLength(0);
+    expect(notifications).toHaveLength(0);
+  });
+
+  it("deactivates the last fingerprint once recovery codes back it up, and records it", async () => {
+    unusedRecoveryCodes = 10;
+    const caller = appRouter.createCaller(createAuthContext());
+
+    expect(await caller.auth.deactivateFingerprint({ fingerprintId: 1, stepUp })).toMatchObject({ success: true });
+    expect(fingerprints[0]?.isActive).toBe(false);
+    expect(auditLogs).toEqual([
+      { adminId: 1, action: "fingerprint_deactivated", targetUserId: 1, details: { fingerprintId: 1 } },
+    ]);
+    expect(notifications).toEqual([
+      expect.objectContaining({ userId: 1, type: "security", subject: "Fingerprint deactivated" }),
+    ]);
+  });
+
+  it("removes a fingerprint while another is active, and records it", async () => {
+    fingerprints.push(fingerprint(2, { aaguid: "00000000-0000-0000-0000-000000000000" }));
+    const caller = appRouter.createCaller(createAuthContext());
+
+    expect(await caller.auth.removeFingerprint({ fingerprintId: 2, stepUp })).toMatchObject({ success: true });
+    expect(fingerprints.map(fp => fp.id)).toEqual([1]);
+    expect(auditLogs).toEqual([
+      {
+        adminId: 1,
+        action: "fingerprint_removed",
+        targetUserId: 1,
+        details: { fingerprintId: 2, credentialId: "credential-2", aaguid: "00000000-0000-0000-0000-000000000000" },
+      },
+    ]);
+    expect(notifications).toEqual([
+      expect.objectContaining({ type: "security", content: "fingerprint #2 was removed from your account." }),
+    ]);
+  });
+
+  it("records renames, and ignores fingerprints of other users", async () => {
+    fingerprints.push(fingerprint(3, { userId: 2 }));
+    const caller = appRouter.createCaller(createAuthContext());
+
+    expect(await caller.auth.renameFingerprint({ fingerprintId: 1, nickname: "Phone" })).toMatchObject({ success: true });
+    expect(auditLogs).toEqual([
+      {
+        adminId: 1,
+        action: "fingerprint_renamed",
+        targetUserId: 1,
+        details: { fingerprintId: 1, from: "Laptop", to: "Phone" },
+      },
+    ]);
+    expect(notifications).toEqual([
+      expect.objectContaining({ subject: "Fingerprint renamed", content: '"Laptop" was renamed to "Phone".' }),
+    ]);
+
+    expect(await caller.auth.removeFingerprint({ fingerprintId: 3, stepUp })).toEqual({
+      success: false,
+      error: "Fingerprint not found",
+    });
+    expect(fingerprints).toHaveLength(2);
+    expect(auditLogs).toHaveLength(1);
+  });
+
+  it("asks for a fresh step-up for the fingerprint being retired", async () => {
+    fingerprints.push(fingerprint(2));
+    const caller = appRouter.createCaller(createAuthContext());
+
+    await expect(caller.auth.removeFingerprint({ fingerprintId: 2 })).rejects.toThrow(STEP_UP_REQUIRED_ERR_MSG);
+    stepUpApproved = false;
+    await expect(caller.auth.deactivateFingerprint({ fingerprintId: 2, stepUp })).rejects.toThrow(STEP_UP_FAILED_ERR_MSG);
+    expect(verifyStepUpProof).toHaveBeenLastCalledWith(
+      1,
+      { action: "deactivate_fingerprint", wallet: "account", amount: "0", destination: "fingerprint:2" },
+      stepUp,
+      1
+    );
+    expect(fingerprints.map(fp => fp.isActive)).toEqual([true, true]);
+    expect(auditLogs).toHaveLength(0);
+  });
+});
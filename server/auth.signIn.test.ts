@@ -0,0 +1,293 @@
+import { createHash, generateKeyPairSync, sign, type KeyObject } from "crypto";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+type Fingerprint = {
+  id: number;
+  userId: number;
+  credentialId: string;
+  publicKey: string;
+  counter: number;
+  isActive: boolean;
+  transports: null;
+};
+
+const user = {
+  id: 1,
+  openId: "sample-user",
+  email: "sample@example.com",
+  handle: null,
+  name: "Sample User",
+  loginMethod: "manus",
+  role: "user",
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lastSignedIn: new Date(),
+};
+
+let fingerprint: Fingerprint;
+const sessions: Array<Record<string, unknown>> = [];
+const auditLogs: Array<Record<string, unknown>> = [];
+
+vi.mock("./db", async () => {
+  const actual = await vi.importActual<typeof import("./db")>("./db");
+  return {
+    ...actual,
+    getFingerprintByCredentialId: vi.fn(async (credentialId: string) =>
+      credentialId === fingerprint.credentialId ? { ...fingerprint } : undefined
+    ),
+    updateFingerprintUsage: vi.fn(async (_id: number, counter: number) => {
+      if (fingerprint.counter >= counter) return false;
+      fingerprint.counter = counter;
+      return true;
+    }),
+    getUserById: vi.fn(async (id: number) => (id === user.id ? user : undefined)),
+    upsertUser: vi.fn(async () => undefined),
+    createSession: vi.fn(async (data: Record<string, unknown>) => {
+      sessions.push(data);
+    }),
+    createAuditLog: vi.fn(async (data: Record<string, unknown>) => {
+      auditLogs.push(data);
+    }),
+    createNotification: vi.fn(async () => undefined),
+  };
+});
+
+const { appRouter } = await import("./routers");
+const { base64UrlEncode } = await import("./webauthn");
+const { MemoryChallengeStore, setChallengeStore } = await import("./challengeStore");
+const { ENV } = await import("./_core/env");
+import { COOKIE_NAME, WEBAUTHN_CEREMONY_COOKIE } from "../shared/const";
+import type { TrpcContext } from "./_core/context";
+
+const RP_ID = "localhost";
+const ORIGIN = "http://localhost:3000";
+const CEREMONY_ID = "ceremony-session-0123456789";
+
+// Just enough of a CBOR encoder to build a COSE public key
+function cborHead(major: number, length: number): Buffer {
+  if (length < 24) return Buffer.from([(major << 5) | length]);
+  return Buffer.from([(major << 5) | 24, length]);
+}
+
+function cbor(value: unknown): Buffer {
+  if (typeof value === "number") {
+    return value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value);
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.concat([cborHead(2, value.length), value]);
+  }
+  if (value instanceof Map) {
+    const parts = [cborHead(5, value.size)];
+    value.forEach((v, k) => parts.push(cbor(k), cbor(v)));
+    return Buffer.concat(parts);
+  }
+  throw new Error(`Cannot encode ${String(value)}`);
+}
+
+function createKey() {
+  const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+  const jwk = publicKey.export({ format: "jwk" });
+  const coseKey = cbor(
+    new Map<number, unknown>([
+      [1, 2],
+      [3, -7],
+      [-1, 1],
+      [-2, Buffer.from(jwk.x!, "base64url")],
+      [-3, Buffer.from(jwk.y!, "base64url")],
+    ])
+  );
+  return { privateKey, coseKey };
+}
+
+function buildAssertion(options: { challenge: string; privateKey: KeyObject; counter: number; credentialId?: string }) {
+  const clientDataJSON = Buffer.from(
+    JSON.stringify({ type: "webauthn.get", challenge: options.challenge, origin: ORIGIN })
+  );
+  const authData = Buffer.alloc(37);
+  createHash("sha256").update(RP_ID).digest().copy(authData, 0);
+  authData[32] = 0x05; // UP | UV
+  authData.writeUInt32BE(options.counter, 33);
+
+  const clientDataHash = createHash("sha256").update(clientDataJSON).digest();
+  const signature = sign("sha256", Buffer.concat([authData, clientDataHash]), {
+    key: options.privateKey,
+    dsaEncoding: "der",
+  });
+
+  return {
+    credentialId: options.credentialId ?? fingerprint.credentialId,
+    clientDataJSON: base64UrlEncode(clientDataJSON),
+    authenticatorData: base64UrlEncode(authData),
+    signature: base64UrlEncode(signature),
+  };
+}
+
+type CookieCall = { name: string; value?: string };
+
+function createPublicContext(cookie = `${WEBAUTHN_CEREMONY_COOKIE}=${CEREMONY_ID}`) {
+  const cookies: CookieCall[] = [];
+  const clearedCookies: CookieCall[] = [];
+
+  const ctx: TrpcContext = {
+    user: null,
+    req: {
+      protocol: "https",
+      headers: { cookie },
+    } as TrpcContext["req"],
+    res: {
+      cookie: (name: string, value: string) => {
+        cookies.push({ name, value });
+      },
+      clearCookie: (name: string) => {
+        clearedCookies.push({ name });
+      },
+    } as unknown as TrpcContext["res"],
+  };
+
+  return { ctx, cookies, clearedCookies };
+}
+
+async function issueChallenge(ctx: TrpcContext) {
+  const result = await appRouter.createCaller(ctx).auth.getAuthenticationOptions();
+  if (!result.success || !result.options) throw new Error("No authentication options");
+  return result.options.challenge;
+}
+
+const key = createKey();
+
+describe("auth.signInWithFingerprint", () => {
+  beforeAll(() => {
+    ENV.cookieSecret ||= "test-session-secret";
+    ENV.appId ||= "test-app";
+  });
+
+  beforeEach(() => {
+    setChallengeStore(new MemoryChallengeStore());
+    fingerprint = {
+      id: 5,
+      userId: user.id,
+      credentialId: base64UrlEncode(Buffer.from("test-credential-id")),
+      publicKey: base64UrlEncode(key.coseKey),
+      counter: 10,
+      isActive: true,
+      transports: null,
+    };
+    sessions.length = 0;
+    auditLogs.length = 0;
+  });
+
+  it("starts a session and sets the session cookie", async () => {
+    const { ctx, cookies, clearedCookies } = createPublicContext();
+    const challenge = await issueChallenge(ctx);
+
+    const result = await appRouter
+      .createCaller(ctx)
+      .auth.signInWithFingerprint(buildAssertion({ challenge, privateKey: key.privateKey, counter: 11 }));
+
+    expect(result).toMatchObject({ success: true, user: { id: user.id } });
+    expect(sessions).toEqual([expect.objectContaining({ userId: user.id })]);
+    expect(cookies).toEqual([{ name: COOKIE_NAME, value: expect.any(String) }]);
+    expect(clearedCookies).toEqual([{ name: WEBAUTHN_CEREMONY_COOKIE }]);
+    expect(fingerprint.counter).toBe(11);
+  });
+
+  it("rejects a sign-in without the ceremony cookie", async () => {
+    const { ctx } = createPublicContext();
+    const challenge = await issueChallenge(ctx);
+    const { ctx: other, cookies } = createPublicContext("");
+
+    const result = await appRouter
+      .createCaller(other)
+      .auth.signInWithFingerprint(buildAssertion({ challenge, privateKey: key.privateKey, counter: 11 }));
+
+    expect(result).toEqual({ success: false, error: "Sign-in session expired, please try again" });
+    expect(sessions).toHaveLength(0);
+    expect(cookies).toHaveLength(0);
+  });
+
+  it("rejects an unknown credential", async () => {
+    const { ctx, cookies } = createPublicContext();
+    const challenge = await issueChallenge(ctx);
+
+    const result = await appRouter.createCaller(ctx).auth.signInWithFingerprint(
+      buildAssertion({
+        challenge,
+        privateKey: key.privateKey,
+        counter: 11,
+        credentialId: base64UrlEncode(Buffer.from("unknown-credential")),
+      })
+    );
+
+    expect(result).toEqual({ success: false, error: "Fingerprint verification failed" });
+    expect(sessions).toHaveLength(0);
+    expect(cookies).toHaveLength(0);
+  });
+
+  it("rejects an assertion signed by another key", async () => {
+    const { ctx } = createPublicContext();
+    const challenge = await issueChallenge(ctx);
+
+    const result = await appRouter
+      .createCaller(ctx)
+      .auth.signInWithFingerprint(buildAssertion({ challenge, privateKey: createKey().privateKey, counter: 11 }));
+
+    expect(result).toEqual({ success: false, error: "Fingerprint verification failed" });
+    expect(sessions).toHaveLength(0);
+    expect(fingerprint.counter).toBe(10);
+  });
+
+  it("blocks a regressed signature counter and records a security event", async () => {
+    const { ctx } = createPublicContext();
+    const challenge = await issueChallenge(ctx);
+
+    const result = await appRouter
+      .createCaller(ctx)
+      .auth.signInWithFingerprint(buildAssertion({ challenge, privateKey: key.privateKey, counter: 10 }));
+
+    expect(result).toEqual({ success: false, error: "Fingerprint verification failed" });
+    expect(sessions).toHaveLength(0);
+    expect(auditLogs).toEqual([
+      expect.objectContaining({
+        action: "fingerprint_clone_suspected",
+        targetUserId: user.id,
+        details: expect.objectContaining({ storedCounter: 10, reportedCounter: 10 }),
+      }),
+    ]);
+  });
+
+  it("accepts each challenge only once", async () => {
+    const { ctx } = createPublicContext();
+    const challenge = await issueChallenge(ctx);
+    const caller = appRouter.createCaller(ctx);
+
+    const first = await caller.auth.signInWithFingerprint(
+      buildAssertion({ challenge, privateKey: key.privateKey, counter: 11 })
+    );
+    const replayed = await caller.auth.signInWithFingerprint(
+      buildAssertion({ challenge, privateKey: key.privateKey, counter: 12 })
+    );
+
+    expect(first.success).toBe(true);
+    expect(replayed).toEqual({ success: false, error: "Fingerprint verification failed" });
+    expect(sessions).toHaveLength(1);
+    expect(fingerprint.counter).toBe(11);
+  });
+
+  it("lets only one of two parallel assertions with the same counter through", async () => {
+    const first = createPublicContext();
+    const second = createPublicContext(`${WEBAUTHN_CEREMONY_COOKIE}=other-ceremony-session-0123`);
+    const assertions = [
+      buildAssertion({ challenge: await issueChallenge(first.ctx), privateKey: key.privateKey, counter: 11 }),
+      buildAssertion({ challenge: await issueChallenge(second.ctx), privateKey: key.privateKey, counter: 11 }),
+    ];
+
+    const results = await Promise.all([
+      appRouter.createCaller(first.ctx).auth.signInWithFingerprint(assertions[0]),
+      appRouter.createCaller(second.ctx).auth.signInWithFingerprint(assertions[1]),
+    ]);
+
+    expect(results.filter(result => result.success)).toHaveLength(1);
+    expect(sessions).toHaveLength(1);
+    expect(auditLogs).toEqual([expect.objectContaining({ action: "fingerprint_clone_suspected" })]);
+  });
+});
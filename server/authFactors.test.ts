@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+let fingerprints: Array<{ id: number; isActive: boolean }> = [];
+let totp: { confirmedAt: Date | null } | undefined;
+let unusedRecoveryCodes = 0;
+
+vi.mock("./db", () => ({
+  getUserFingerprints: vi.fn(async () => fingerprints),
+  getTotpFactor: vi.fn(async () => totp),
+  countUnusedRecoveryCodes: vi.fn(async () => unusedRecoveryCodes),
+}));
+
+const { canRetireFingerprint, hasFallbackFactor } = await import("./authFactors");
+
+describe("authentication factor inventory", () => {
+  beforeEach(() => {
+    fingerprints = [{ id: 1, isActive: true }];
+    totp = undefined;
+    unusedRecoveryCodes = 0;
+  });
+
+  it("keeps the last active fingerprint when there is no other factor", async () => {
+    fingerprints.push({ id: 2, isActive: false });
+    expect(await hasFallbackFactor(7)).toBe(false);
+    expect(await canRetireFingerprint(7, 1)).toBe(false);
+  });
+
+  it("lets a fingerprint go while another one is active", async () => {
+    fingerprints.push({ id: 2, isActive: true });
+    expect(await canRetireFingerprint(7, 1)).toBe(true);
+  });
+
+  it("counts a confirmed authenticator app or unused recovery codes as a fallback", async () => {
+    totp = { confirmedAt: null };
+    expect(await canRetireFingerprint(7, 1)).toBe(false);
+
+    totp = { confirmedAt: new Date() };
+    expect(await canRetireFingerprint(7, 1)).toBe(true);
+
+    totp = undefined;
+    unusedRecoveryCodes = 1;
+    expect(await canRetireFingerprint(7, 1)).toBe(true);
+  });
+
+  it("always lets inactive or unknown fingerprints go", async () => {
+    fingerprints.push({ id: 2, isActive: false });
+    expect(await canRetireFingerprint(7, 2)).toBe(true);
+    expect(await canRetireFingerprint(7, 99)).toBe(true);
+  });
+});
@@ -0,0 +1,41 @@
+import { countUnusedRecoveryCodes, getTotpFactor, getUserFingerprints } from "./db";
+
+/**
+ * Authentication factor inventory
+ * Used to stop users from locking themselves out of step-up flows by
+ * retiring the credential they would need to approve the next operation.
+ */
+
+/**
+ * Whether the user has a step-up factor other than fingerprint credentials
+ */
+export async function hasFallbackFactor(userId: number): Promise<boolean> {
+  const totp = await getTotpFactor(userId);
+  if (totp?.confirmedAt) {
+    return true;
+  }
+  return (await countUnusedRecoveryCodes(userId)) > 0;
+}
+
+/**
+ * Whether the user has any factor that can approve a step-up
+ */
+export async function hasStepUpFactor(userId: number): Promise<boolean> {
+  const fingerprints = await getUserFingerprints(userId);
+  return fingerprints.some(fp => fp.isActive) || (await hasFallbackFactor(userId));
+}
+
+/**
+ * Whether a fingerprint can be deactivated or deleted without leaving the
+ * user with no way to approve money-moving operations
+ */
+export async function canRetireFingerprint(userId: number, fingerprintId: number): Promise<boolean> {
+  const fingerprints = await getUserFingerprints(userId);
+  const target = fingerprints.find(fp => fp.id === fingerprintId);
+  if (!target?.isActive) {
+    return true;
+  }
+
+  const otherActive = fingerprints.some(fp => fp.isActive && fp.id !== fingerprintId);
+  return otherActive || (await hasFallbackFactor(userId));
+}
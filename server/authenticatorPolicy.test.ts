@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { checkCredentialPolicy, DEFAULT_AUTHENTICATOR_POLICY, type AuthenticatorPolicy } from "./authenticatorPolicy";
+
+const YUBIKEY = "cb69481e-8ff7-4039-93ec-0a2729a154a8";
+const WINDOWS_HELLO = "08987058-cadc-4b81-b6e1-30de50dcbe96";
+
+const platformCredential = {
+  aaguid: WINDOWS_HELLO,
+  attestationType: "basic" as const,
+  userVerified: true,
+};
+
+const strictPolicy: AuthenticatorPolicy = {
+  userVerification: "required",
+  authenticatorAttachment: "platform",
+  requireAttestation: true,
+  allowedAaguids: [WINDOWS_HELLO],
+  blockedAaguids: [],
+};
+
+describe("authenticator policy", () => {
+  it("accepts a compliant platform credential", () => {
+    expect(checkCredentialPolicy(strictPolicy, platformCredential)).toEqual([]);
+    expect(checkCredentialPolicy(DEFAULT_AUTHENTICATOR_POLICY, platformCredential)).toEqual([]);
+  });
+
+  it("accepts a credential registered without attestation under the default policy", () => {
+    expect(
+      checkCredentialPolicy(DEFAULT_AUTHENTICATOR_POLICY, { aaguid: null, attestationType: "none", userVerified: true })
+    ).toEqual([]);
+  });
+
+  it("reports each rule a credential breaks", () => {
+    const violations = checkCredentialPolicy(strictPolicy, {
+      aaguid: YUBIKEY,
+      attestationType: "none",
+      userVerified: false,
+    });
+
+    expect(violations).toHaveLength(3);
+  });
+
+  it("rejects blocked models and unattested credentials", () => {
+    const policy = { ...DEFAULT_AUTHENTICATOR_POLICY, blockedAaguids: [WINDOWS_HELLO] };
+
+    expect(checkCredentialPolicy(policy, platformCredential)).toEqual(["Authenticator model is blocked"]);
+    expect(
+      checkCredentialPolicy({ ...strictPolicy, allowedAaguids: [] }, { ...platformCredential, attestationType: "self" })
+    ).toEqual(["Authenticator did not provide certificate attestation"]);
+  });
+});
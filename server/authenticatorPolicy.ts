@@ -0,0 +1,142 @@
+import { z } from "zod";
+import { createAuditLog, createAuthenticatorPolicy, getActiveFingerprints, getLatestAuthenticatorPolicy } from "./db";
+import type { Fingerprint } from "../drizzle/schema";
+
+/**
+ * Authenticator policy
+ * Admin-managed rules for which authenticators may hold wallet credentials.
+ * Applied when building registration options and when verifying a new
+ * credential; existing credentials are checked against it for reporting.
+ *
+ * AAGUIDs are reported by the authenticator itself, so allow/deny lists are
+ * only meaningful together with `requireAttestation`. The attachment is only
+ * asked of the browser in the registration options: the sole evidence of it
+ * is the transports the client reports, so it is not checked.
+ */
+
+const aaguidSchema = z
+  .string()
+  .regex(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)
+  .transform(value => value.toLowerCase());
+
+export const authenticatorPolicySchema = z.object({
+  userVerification: z.enum(["required", "preferred", "discouraged"]),
+  authenticatorAttachment: z.enum(["platform", "cross-platform", "any"]),
+  requireAttestation: z.boolean(),
+  allowedAaguids: z.array(aaguidSchema),
+  blockedAaguids: z.array(aaguidSchema),
+});
+
+export type AuthenticatorPolicy = z.infer<typeof authenticatorPolicySchema>;
+
+export const DEFAULT_AUTHENTICATOR_POLICY: AuthenticatorPolicy = {
+  userVerification: "preferred",
+  authenticatorAttachment: "platform",
+  requireAttestation: false,
+  allowedAaguids: [],
+  blockedAaguids: [],
+};
+
+/**
+ * The policy currently in force, or the default when none was saved
+ */
+export async function getAuthenticatorPolicy(): Promise<AuthenticatorPolicy> {
+  const record = await getLatestAuthenticatorPolicy();
+  if (!record) {
+    return DEFAULT_AUTHENTICATOR_POLICY;
+  }
+
+  return {
+    userVerification: record.userVerification,
+    authenticatorAttachment: record.authenticatorAttachment,
+    requireAttestation: record.requireAttestation,
+    allowedAaguids: (record.allowedAaguids as string[] | null) ?? [],
+    blockedAaguids: (record.blockedAaguids as string[] | null) ?? [],
+  };
+}
+
+export type PolicyCredential = {
+  aaguid: string | null;
+  attestationType: "none" | "self" | "basic" | null;
+  userVerified: boolean;
+};
+
+/**
+ * List the ways a credential breaks the policy (empty when it complies)
+ */
+export function checkCredentialPolicy(policy: AuthenticatorPolicy, credential: PolicyCredential): string[] {
+  const violations: string[] = [];
+  const aaguid = credential.aaguid?.toLowerCase() ?? null;
+
+  if (policy.userVerification === "required" && !credential.userVerified) {
+    violations.push("User verification was not performed");
+  }
+
+  if (policy.requireAttestation && credential.attestationType !== "basic") {
+    violations.push("Authenticator did not provide certificate attestation");
+  }
+
+  if (policy.allowedAaguids.length > 0 && (!aaguid || !policy.allowedAaguids.includes(aaguid))) {
+    violations.push("Authenticator model is not on the allowed list");
+  }
+
+  if (aaguid && policy.blockedAaguids.includes(aaguid)) {
+    violations.push("Authenticator model is blocked");
+  }
+
+  return violations;
+}
+
+export type PolicyViolation = {
+  userId: number;
+  fingerprintId: number;
+  nickname: string | null;
+  aaguid: string | null;
+  violations: string[];
+};
+
+function toPolicyCredential(fingerprint: Fingerprint): PolicyCredential {
+  return {
+    aaguid: fingerprint.aaguid,
+    attestationType: fingerprint.attestationType,
+    userVerified: fingerprint.userVerified,
+  };
+}
+
+/**
+ * Check every active credential against a policy
+ */
+export async function findPolicyViolations(policy: AuthenticatorPolicy): Promise<PolicyViolation[]> {
+  const fingerprints = await getActiveFingerprints();
+
+  return fingerprints.flatMap(fingerprint => {
+    const violations = checkCredentialPolicy(policy, toPolicyCredential(fingerprint));
+    return violations.length === 0
+      ? []
+      : [{
+          userId: fingerprint.userId,
+          fingerprintId: fingerprint.id,
+          nickname: fingerprint.nickname,
+          aaguid: fingerprint.aaguid,
+          violations,
+        }];
+  });
+}
+
+/**
+ * Save a new policy and report the existing credentials it rules out
+ */
+export async function saveAuthenticatorPolicy(policy: AuthenticatorPolicy, adminId: number) {
+  await createAuthenticatorPolicy({ ...policy, updatedBy: adminId });
+
+  const violations = await findPolicyViolations(policy);
+  const affectedUsers = new Set(violations.map(violation => violation.userId)).size;
+
+  await createAuditLog({
+    adminId,
+    action: "authenticator_policy_updated",
+    details: { policy, nonCompliantCredentials: violations.length, affectedUsers },
+  });
+
+  return { violations, affectedUsers };
+}
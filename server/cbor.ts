@@ -0,0 +1,198 @@
+/**
+ * Minimal CBOR (RFC 8949) decoder
+ * Covers the subset used by WebAuthn attestation objects and COSE keys:
+ * integers, byte/text strings, arrays, maps, tags and simple values.
+ * Indefinite-length items are not used by authenticators and are rejected.
+ */
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+export class CborDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CborDecodeError";
+  }
+}
+
+class CborReader {
+  private offset = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get position() {
+    return this.offset;
+  }
+
+  private ensure(length: number) {
+    if (this.offset + length > this.bytes.byteLength) {
+      throw new CborDecodeError("Unexpected end of CBOR input");
+    }
+  }
+
+  private readUint8() {
+    this.ensure(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  private readLength(additional: number): number | bigint {
+    if (additional < 24) return additional;
+    switch (additional) {
+      case 24:
+        return this.readUint8();
+      case 25: {
+        this.ensure(2);
+        const value = this.view.getUint16(this.offset);
+        this.offset += 2;
+        return value;
+      }
+      case 26: {
+        this.ensure(4);
+        const value = this.view.getUint32(this.offset);
+        this.offset += 4;
+        return value;
+      }
+      case 27: {
+        this.ensure(8);
+        const value = this.view.getBigUint64(this.offset);
+        this.offset += 8;
+        return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+      }
+      default:
+        throw new CborDecodeError(`Unsupported CBOR additional info: ${additional}`);
+    }
+  }
+
+  private readSize(additional: number): number {
+    const length = this.readLength(additional);
+    if (typeof length !== "number") {
+      throw new CborDecodeError("CBOR item length too large");
+    }
+    return length;
+  }
+
+  private readBytes(length: number): Uint8Array {
+    this.ensure(length);
+    const slice = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  readItem(): CborValue {
+    const initial = this.readUint8();
+    const major = initial >> 5;
+    const additional = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return this.readLength(additional);
+      case 1: {
+        const value = this.readLength(additional);
+        return typeof value === "number" ? -1 - value : BigInt(-1) - value;
+      }
+      case 2:
+        return this.readBytes(this.readSize(additional));
+      case 3:
+        return new TextDecoder().decode(this.readBytes(this.readSize(additional)));
+      case 4: {
+        const length = this.readSize(additional);
+        const items: CborValue[] = [];
+        for (let i = 0; i < length; i++) {
+          items.push(this.readItem());
+        }
+        return items;
+      }
+      case 5: {
+        const length = this.readSize(additional);
+        const map = new Map<CborValue, CborValue>();
+        for (let i = 0; i < length; i++) {
+          const key = this.readItem();
+          map.set(key, this.readItem());
+        }
+        return map;
+      }
+      case 6:
+        // Tags carry no meaning for WebAuthn structures; return the tagged item
+        this.readLength(additional);
+        return this.readItem();
+      case 7:
+        return this.readSimple(additional);
+      default:
+        throw new CborDecodeError(`Unsupported CBOR major type: ${major}`);
+    }
+  }
+
+  private readSimple(additional: number): CborValue {
+    switch (additional) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 23:
+        return undefined;
+      case 25: {
+        this.ensure(2);
+        const value = this.decodeHalf(this.view.getUint16(this.offset));
+        this.offset += 2;
+        return value;
+      }
+      case 26: {
+        this.ensure(4);
+        const value = this.view.getFloat32(this.offset);
+        this.offset += 4;
+        return value;
+      }
+      case 27: {
+        this.ensure(8);
+        const value = this.view.getFloat64(this.offset);
+        this.offset += 8;
+        return value;
+      }
+      default:
+        throw new CborDecodeError(`Unsupported CBOR simple value: ${additional}`);
+    }
+  }
+
+  private decodeHalf(half: number): number {
+    const exponent = (half >> 10) & 0x1f;
+    const mantissa = half & 0x3ff;
+    const sign = half & 0x8000 ? -1 : 1;
+    if (exponent === 0) return sign * 2 ** -14 * (mantissa / 1024);
+    if (exponent === 0x1f) return mantissa ? NaN : sign * Infinity;
+    return sign * 2 ** (exponent - 15) * (1 + mantissa / 1024);
+  }
+}
+
+/**
+ * Decode the first CBOR item in the buffer and report how many bytes it used.
+ * Needed for authenticator data, where the COSE key is followed by extensions.
+ */
+export function decodeCborFirst(bytes: Uint8Array): { value: CborValue; length: number } {
+  const reader = new CborReader(bytes);
+  const value = reader.readItem();
+  return { value, length: reader.position };
+}
+
+/**
+ * Decode a buffer that must contain exactly one CBOR item
+ */
+export function decodeCbor(bytes: Uint8Array): CborValue {
+  const { value, length } = decodeCborFirst(bytes);
+  if (length !== bytes.byteLength) {
+    throw new CborDecodeError("Trailing bytes after CBOR item");
+  }
+  return value;
+}
@@ -0,0 +1,39 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { consumeChallenge, issueChallenge, MemoryChallengeStore, setChallengeStore } from "./challengeStore";
+
+describe("challenge store", () => {
+  beforeEach(() => {
+    setChallengeStore(new MemoryChallengeStore());
+  });
+
+  it("accepts a challenge exactly once", async () => {
+    const challenge = await issueChallenge("register", { userId: 1 });
+
+    expect(await consumeChallenge(challenge, "register", { userId: 1 })).toBe(true);
+    expect(await consumeChallenge(challenge, "register", { userId: 1 })).toBe(false);
+  });
+
+  it("rejects a challenge issued for another purpose", async () => {
+    const challenge = await issueChallenge("login", { userId: 1 });
+
+    expect(await consumeChallenge(challenge, "transaction", { userId: 1 })).toBe(false);
+  });
+
+  it("rejects a challenge bound to another user or session", async () => {
+    const userChallenge = await issueChallenge("login", { userId: 1 });
+    const sessionChallenge = await issueChallenge("login", { sessionId: "ceremony-a" });
+
+    expect(await consumeChallenge(userChallenge, "login", { userId: 2 })).toBe(false);
+    expect(await consumeChallenge(sessionChallenge, "login", { sessionId: "ceremony-b" })).toBe(false);
+  });
+
+  it("rejects an expired challenge", async () => {
+    const challenge = await issueChallenge("login", { userId: 1 }, { ttlMs: -1 });
+
+    expect(await consumeChallenge(challenge, "login", { userId: 1 })).toBe(false);
+  });
+
+  it("refuses to issue an unbound challenge", async () => {
+    await expect(issueChallenge("login", {})).rejects.toThrow();
+  });
+});
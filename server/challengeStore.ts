@@ -0,0 +1,132 @@
+import { randomBytes } from "crypto";
+import type { WebauthnChallenge } from "../drizzle/schema";
+import { ENV } from "./_core/env";
+import { consumeWebauthnChallenge, createWebauthnChallenge, deleteExpiredWebauthnChallenges } from "./db";
+
+/**
+ * Server-side store for WebAuthn ceremony challenges
+ * Every challenge is single-use, expires, and is bound to a purpose and to
+ * either a signed-in user or a pre-authentication session. Verifiers consume
+ * the challenge echoed in clientDataJSON before checking any signature, so
+ * replayed or stale ceremonies are rejected.
+ */
+
+export type ChallengePurpose = WebauthnChallenge["purpose"];
+
+export type ChallengeBinding = {
+  userId?: number | null;
+  sessionId?: string | null;
+};
+
+type ChallengeRecord = Pick<WebauthnChallenge, "challenge" | "purpose" | "userId" | "sessionId" | "expiresAt">;
+
+export interface ChallengeStore {
+  save(record: ChallengeRecord): Promise<void>;
+  /** Mark the challenge as used and return it, or undefined if unknown, used or expired */
+  take(challenge: string, purpose: ChallengePurpose): Promise<ChallengeRecord | undefined>;
+}
+
+// Challenges live as long as the ceremony timeout plus some clock slack
+export const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Process-local store for development and single-instance deployments
+ */
+export class MemoryChallengeStore implements ChallengeStore {
+  private readonly records = new Map<string, ChallengeRecord>();
+
+  async save(record: ChallengeRecord) {
+    const now = Date.now();
+    this.records.forEach((existing, key) => {
+      if (existing.expiresAt.getTime() <= now) this.records.delete(key);
+    });
+    this.records.set(record.challenge, record);
+  }
+
+  async take(challenge: string, purpose: ChallengePurpose) {
+    const record = this.records.get(challenge);
+    if (!record || record.purpose !== purpose) {
+      return undefined;
+    }
+    this.records.delete(challenge);
+    return record.expiresAt.getTime() > Date.now() ? record : undefined;
+  }
+}
+
+/**
+ * Database-backed store, shared by every server instance
+ */
+export class DatabaseChallengeStore implements ChallengeStore {
+  async save(record: ChallengeRecord) {
+    await deleteExpiredWebauthnChallenges();
+    await createWebauthnChallenge(record);
+  }
+
+  async take(challenge: string, purpose: ChallengePurpose) {
+    return consumeWebauthnChallenge(challenge, purpose);
+  }
+}
+
+let _store: ChallengeStore | null = null;
+
+// Use the database unless explicitly configured otherwise or no database is set up.
+export function getChallengeStore(): ChallengeStore {
+  if (!_store) {
+    const useMemory = ENV.webAuthnChallengeStore === "memory" || !ENV.databaseUrl;
+    _store = useMemory ? new MemoryChallengeStore() : new DatabaseChallengeStore();
+  }
+  return _store;
+}
+
+export function setChallengeStore(store: ChallengeStore) {
+  _store = store;
+}
+
+/**
+ * Issue a new challenge for a ceremony
+ * `context` bytes (e.g. an operation digest) are appended to the random
+ * value so the authenticator's signature also covers them.
+ */
+export async function issueChallenge(
+  purpose: ChallengePurpose,
+  binding: ChallengeBinding,
+  options: { ttlMs?: number; context?: Uint8Array } = {}
+): Promise<string> {
+  if (binding.userId == null && !binding.sessionId) {
+    throw new Error("A challenge must be bound to a user or a session");
+  }
+
+  const ttlMs = options.ttlMs ?? CHALLENGE_TTL_MS;
+  // Challenge should be a random 32-byte value, plus any context
+  const challenge = Buffer.concat([randomBytes(32), options.context ?? new Uint8Array()]).toString("base64url");
+  await getChallengeStore().save({
+    challenge,
+    purpose,
+    userId: binding.userId ?? null,
+    sessionId: binding.sessionId ?? null,
+    expiresAt: new Date(Date.now() + ttlMs),
+  });
+  return challenge;
+}
+
+/**
+ * Consume a challenge. Succeeds at most once, and only for the purpose and
+ * binding it was issued with; a mismatched attempt still burns the challenge.
+ */
+export async function consumeChallenge(
+  challenge: string,
+  purpose: ChallengePurpose,
+  binding: ChallengeBinding
+): Promise<boolean> {
+  const record = await getChallengeStore().take(challenge, purpose);
+  if (!record) {
+    return false;
+  }
+  if (record.userId != null && record.userId !== binding.userId) {
+    return false;
+  }
+  if (record.sessionId && record.sessionId !== binding.sessionId) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { CronError, nextCronRun, parseCron } from "./cron";
+
+const at = (iso: string) => new Date(iso);
+
+describe("cron expressions", () => {
+  it("parses ranges, lists and steps, with 7 as Sunday", () => {
+    const schedule = parseCron("*/15 9-17 1,15 * 7");
+    expect(Array.from(schedule.minutes.values)).toEqual([0, 15, 30, 45]);
+    expect(schedule.hours.values.size).toBe(9);
+    expect(Array.from(schedule.daysOfWeek.values)).toEqual([0]);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCron("* * * *")).toThrow(CronError);
+    expect(() => parseCron("60 * * * *")).toThrow(CronError);
+    expect(() => parseCron("* 5-2 * * *")).toThrow(CronError);
+  });
+
+  it("finds the next matching minute strictly after the given time", () => {
+    expect(nextCronRun("30 9 * * *", at("2025-01-01T09:30:00Z"))).toEqual(at("2025-01-02T09:30:00Z"));
+    expect(nextCronRun("0 0 1 * *", at("2025-01-31T23:59:30Z"))).toEqual(at("2025-02-01T00:00:00Z"));
+    // 2025-01-06 is a Monday
+    expect(nextCronRun("0 8 * * 1", at("2025-01-01T00:00:00Z"))).toEqual(at("2025-01-06T08:00:00Z"));
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // The 10th, or any Friday (2025-01-03)
+    expect(nextCronRun("0 0 10 * 5", at("2025-01-01T00:00:00Z"))).toEqual(at("2025-01-03T00:00:00Z"));
+  });
+
+  it("gives up on dates that never occur", () => {
+    expect(() => nextCronRun("0 0 30 2 *", at("2025-01-01T00:00:00Z"))).toThrow("never matches");
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Cron expressions
+ * Standard five-field expressions (minute hour day-of-month month
+ * day-of-week) with `*`, ranges, lists and steps, evaluated in UTC. As in
+ * classic cron, when both day fields are restricted a day matching either
+ * one qualifies.
+ */
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronError";
+  }
+}
+
+type CronField = { values: Set<number>; restricted: boolean };
+
+export type CronSchedule = {
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField;
+  daysOfWeek: CronField;
+};
+
+const FIELD_RANGES: Array<[name: string, min: number, max: number]> = [
+  ["minute", 0, 59],
+  ["hour", 0, 23],
+  ["day of month", 1, 31],
+  ["month", 1, 12],
+  ["day of week", 0, 7],
+];
+
+/** Give up looking for a matching time after this many years */
+const SEARCH_LIMIT_YEARS = 5;
+
+function parseNumber(value: string, name: string, min: number, max: number) {
+  if (!/^\d+$/.test(value) || Number(value) < min || Number(value) > max) {
+    throw new CronError(`Invalid ${name} "${value}" in cron expression`);
+  }
+  return Number(value);
+}
+
+function parseField(field: string, [name, min, max]: [string, number, number]): CronField {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : parseNumber(stepText, name, 1, max);
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseNumber(from, name, min, max);
+      end = parseNumber(to, name, min, max);
+      if (start > end) {
+        throw new CronError(`Invalid ${name} range "${range}" in cron expression`);
+      }
+    } else {
+      start = parseNumber(range, name, min, max);
+      end = stepText === undefined ? start : max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, restricted: field !== "*" };
+}
+
+/**
+ * Parse a five-field cron expression
+ * @throws CronError if the expression is malformed
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronError("Cron expressions have five fields: minute hour day-of-month month day-of-week");
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELD_RANGES[i]));
+  // 7 is an alias for Sunday
+  if (daysOfWeek.values.delete(7)) {
+    daysOfWeek.values.add(0);
+  }
+  return { minutes, hours, daysOfMonth, months, daysOfWeek };
+}
+
+function dayMatches(schedule: CronSchedule, date: Date) {
+  const dom = schedule.daysOfMonth.values.has(date.getUTCDate());
+  const dow = schedule.daysOfWeek.values.has(date.getUTCDay());
+  if (schedule.daysOfMonth.restricted && schedule.daysOfWeek.restricted) {
+    return dom || dow;
+  }
+  return dom && dow;
+}
+
+/**
+ * Find the first minute strictly after `after` that matches the schedule
+ * @throws CronError if nothing matches within the search limit, e.g. "0 0 30 2 *"
+ */
+export function nextCronRun(schedule: CronSchedule | string, after: Date): Date {
+  const cron = typeof schedule === "string" ? parseCron(schedule) : schedule;
+  const limit = after.getTime() + SEARCH_LIMIT_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  const time = new Date(after.getTime());
+  time.setUTCSeconds(0, 0);
+  time.setUTCMinutes(time.getUTCMinutes() + 1);
+
+  while (time.getTime() <= limit) {
+    if (!cron.months.values.has(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1);
+      time.setUTCHours(0, 0);
+    } else if (!dayMatches(cron, time)) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0);
+    } else if (!cron.hours.values.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0);
+    } else if (!cron.minutes.values.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1);
+    } else {
+      return time;
+    }
+  }
+
+  throw new CronError("Cron expression never matches");
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Currency } from "../drizzle/schema";
+
+const now = new Date("2025-01-01T00:00:00Z");
+
+function currency(code: string, fields: Partial<Currency> = {}): Currency {
+  return {
+    id: 1,
+    code,
+    name: code,
+    kind: "fiat",
+    decimals: 2,
+    symbol: null,
+    network: null,
+    enabled: true,
+    createdAt: now,
+    updatedAt: now,
+    ...fields,
+  };
+}
+
+const registry: Record<string, Currency> = {
+  USD: currency("USD"),
+  BTC: currency("BTC", { kind: "crypto", decimals: 8, network: "bitcoin" }),
+  XRP: currency("XRP", { kind: "crypto", decimals: 6, network: "xrpl", enabled: false }),
+};
+
+const updateCurrency = vi.fn();
+
+vi.mock("./db", () => ({
+  getCurrencyByCode: vi.fn(async (code: string) => registry[code]),
+  countWalletsForCurrency: vi.fn(async (code: string) => (code === "BTC" ? 3 : 0)),
+  updateCurrency: (...args: unknown[]) => updateCurrency(...args),
+  createAuditLog: vi.fn(),
+}));
+
+const { CurrencyError, currencySchema, editCurrency, requireCryptoCurrency, requireCurrency } = await import("./currencies");
+
+describe("currency registry", () => {
+  it("only hands out known, enabled currencies unless disabled ones are allowed", async () => {
+    await expect(requireCurrency("USD")).resolves.toMatchObject({ decimals: 2 });
+    await expect(requireCurrency("DOGE")).rejects.toThrow("Unsupported currency");
+    await expect(requireCurrency("XRP")).rejects.toThrow("disabled");
+    await expect(requireCurrency("XRP", { allowDisabled: true })).resolves.toMatchObject({ code: "XRP" });
+    await expect(requireCryptoCurrency("USD")).rejects.toBeInstanceOf(CurrencyError);
+  });
+
+  it("refuses to shrink decimals while wallets hold the currency", async () => {
+    await expect(editCurrency({ code: "BTC", changes: { decimals: 6 } }, 1)).rejects.toThrow("Cannot reduce decimals");
+    await editCurrency({ code: "USD", changes: { decimals: 0 } }, 1);
+    expect(updateCurrency).toHaveBeenCalledWith("USD", { decimals: 0 });
+  });
+
+  it("validates new currencies", () => {
+    expect(currencySchema.parse({ code: " usdc ", name: "USD Coin", kind: "token", decimals: 6, network: "ethereum" }))
+      .toMatchObject({ code: "USDC", enabled: true, symbol: null });
+    expect(currencySchema.safeParse({ code: "USDC", name: "USD Coin", kind: "token", decimals: 6 }).success).toBe(false);
+    expect(currencySchema.safeParse({ code: "ABC", name: "Too precise", kind: "fiat", decimals: 18 }).success).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+import { z } from "zod";
+import {
+  countWalletsForCurrency,
+  createAuditLog,
+  createCurrency,
+  deleteCurrency,
+  getCurrencyByCode,
+  updateCurrency,
+} from "./db";
+import type { Currency } from "../drizzle/schema";
+import { MAX_SCALE } from "@shared/money";
+
+/**
+ * Currency registry
+ * Supported currencies, their precision and whether they accept new
+ * activity live in the currencies table; routers look currencies up here
+ * instead of hardcoding lists.
+ */
+
+export class CurrencyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CurrencyError";
+  }
+}
+
+export const currencyCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z0-9]{2,10}$/, "Currency codes are 2-10 letters or digits");
+
+const currencyFields = {
+  name: z.string().min(1).max(100),
+  kind: z.enum(["fiat", "crypto", "token"]),
+  decimals: z.number().int().min(0).max(MAX_SCALE),
+  symbol: z.string().max(10).nullable(),
+  network: z.string().max(50).nullable(),
+  enabled: z.boolean(),
+};
+
+export const currencySchema = z
+  .object({
+    code: currencyCodeSchema,
+    ...currencyFields,
+    symbol: currencyFields.symbol.default(null),
+    network: currencyFields.network.default(null),
+    enabled: currencyFields.enabled.default(true),
+  })
+  .refine(currency => currency.kind !== "token" || currency.network !== null, {
+    message: "Tokens need a network",
+    path: ["network"],
+  });
+
+export const currencyUpdateSchema = z.object({
+  code: currencyCodeSchema,
+  changes: z.object(currencyFields).partial(),
+});
+
+/**
+ * Look up a currency that may be used for new activity
+ * @param options.allowDisabled Also accept disabled currencies, e.g. to let funds leave
+ * @throws CurrencyError if the currency is unknown or disabled
+ */
+export async function requireCurrency(code: string, options: { allowDisabled?: boolean } = {}): Promise<Currency> {
+  const currency = await getCurrencyByCode(code);
+  if (!currency) {
+    throw new CurrencyError(`Unsupported currency: ${code}`);
+  }
+  if (!currency.enabled && !options.allowDisabled) {
+    throw new CurrencyError(`${code} is currently disabled`);
+  }
+  return currency;
+}
+
+/**
+ * Like requireCurrency, but only for crypto and token currencies
+ */
+export async function requireCryptoCurrency(code: string, options: { allowDisabled?: boolean } = {}) {
+  const currency = await requireCurrency(code, options);
+  if (currency.kind === "fiat") {
+    throw new CurrencyError(`${code} is not a cryptocurrency`);
+  }
+  return currency;
+}
+
+/**
+ * Add a currency to the registry
+ */
+export async function addCurrency(input: z.infer<typeof currencySchema>, actorId: number) {
+  if (await getCurrencyByCode(input.code)) {
+    throw new CurrencyError(`${input.code} already exists`);
+  }
+
+  await createCurrency(input);
+  await createAuditLog({
+    adminId: actorId,
+    action: "currency_created",
+    details: input,
+  });
+}
+
+/**
+ * Change a currency's settings
+ * Decimals cannot shrink while wallets hold the currency, since existing
+ * balances could then carry more precision than the currency allows.
+ */
+export async function editCurrency(input: z.infer<typeof currencyUpdateSchema>, actorId: number) {
+  const currency = await getCurrencyByCode(input.code);
+  if (!currency) {
+    throw new CurrencyError(`Unsupported currency: ${input.code}`);
+  }
+
+  const { changes } = input;
+  const network = changes.network !== undefined ? changes.network : currency.network;
+  if ((changes.kind ?? currency.kind) === "token" && network === null) {
+    throw new CurrencyError("Tokens need a network");
+  }
+  if (
+    changes.decimals !== undefined &&
+    changes.decimals < currency.decimals &&
+    (await countWalletsForCurrency(currency.code)) > 0
+  ) {
+    throw new CurrencyError(`Cannot reduce decimals for ${currency.code} while wallets hold it`);
+  }
+
+  await updateCurrency(currency.code, changes);
+  await createAuditLog({
+    adminId: actorId,
+    action: "currency_updated",
+    details: { code: currency.code, changes },
+  });
+}
+
+/**
+ * Remove a currency that no wallet uses; currencies in use can only be disabled
+ */
+export async function removeCurrency(code: string, actorId: number) {
+  const currency = await getCurrencyByCode(code);
+  if (!currency) {
+    throw new CurrencyError(`Unsupported currency: ${code}`);
+  }
+
+  const walletCount = await countWalletsForCurrency(code);
+  if (walletCount > 0) {
+    throw new CurrencyError(`${code} is used by ${walletCount} wallet(s); disable it instead`);
+  }
+
+  await deleteCurrency(code);
+  await createAuditLog({
+    adminId: actorId,
+    action: "currency_deleted",
+    details: { code },
+  });
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { MySqlDialect } from "drizzle-orm/mysql-core";
+import type { SQL } from "drizzle-orm";
+import { addRefundedAmount, adjustWalletBalance, type DbTransaction } from "./db";
+import { addDecimals } from "@shared/money";
+
+/** A transaction that records the values of each UPDATE ... SET instead of running it */
+function recordingTx() {
+  const updates: Array<Record<string, unknown>> = [];
+  const tx = {
+    update: () => ({
+      set: (values: Record<string, unknown>) => {
+        updates.push(values);
+        return { where: async () => undefined };
+      },
+    }),
+  };
+  return { tx: tx as unknown as DbTransaction, updates };
+}
+
+function render(value: unknown) {
+  return new MySqlDialect().sqlToQuery(value as SQL);
+}
+
+describe("balance arithmetic", () => {
+  it("adds postings to wallet balances as DECIMAL, not DOUBLE", async () => {
+    // 18 significant digits: in a double the sum rounds to 10000000000
+    const balance = "9999999999.99999998";
+    const delta = "0.00000001";
+    expect(addDecimals(balance, delta)).toBe("9999999999.99999999");
+    expect((Number(balance) + Number(delta)).toFixed(8)).not.toBe("9999999999.99999999");
+
+    const { tx, updates } = recordingTx();
+    await adjustWalletBalance(tx, 1, delta);
+
+    const query = render(updates[0].balance);
+    expect(query.sql).toBe("`wallets`.`balance` + CAST(? AS DECIMAL(18, 8))");
+    expect(query.params).toEqual([delta]);
+  });
+
+  it("adds refunds to refundedAmount as DECIMAL", async () => {
+    const { tx, updates } = recordingTx();
+    await addRefundedAmount(tx, 1, "33.33333333");
+
+    const query = render(updates[0].refundedAmount);
+    expect(query.sql).toBe("`transactions`.`refundedAmount` + CAST(? AS DECIMAL(18, 8))");
+    expect(query.params).toEqual(["33.33333333"]);
+  });
+});
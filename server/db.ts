@@ -1,10 +1,13 @@
-import { eq, or, and, desc } from "drizzle-orm";
+import { eq, or, and, desc, isNull, isNotNull, gt, gte, lt, lte, ne, count, sql, inArray, like } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
-import { InsertUser, users, wallets, transactions, fingerprints, exchangeRates, notifications, auditLogs, InsertWallet, InsertTransaction, InsertFingerprint, InsertNotification, InsertAuditLog } from "../drizzle/schema";
+import { AsyncLocalStorage } from "async_hooks";
+import { InsertUser, users, wallets, transactions, transactionEvents, ledgerEntries, holds, idempotencyKeys, jobs, scheduledTransfers, paymentRequests, disputes, fingerprints, sessions, authenticatorPolicies, currencies, exchangeRates, exchangeQuotes, feeSchedules, notifications, auditLogs, webauthnChallenges, recoveryCodes, totpFactors, InsertWallet, InsertTransaction, InsertFingerprint, InsertNotification, InsertAuditLog, InsertWebauthnChallenge, InsertTotpFactor, InsertSession, InsertAuthenticatorPolicy, InsertLedgerEntry, InsertCurrency, InsertIdempotencyKey, InsertHold, InsertExchangeQuote, InsertJob, InsertScheduledTransfer, InsertPaymentRequest, InsertDispute, InsertTransactionEvent, InsertFeeSchedule } from "../drizzle/schema";
 import { ENV } from './_core/env';
 
 let _db: ReturnType<typeof drizzle> | null = null;
 
+export type DbTransaction = Parameters<Parameters<ReturnType<typeof drizzle>["transaction"]>[0]>[0];
+
 // Lazily create the drizzle instance so local tooling can run without a DB.
 export async function getDb() {
   if (!_db && process.env.DATABASE_URL) {
@@ -18,6 +21,38 @@ export async function getDb() {
   return _db;
 }
 
+type CommitHook = { run: (tx: DbTransaction) => Promise<void>; done: boolean };
+
+const commitHooks = new AsyncLocalStorage<CommitHook>();
+
+/**
+ * Run `fn` inside a single database transaction
+ * Inside withCommitHook, the first transaction also runs the hook before committing.
+ */
+export async function withTransaction<T>(fn: (tx: DbTransaction) => Promise<T>): Promise<T> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const hook = commitHooks.getStore();
+  if (!hook || hook.done) return db.transaction(fn);
+
+  const result = await db.transaction(async tx => {
+    const value = await fn(tx);
+    await hook.run(tx);
+    return value;
+  });
+  hook.done = true;
+  return result;
+}
+
+/**
+ * Run `fn`, committing `hook` atomically with the first database transaction it makes
+ * Throwing from the hook rolls that transaction back.
+ */
+export function withCommitHook<T>(hook: (tx: DbTransaction) => Promise<void>, fn: () => Promise<T>): Promise<T> {
+  return commitHooks.run({ run: hook, done: false }, fn);
+}
+
 export async function upsertUser(user: InsertUser): Promise<void> {
   if (!user.openId) {
     throw new Error("User openId is required for upsert");
@@ -89,6 +124,51 @@ export async function getUserByOpenId(openId: string) {
   return result.length > 0 ? result[0] : undefined;
 }
 
+export async function getUserById(userId: number) {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get user: database not available");
+    return undefined;
+  }
+
+  const result = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getUserByHandle(handle: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.select().from(users).where(eq(users.handle, handle)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Get users with an email address; emails are not unique, so callers
+ * must handle more than one match
+ */
+export async function getUsersByEmail(email: string, limit = 2) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.select().from(users).where(eq(users.email, email)).limit(limit);
+}
+
+export async function setUserHandle(userId: number, handle: string | null) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.update(users).set({ handle }).where(eq(users.id, userId));
+}
+
+export async function setUserFeeTier(userId: number, feeTier: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.update(users).set({ feeTier }).where(eq(users.id, userId));
+}
+
 // Wallet queries
 export async function createWallet(userId: number, currencyCode: string, address?: string) {
   const db = await getDb();
@@ -105,6 +185,23 @@ export async function createWallet(userId: number, currencyCode: string, address
   return result;
 }
 
+/**
+ * A user's wallet in a currency, opened if they have none
+ * Users hold one wallet per currency, so when a concurrent call opens it
+ * first the insert is ignored and that wallet is returned.
+ */
+export async function openWallet(userId: number, currencyCode: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.insert(wallets).ignore().values({ userId, currencyCode, balance: "0", isActive: true });
+  const result = await db.select()
+    .from(wallets)
+    .where(and(eq(wallets.userId, userId), eq(wallets.currencyCode, currencyCode)))
+    .limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
 export async function getUserWallets(userId: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
@@ -120,11 +217,20 @@ export async function getWalletById(walletId: number) {
   return result.length > 0 ? result[0] : undefined;
 }
 
-export async function updateWalletBalance(walletId: number, newBalance: string) {
+export async function getAllWallets() {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  return db.update(wallets).set({ balance: newBalance }).where(eq(wallets.id, walletId));
+  return db.select().from(wallets);
+}
+
+/**
+ * Overwrite a wallet's cached balance
+ * Balances are a projection of the ledger; only reconciliation should call
+ * this, holding the wallet's lock.
+ */
+export async function updateWalletBalance(tx: DbTransaction, walletId: number, newBalance: string) {
+  return tx.update(wallets).set({ balance: newBalance }).where(eq(wallets.id, walletId));
 }
 
 // Transaction queries
@@ -136,87 +242,1143 @@ export async function createTransaction(data: InsertTransaction) {
   return result;
 }
 
-export async function getUserTransactions(userId: number, limit = 50, offset = 0) {
+export type TransactionFilters = {
+  type?: InsertTransaction["transactionType"];
+  status?: InsertTransaction["status"];
+  from?: Date;
+  to?: Date;
+  minAmount?: string;
+  maxAmount?: string;
+  walletId?: number;
+  currencyCode?: string;
+  counterpartyUserId?: number;
+  search?: string;
+};
+
+export type TransactionCursor = { createdAt: Date; id: number };
+
+/**
+ * Build the WHERE clause for a user's transactions matching `filters`
+ * Amounts are compared as decimals; `search` matches the description.
+ */
+function userTransactionConditions(userId: number, filters: TransactionFilters) {
+  const conditions = [or(eq(transactions.fromUserId, userId), eq(transactions.toUserId, userId))];
+
+  if (filters.type) conditions.push(eq(transactions.transactionType, filters.type));
+  if (filters.status) conditions.push(eq(transactions.status, filters.status));
+  if (filters.from) conditions.push(gte(transactions.createdAt, filters.from));
+  if (filters.to) conditions.push(lte(transactions.createdAt, filters.to));
+  if (filters.minAmount) {
+    conditions.push(sql`${transactions.amount} >= CAST(${filters.minAmount} AS DECIMAL(18, 8))`);
+  }
+  if (filters.maxAmount) {
+    conditions.push(sql`${transactions.amount} <= CAST(${filters.maxAmount} AS DECIMAL(18, 8))`);
+  }
+  if (filters.walletId) {
+    conditions.push(or(eq(transactions.fromWalletId, filters.walletId), eq(transactions.toWalletId, filters.walletId)));
+  }
+  if (filters.currencyCode) {
+    const currencyWallets = sql`(select ${wallets.id} from ${wallets} where ${wallets.currencyCode} = ${filters.currencyCode})`;
+    conditions.push(
+      or(sql`${transactions.fromWalletId} in ${currencyWallets}`, sql`${transactions.toWalletId} in ${currencyWallets}`)
+    );
+  }
+  if (filters.counterpartyUserId) {
+    conditions.push(
+      or(
+        and(eq(transactions.fromUserId, userId), eq(transactions.toUserId, filters.counterpartyUserId)),
+        and(eq(transactions.toUserId, userId), eq(transactions.fromUserId, filters.counterpartyUserId))
+      )
+    );
+  }
+  if (filters.search) {
+    conditions.push(like(transactions.description, `%${filters.search.replace(/[\\%_]/g, "\\$&")}%`));
+  }
+
+  return and(...conditions);
+}
+
+/**
+ * Get a user's transactions, newest first
+ * Pages are keyed by `cursor`, the (createdAt, id) of the last row of the
+ * previous page, so rows inserted meanwhile do not shift later pages.
+ */
+export async function getUserTransactions(
+  userId: number,
+  options: { filters?: TransactionFilters; limit?: number; cursor?: TransactionCursor } = {}
+) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
+  const { filters = {}, limit = 50, cursor } = options;
+  const where = cursor
+    ? and(
+        userTransactionConditions(userId, filters),
+        or(
+          lt(transactions.createdAt, cursor.createdAt),
+          and(eq(transactions.createdAt, cursor.createdAt), lt(transactions.id, cursor.id))
+        )
+      )
+    : userTransactionConditions(userId, filters);
+
   return db.select()
     .from(transactions)
-    .where(
-      or(
-        eq(transactions.fromUserId, userId),
-        eq(transactions.toUserId, userId)
-      )
-    )
-    .orderBy(desc(transactions.createdAt))
-    .limit(limit)
-    .offset(offset);
+    .where(where)
+    .orderBy(desc(transactions.createdAt), desc(transactions.id))
+    .limit(limit);
 }
 
-// Fingerprint queries
-export async function createFingerprint(data: InsertFingerprint) {
+/**
+ * Count a user's transactions matching `filters`
+ */
+export async function countUserTransactions(userId: number, filters: TransactionFilters = {}) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  return db.insert(fingerprints).values(data);
+  const [result] = await db
+    .select({ total: count() })
+    .from(transactions)
+    .where(userTransactionConditions(userId, filters));
+  return result?.total ?? 0;
 }
 
-export async function getUserFingerprints(userId: number) {
+/**
+ * Insert a transaction record within a database transaction and return its ID
+ */
+export async function insertTransaction(tx: DbTransaction, data: InsertTransaction) {
+  const [result] = await tx.insert(transactions).values(data);
+  return result.insertId;
+}
+
+export async function getTransactionById(transactionId: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  return db.select().from(fingerprints).where(eq(fingerprints.userId, userId));
+  const result = await db.select().from(transactions).where(eq(transactions.id, transactionId)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
 }
 
-export async function getFingerprintByCredentialId(credentialId: string) {
+/**
+ * Write a transaction's new status; use transitionTransaction so the move is checked and recorded
+ */
+export async function updateTransactionStatus(
+  tx: DbTransaction,
+  transactionId: number,
+  changes: Pick<InsertTransaction, "status" | "completedAt" | "failureReason">
+) {
+  return tx.update(transactions).set(changes).where(eq(transactions.id, transactionId));
+}
+
+export async function insertTransactionEvent(tx: DbTransaction, data: InsertTransactionEvent) {
+  return tx.insert(transactionEvents).values(data);
+}
+
+/**
+ * A transaction's status history, oldest first
+ */
+export async function getTransactionEvents(transactionId: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  const result = await db.select().from(fingerprints).where(eq(fingerprints.credentialId, credentialId)).limit(1);
+  return db.select()
+    .from(transactionEvents)
+    .where(eq(transactionEvents.transactionId, transactionId))
+    .orderBy(transactionEvents.createdAt, transactionEvents.id);
+}
+
+/**
+ * Lock a transaction row until the surrounding transaction ends
+ */
+export async function lockTransaction(tx: DbTransaction, transactionId: number) {
+  const result = await tx.select().from(transactions).where(eq(transactions.id, transactionId)).limit(1).for("update");
   return result.length > 0 ? result[0] : undefined;
 }
 
-// Exchange rate queries
-export async function getExchangeRate(fromCurrency: string, toCurrency: string) {
+export async function addRefundedAmount(tx: DbTransaction, transactionId: number, amount: string) {
+  return tx.update(transactions)
+    .set({ refundedAmount: sql`${transactions.refundedAmount} + CAST(${amount} AS DECIMAL(18, 8))` })
+    .where(eq(transactions.id, transactionId));
+}
+
+// Ledger queries
+export async function insertLedgerEntries(tx: DbTransaction, entries: InsertLedgerEntry[]) {
+  return tx.insert(ledgerEntries).values(entries);
+}
+
+/**
+ * Lock a wallet row until the surrounding transaction ends (SELECT ... FOR UPDATE)
+ * Callers locking several wallets must do so in ascending ID order.
+ */
+export async function lockWallet(tx: DbTransaction, walletId: number) {
+  const result = await tx.select().from(wallets).where(eq(wallets.id, walletId)).limit(1).for("update");
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Move a wallet's cached balance by a signed decimal amount
+ */
+export async function adjustWalletBalance(tx: DbTransaction, walletId: number, delta: string) {
+  return tx.update(wallets)
+    .set({ balance: sql`${wallets.balance} + CAST(${delta} AS DECIMAL(18, 8))` })
+    .where(eq(wallets.id, walletId));
+}
+
+/**
+ * Sum each wallet account in the ledger (credits minus debits)
+ */
+export async function getLedgerWalletBalances() {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  const result = await db.select()
-    .from(exchangeRates)
+  return db.select({
+    walletId: ledgerEntries.walletId,
+    balance: sql<string>`sum(case when ${ledgerEntries.direction} = 'credit' then ${ledgerEntries.amount} else -${ledgerEntries.amount} end)`,
+  })
+    .from(ledgerEntries)
+    .where(eq(ledgerEntries.account, "wallet"))
+    .groupBy(ledgerEntries.walletId);
+}
+
+/**
+ * Sum one wallet account in the ledger; null if it has no lines
+ */
+export async function getLedgerWalletBalance(tx: DbTransaction, walletId: number) {
+  const result = await tx.select({
+    balance: sql<string | null>`sum(case when ${ledgerEntries.direction} = 'credit' then ${ledgerEntries.amount} else -${ledgerEntries.amount} end)`,
+  })
+    .from(ledgerEntries)
+    .where(and(eq(ledgerEntries.account, "wallet"), eq(ledgerEntries.walletId, walletId)));
+  return result[0]?.balance ?? null;
+}
+
+/**
+ * Fee revenue per currency: the balances of the revenue wallets
+ */
+export async function getFeeRevenue() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.select({ currencyCode: wallets.currencyCode, walletId: wallets.id, total: wallets.balance })
+    .from(wallets)
+    .where(isNull(wallets.userId))
+    .orderBy(wallets.currencyCode);
+}
+
+/**
+ * Find transactions whose postings do not balance in some currency
+ */
+export async function getUnbalancedLedgerTransactions() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const net = sql<string>`sum(case when ${ledgerEntries.direction} = 'credit' then ${ledgerEntries.amount} else -${ledgerEntries.amount} end)`;
+  return db.select({
+    transactionId: ledgerEntries.transactionId,
+    currencyCode: ledgerEntries.currencyCode,
+    net,
+  })
+    .from(ledgerEntries)
+    .groupBy(ledgerEntries.transactionId, ledgerEntries.currencyCode)
+    .having(sql`${net} <> 0`);
+}
+
+// Hold queries
+export async function insertHold(tx: DbTransaction, data: InsertHold) {
+  const [result] = await tx.insert(holds).values(data);
+  return result.insertId;
+}
+
+/**
+ * Total of a wallet's active, unexpired holds
+ * @param excludeHoldId Leave out a hold that is being captured
+ */
+export async function getHeldAmount(tx: DbTransaction, walletId: number, now: Date, excludeHoldId?: number) {
+  const result = await tx.select({ total: sql<string | null>`sum(${holds.amount})` })
+    .from(holds)
     .where(
       and(
-        eq(exchangeRates.fromCurrency, fromCurrency),
-        eq(exchangeRates.toCurrency, toCurrency)
+        eq(holds.walletId, walletId),
+        eq(holds.status, "active"),
+        gt(holds.expiresAt, now),
+        excludeHoldId !== undefined ? ne(holds.id, excludeHoldId) : undefined
       )
-    )
+    );
+  return result[0]?.total ?? "0";
+}
+
+/**
+ * Active, unexpired hold totals per wallet
+ */
+export async function getHeldAmounts(walletIds: number[], now: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  if (walletIds.length === 0) return [];
+  return db.select({ walletId: holds.walletId, total: sql<string>`sum(${holds.amount})` })
+    .from(holds)
+    .where(and(inArray(holds.walletId, walletIds), eq(holds.status, "active"), gt(holds.expiresAt, now)))
+    .groupBy(holds.walletId);
+}
+
+export async function getWalletHolds(walletId: number, limit = 50) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.select().from(holds).where(eq(holds.walletId, walletId)).orderBy(desc(holds.createdAt)).limit(limit);
+}
+
+/**
+ * The active hold reserving funds for a pending transaction
+ */
+export async function getActiveHoldForTransaction(transactionId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.select()
+    .from(holds)
+    .where(and(eq(holds.transactionId, transactionId), eq(holds.status, "active")))
     .limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function lockHold(tx: DbTransaction, holdId: number) {
+  const result = await tx.select().from(holds).where(eq(holds.id, holdId)).limit(1).for("update");
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Lock active holds whose expiry has passed
+ */
+export async function lockLapsedHolds(tx: DbTransaction, now: Date) {
+  return tx.select().from(holds).where(and(eq(holds.status, "active"), lte(holds.expiresAt, now))).for("update");
+}
+
+export async function settleHold(tx: DbTransaction, holdId: number, status: "captured" | "released" | "expired") {
+  return tx.update(holds).set({ status, settledAt: new Date() }).where(eq(holds.id, holdId));
+}
+
+// Idempotency key queries
+/**
+ * Claim an idempotency key
+ * @returns The new row ID, or null if the user already used the key
+ */
+export async function claimIdempotencyKey(data: InsertIdempotencyKey) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const [result] = await db.insert(idempotencyKeys).ignore().values(data);
+  return result.affectedRows === 1 ? result.insertId : null;
+}
+
+export async function getIdempotencyKey(userId: number, key: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
   
+  const result = await db.select()
+    .from(idempotencyKeys)
+    .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key)))
+    .limit(1);
   return result.length > 0 ? result[0] : undefined;
 }
 
-export async function upsertExchangeRate(fromCurrency: string, toCurrency: string, rate: string, source: string) {
+/**
+ * Take over a pending claim whose lease has lapsed
+ * @returns Whether the claim is now held until `lockedUntil`
+ */
+export async function reclaimIdempotencyKey(id: number, now: Date, lockedUntil: Date) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  const existing = await getExchangeRate(fromCurrency, toCurrency);
+  const [result] = await db.update(idempotencyKeys)
+    .set({ lockedUntil })
+    .where(and(
+      eq(idempotencyKeys.id, id),
+      eq(idempotencyKeys.status, "pending"),
+      or(isNull(idempotencyKeys.lockedUntil), lte(idempotencyKeys.lockedUntil, now))
+    ));
+  return result.affectedRows === 1;
+}
+
+/**
+ * Complete a pending claim inside the transaction that commits its request's effects
+ * @returns false if the claim is no longer pending, e.g. another request completed it
+ */
+export async function commitIdempotencyKey(tx: DbTransaction, id: number, response: unknown) {
+  const [result] = await tx.update(idempotencyKeys)
+    .set({ status: "completed", response, completedAt: new Date() })
+    .where(and(eq(idempotencyKeys.id, id), eq(idempotencyKeys.status, "pending")));
+  return result.affectedRows === 1;
+}
+
+export async function completeIdempotencyKey(id: number, response: unknown) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
   
-  if (existing) {
-    return db.update(exchangeRates)
-      .set({ rate, source, updatedAt: new Date() })
+  return db.update(idempotencyKeys)
+    .set({ status: "completed", response, completedAt: new Date() })
+    .where(eq(idempotencyKeys.id, id));
+}
+
+export async function releaseIdempotencyKey(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.delete(idempotencyKeys).where(and(eq(idempotencyKeys.id, id), eq(idempotencyKeys.status, "pending")));
+}
+
+// Job queries
+/**
+ * Queue a job
+ * @returns The new job ID, or null if a job with the same dedupe key exists
+ */
+export async function insertJob(data: InsertJob) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const [result] = await db.insert(jobs).ignore().values(data);
+  return result.affectedRows === 1 ? result.insertId : null;
+}
+
+/**
+ * Claim up to `limit` due jobs for `workerId`
+ * Due jobs are queued ones whose time has come and running ones whose
+ * lease lapsed. Rows locked by another instance's claim are skipped, so
+ * concurrent instances never claim the same job.
+ */
+export async function claimDueJobs(workerId: string, now: Date, leaseMs: number, limit: number) {
+  return withTransaction(async tx => {
+    const due = await tx.select()
+      .from(jobs)
       .where(
-        and(
-          eq(exchangeRates.fromCurrency, fromCurrency),
-          eq(exchangeRates.toCurrency, toCurrency)
+        or(
+          and(eq(jobs.status, "queued"), lte(jobs.runAt, now)),
+          and(eq(jobs.status, "running"), lt(jobs.lockedUntil, now))
         )
-      );
-  } else {
-    return db.insert(exchangeRates).values({
-      fromCurrency,
-      toCurrency,
-      rate,
-      source,
-    });
-  }
+      )
+      .orderBy(jobs.runAt)
+      .limit(limit)
+      .for("update", { skipLocked: true });
+    if (due.length === 0) return [];
+
+    const lockedBy = workerId;
+    const lockedUntil = new Date(now.getTime() + leaseMs);
+    await tx.update(jobs)
+      .set({ status: "running", lockedBy, lockedUntil, attempts: sql`${jobs.attempts} + 1` })
+      .where(inArray(jobs.id, due.map(job => job.id)));
+    return due.map(job => ({ ...job, status: "running" as const, lockedBy, lockedUntil, attempts: job.attempts + 1 }));
+  });
+}
+
+/**
+ * Record a claimed job's outcome; ignored if the claim was lost to another worker
+ */
+export async function finishJob(
+  jobId: number,
+  workerId: string,
+  changes: { status: "queued" | "completed" | "failed"; runAt?: Date; lastError?: string | null }
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const finishedAt = changes.status === "queued" ? null : new Date();
+  return db.update(jobs)
+    .set({ ...changes, finishedAt, lockedBy: null, lockedUntil: null })
+    .where(and(eq(jobs.id, jobId), eq(jobs.status, "running"), eq(jobs.lockedBy, workerId)));
+}
+
+// Scheduled transfer queries
+export async function createScheduledTransfer(data: InsertScheduledTransfer) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const [result] = await db.insert(scheduledTransfers).values(data);
+  return result.insertId;
+}
+
+export async function getScheduledTransferById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.select().from(scheduledTransfers).where(eq(scheduledTransfers.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getUserScheduledTransfers(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.select()
+    .from(scheduledTransfers)
+    .where(eq(scheduledTransfers.userId, userId))
+    .orderBy(desc(scheduledTransfers.createdAt));
+}
+
+/**
+ * Update a scheduled transfer, optionally only if it is still at `expectedOccurrence`
+ * @returns Whether a row was updated
+ */
+export async function updateScheduledTransfer(
+  id: number,
+  changes: Partial<InsertScheduledTransfer>,
+  expectedOccurrence?: number
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const [result] = await db.update(scheduledTransfers)
+    .set(changes)
+    .where(
+      expectedOccurrence === undefined
+        ? eq(scheduledTransfers.id, id)
+        : and(eq(scheduledTransfers.id, id), eq(scheduledTransfers.occurrence, expectedOccurrence))
+    );
+  return result.affectedRows > 0;
+}
+
+// Payment request queries
+export async function createPaymentRequest(data: InsertPaymentRequest) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const [result] = await db.insert(paymentRequests).values(data);
+  return result.insertId;
+}
+
+export async function getPaymentRequestById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.select().from(paymentRequests).where(eq(paymentRequests.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getPaymentRequestByToken(token: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.select().from(paymentRequests).where(eq(paymentRequests.token, token)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getUserPaymentRequests(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.select()
+    .from(paymentRequests)
+    .where(eq(paymentRequests.userId, userId))
+    .orderBy(desc(paymentRequests.createdAt));
+}
+
+/**
+ * Lock a payment request row until the surrounding transaction ends
+ */
+export async function lockPaymentRequest(tx: DbTransaction, id: number) {
+  const result = await tx.select().from(paymentRequests).where(eq(paymentRequests.id, id)).limit(1).for("update");
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Count a payment against a locked request, closing it as paid unless it is multi-use
+ */
+export async function recordPaymentRequestPayment(tx: DbTransaction, id: number, multiUse: boolean, paidAt: Date) {
+  return tx.update(paymentRequests)
+    .set({
+      paymentCount: sql`${paymentRequests.paymentCount} + 1`,
+      lastPaidAt: paidAt,
+      ...(multiUse ? {} : { status: "paid" as const }),
+    })
+    .where(eq(paymentRequests.id, id));
+}
+
+/**
+ * Cancel a request if it is still open
+ * @returns Whether it was cancelled
+ */
+export async function cancelPaymentRequest(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const [result] = await db.update(paymentRequests)
+    .set({ status: "cancelled" })
+    .where(and(eq(paymentRequests.id, id), eq(paymentRequests.status, "open")));
+  return result.affectedRows > 0;
+}
+
+/**
+ * Mark open requests past their expiry as expired
+ * @returns Number of requests expired
+ */
+export async function expirePaymentRequests(now: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const [result] = await db.update(paymentRequests)
+    .set({ status: "expired" })
+    .where(and(eq(paymentRequests.status, "open"), lte(paymentRequests.expiresAt, now)));
+  return result.affectedRows;
+}
+
+// Dispute queries
+export async function insertDispute(tx: DbTransaction, data: InsertDispute) {
+  const [result] = await tx.insert(disputes).values(data);
+  return result.insertId;
+}
+
+export async function getDisputeById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.select().from(disputes).where(eq(disputes.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Lock a dispute row until the surrounding transaction ends
+ */
+export async function lockDispute(tx: DbTransaction, id: number) {
+  const result = await tx.select().from(disputes).where(eq(disputes.id, id)).limit(1).for("update");
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * The dispute on a transaction that is still awaiting a decision
+ */
+export async function getActiveDispute(tx: DbTransaction, transactionId: number) {
+  const result = await tx.select()
+    .from(disputes)
+    .where(and(eq(disputes.transactionId, transactionId), inArray(disputes.status, ["open", "responded"])))
+    .limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function updateDispute(tx: DbTransaction, id: number, changes: Partial<InsertDispute>) {
+  return tx.update(disputes).set(changes).where(eq(disputes.id, id));
+}
+
+/**
+ * Disputes the user opened or must respond to, newest first
+ */
+export async function getUserDisputes(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.select()
+    .from(disputes)
+    .where(or(eq(disputes.openedBy, userId), eq(disputes.respondentId, userId)))
+    .orderBy(desc(disputes.createdAt));
+}
+
+export async function listDisputes(status?: "open" | "responded" | "resolved" | "withdrawn", limit = 100) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.select()
+    .from(disputes)
+    .where(status ? eq(disputes.status, status) : undefined)
+    .orderBy(desc(disputes.createdAt))
+    .limit(limit);
+}
+
+// Fingerprint queries
+export async function createFingerprint(data: InsertFingerprint) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.insert(fingerprints).values(data);
+}
+
+export async function getUserFingerprints(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.select().from(fingerprints).where(eq(fingerprints.userId, userId));
+}
+
+export async function getFingerprintByCredentialId(credentialId: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.select().from(fingerprints).where(eq(fingerprints.credentialId, credentialId)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getActiveFingerprints() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.select().from(fingerprints).where(eq(fingerprints.isActive, true));
+}
+
+export async function updateFingerprint(fingerprintId: number, data: Partial<Pick<InsertFingerprint, "nickname" | "isActive">>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.update(fingerprints).set(data).where(eq(fingerprints.id, fingerprintId));
+}
+
+export async function deleteFingerprint(fingerprintId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.delete(fingerprints).where(eq(fingerprints.id, fingerprintId));
+}
+
+/**
+ * Record a use of a fingerprint and move its signature counter forward.
+ * Authenticators without a counter always report 0, accepted while the
+ * stored counter is 0 too. Returns false when the stored counter is already
+ * at or past `counter`, e.g. a concurrent assertion stored it first.
+ */
+export async function updateFingerprintUsage(fingerprintId: number, counter: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const [result] = await db.update(fingerprints)
+    .set({ counter, lastUsed: new Date() })
+    .where(
+      and(
+        eq(fingerprints.id, fingerprintId),
+        counter === 0 ? eq(fingerprints.counter, 0) : lt(fingerprints.counter, counter)
+      )
+    );
+  return result.affectedRows === 1;
+}
+
+// Session queries
+export async function createSession(data: InsertSession) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.insert(sessions).values(data);
+}
+
+export async function getSessionBySessionId(sessionId: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.select().from(sessions).where(eq(sessions.sessionId, sessionId)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getUserSessions(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.select().from(sessions)
+    .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+    .orderBy(desc(sessions.lastSeenAt));
+}
+
+export async function touchSession(id: number, data: Pick<InsertSession, "userAgent" | "ipAddress">) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.update(sessions).set({ ...data, lastSeenAt: new Date() }).where(eq(sessions.id, id));
+}
+
+export async function revokeSession(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.update(sessions)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(sessions.id, id), isNull(sessions.revokedAt)));
+}
+
+/**
+ * Revoke every active session of a user except the one given
+ * Returns the number of sessions revoked.
+ */
+export async function revokeOtherSessions(userId: number, keepSessionId: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const [result] = await db.update(sessions)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(sessions.userId, userId),
+        ne(sessions.sessionId, keepSessionId),
+        isNull(sessions.revokedAt)
+      )
+    );
+  return result.affectedRows;
+}
+
+/**
+ * Whether the user had a session from this user agent before the given time
+ */
+export async function hasEarlierSessionFromUserAgent(userId: number, userAgent: string, before: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.select({ id: sessions.id }).from(sessions)
+    .where(
+      and(
+        eq(sessions.userId, userId),
+        eq(sessions.userAgent, userAgent),
+        lt(sessions.createdAt, before)
+      )
+    )
+    .limit(1);
+  return result.length > 0;
+}
+
+// Authenticator policy queries
+export async function getLatestAuthenticatorPolicy() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.select().from(authenticatorPolicies).orderBy(desc(authenticatorPolicies.id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function createAuthenticatorPolicy(data: InsertAuthenticatorPolicy) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.insert(authenticatorPolicies).values(data);
+}
+
+// WebAuthn challenge queries
+export async function createWebauthnChallenge(data: InsertWebauthnChallenge) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.insert(webauthnChallenges).values(data);
+}
+
+/**
+ * Atomically mark an unexpired, unused challenge as used.
+ * Returns the challenge row when this call consumed it, otherwise undefined.
+ */
+export async function consumeWebauthnChallenge(challenge: string, purpose: InsertWebauthnChallenge["purpose"]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const now = new Date();
+  const [result] = await db.update(webauthnChallenges)
+    .set({ usedAt: now })
+    .where(
+      and(
+        eq(webauthnChallenges.challenge, challenge),
+        eq(webauthnChallenges.purpose, purpose),
+        isNull(webauthnChallenges.usedAt),
+        gt(webauthnChallenges.expiresAt, now)
+      )
+    );
+
+  if (result.affectedRows !== 1) {
+    return undefined;
+  }
+
+  const rows = await db.select().from(webauthnChallenges).where(eq(webauthnChallenges.challenge, challenge)).limit(1);
+  return rows.length > 0 ? rows[0] : undefined;
+}
+
+export async function deleteExpiredWebauthnChallenges() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.delete(webauthnChallenges).where(lt(webauthnChallenges.expiresAt, new Date()));
+}
+
+// Recovery code queries
+/**
+ * Replace all of a user's recovery codes with a fresh set of hashes
+ */
+export async function replaceRecoveryCodes(userId: number, codeHashes: string[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.transaction(async tx => {
+    await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    await tx.insert(recoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+  });
+}
+
+export async function countUnusedRecoveryCodes(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const [row] = await db.select({ remaining: count() })
+    .from(recoveryCodes)
+    .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+  return row?.remaining ?? 0;
+}
+
+/**
+ * Atomically mark one of the user's unused recovery codes as used.
+ * Returns true when this call consumed the code.
+ */
+export async function consumeRecoveryCode(userId: number, codeHash: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const [result] = await db.update(recoveryCodes)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, codeHash),
+        isNull(recoveryCodes.usedAt)
+      )
+    );
+  return result.affectedRows === 1;
+}
+
+// TOTP factor queries
+export async function getTotpFactor(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.select().from(totpFactors).where(eq(totpFactors.userId, userId)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Create or replace the user's TOTP factor with a new, unconfirmed secret
+ */
+export async function upsertTotpFactor(data: Pick<InsertTotpFactor, "userId" | "secret">) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.insert(totpFactors)
+    .values({ ...data, confirmedAt: null, lastUsedStep: 0, failedAttempts: 0, lockedUntil: null })
+    .onDuplicateKeyUpdate({
+      set: { secret: data.secret, confirmedAt: null, lastUsedStep: 0, failedAttempts: 0, lockedUntil: null },
+    });
+}
+
+/**
+ * Atomically record an accepted time step, optionally confirming enrollment,
+ * and clear the count of wrong codes.
+ * Returns false when the step (or a later one) was already used.
+ */
+export async function markTotpStepUsed(userId: number, step: number, confirm = false) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const [result] = await db.update(totpFactors)
+    .set(confirm ? { lastUsedStep: step, failedAttempts: 0, confirmedAt: new Date() } : { lastUsedStep: step, failedAttempts: 0 })
+    .where(and(eq(totpFactors.userId, userId), lt(totpFactors.lastUsedStep, step)));
+  return result.affectedRows === 1;
+}
+
+/**
+ * Count a wrong code against the user's TOTP factor
+ * @returns The number of wrong codes since the last accepted code or lockout
+ */
+export async function recordTotpFailure(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.update(totpFactors)
+    .set({ failedAttempts: sql`${totpFactors.failedAttempts} + 1` })
+    .where(eq(totpFactors.userId, userId));
+  const [factor] = await db.select({ failedAttempts: totpFactors.failedAttempts })
+    .from(totpFactors)
+    .where(eq(totpFactors.userId, userId))
+    .limit(1);
+  return factor?.failedAttempts ?? 0;
+}
+
+/**
+ * Lock the user's TOTP factor once it has at least `maxFailures` wrong codes
+ * The count starts again afterwards. Returns false when a concurrent call
+ * already locked it.
+ */
+export async function lockTotpFactor(userId: number, maxFailures: number, lockedUntil: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const [result] = await db.update(totpFactors)
+    .set({ failedAttempts: 0, lockedUntil })
+    .where(and(eq(totpFactors.userId, userId), gte(totpFactors.failedAttempts, maxFailures)));
+  return result.affectedRows === 1;
+}
+
+export async function deleteTotpFactor(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.delete(totpFactors).where(eq(totpFactors.userId, userId));
+}
+
+// Currency queries
+export async function listCurrencies(enabledOnly = false) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.select()
+    .from(currencies)
+    .where(enabledOnly ? eq(currencies.enabled, true) : undefined)
+    .orderBy(currencies.kind, currencies.code);
+}
+
+export async function getCurrencyByCode(code: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.select().from(currencies).where(eq(currencies.code, code)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Add a currency together with the revenue wallet its fees are credited to
+ */
+export async function createCurrency(data: InsertCurrency) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.transaction(async tx => {
+    await tx.insert(currencies).values(data);
+    const [wallet] = await tx.insert(wallets).values({ userId: null, currencyCode: data.code, balance: "0", isActive: true });
+    await tx.update(currencies).set({ revenueWalletId: wallet.insertId }).where(eq(currencies.code, data.code));
+  });
+}
+
+export async function updateCurrency(code: string, data: Partial<Omit<InsertCurrency, "id" | "code">>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.update(currencies).set(data).where(eq(currencies.code, code));
+}
+
+/**
+ * Delete a currency and its revenue wallet
+ */
+export async function deleteCurrency(code: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.transaction(async tx => {
+    await tx.delete(wallets).where(and(eq(wallets.currencyCode, code), isNull(wallets.userId)));
+    await tx.delete(currencies).where(eq(currencies.code, code));
+  });
+}
+
+/**
+ * Count the wallets holding a currency
+ * A revenue wallet only counts once it has collected fees.
+ */
+export async function countWalletsForCurrency(currencyCode: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.select({ count: count() })
+    .from(wallets)
+    .where(and(eq(wallets.currencyCode, currencyCode), or(isNotNull(wallets.userId), ne(wallets.balance, "0"))));
+  return result[0]?.count ?? 0;
+}
+
+// Exchange rate queries
+export async function getExchangeRate(fromCurrency: string, toCurrency: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.select()
+    .from(exchangeRates)
+    .where(
+      and(
+        eq(exchangeRates.fromCurrency, fromCurrency),
+        eq(exchangeRates.toCurrency, toCurrency)
+      )
+    )
+    .limit(1);
+  
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function upsertExchangeRate(fromCurrency: string, toCurrency: string, rate: string, source: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const existing = await getExchangeRate(fromCurrency, toCurrency);
+  
+  if (existing) {
+    return db.update(exchangeRates)
+      .set({ rate, source, updatedAt: new Date() })
+      .where(
+        and(
+          eq(exchangeRates.fromCurrency, fromCurrency),
+          eq(exchangeRates.toCurrency, toCurrency)
+        )
+      );
+  } else {
+    return db.insert(exchangeRates).values({
+      fromCurrency,
+      toCurrency,
+      rate,
+      source,
+    });
+  }
+}
+
+// Exchange quote queries
+export async function createExchangeQuote(data: InsertExchangeQuote) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const [result] = await db.insert(exchangeQuotes).values(data);
+  return result.insertId;
+}
+
+/**
+ * Lock a quote row until the surrounding transaction ends
+ */
+export async function lockExchangeQuote(tx: DbTransaction, quoteId: number) {
+  const result = await tx.select().from(exchangeQuotes).where(eq(exchangeQuotes.id, quoteId)).limit(1).for("update");
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function markExchangeQuoteUsed(tx: DbTransaction, quoteId: number) {
+  return tx.update(exchangeQuotes).set({ usedAt: new Date() }).where(eq(exchangeQuotes.id, quoteId));
+}
+
+// Fee schedule queries
+/**
+ * Fee schedules, optionally only the enabled ones for a transaction type
+ */
+export async function listFeeSchedules(transactionType?: InsertFeeSchedule["transactionType"]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.select()
+    .from(feeSchedules)
+    .where(transactionType ? and(eq(feeSchedules.transactionType, transactionType), eq(feeSchedules.enabled, true)) : undefined)
+    .orderBy(feeSchedules.transactionType, feeSchedules.id);
+}
+
+export async function getFeeScheduleById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.select().from(feeSchedules).where(eq(feeSchedules.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function createFeeSchedule(data: InsertFeeSchedule) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const [result] = await db.insert(feeSchedules).values(data);
+  return result.insertId;
+}
+
+export async function updateFeeSchedule(id: number, data: Partial<Omit<InsertFeeSchedule, "id">>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.update(feeSchedules).set(data).where(eq(feeSchedules.id, id));
+}
+
+export async function deleteFeeSchedule(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.delete(feeSchedules).where(eq(feeSchedules.id, id));
 }
 
 // Notification queries
@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const now = new Date("2025-01-10T12:00:00Z");
+
+let transaction: Record<string, unknown>;
+let dispute: Record<string, unknown> | undefined;
+let hold: { id: number; status: string } | undefined;
+const posted: Array<{ transactionId: number | null; lines: unknown[]; options: unknown }> = [];
+const inserted: Array<Record<string, unknown>> = [];
+
+vi.mock("./db", () => ({
+  withTransaction: vi.fn(async (fn: (tx: object) => unknown) => fn({})),
+  lockTransaction: vi.fn(async () => ({ ...transaction })),
+  getActiveDispute: vi.fn(async () => (dispute && ["open", "responded"].includes(dispute.status as string) ? dispute : undefined)),
+  getWalletById: vi.fn(async (id: number) => ({ id, currencyCode: "USD" })),
+  insertTransaction: vi.fn(async (_tx: object, data: Record<string, unknown>) => {
+    inserted.push(data);
+    return 500 + inserted.length;
+  }),
+  insertTransactionEvent: vi.fn(),
+  addRefundedAmount: vi.fn(async (_tx: object, _id: number, amount: string) => {
+    transaction.refundedAmount = (Number(transaction.refundedAmount) + Number(amount)).toFixed(2);
+  }),
+  insertDispute: vi.fn(async (_tx: object, data: Record<string, unknown>) => {
+    dispute = { id: 9, status: "open", ...data };
+    return 9;
+  }),
+  lockDispute: vi.fn(async () => (dispute ? { ...dispute } : undefined)),
+  updateDispute: vi.fn(async (_tx: object, _id: number, changes: Record<string, unknown>) => {
+    dispute = { ...dispute, ...changes };
+  }),
+  lockHold: vi.fn(async () => hold),
+  settleHold: vi.fn(async (_tx: object, _id: number, status: string) => {
+    hold!.status = status;
+  }),
+  createNotification: vi.fn(),
+}));
+
+vi.mock("./ledger", async () => {
+  const actual = await vi.importActual<typeof import("./ledger")>("./ledger");
+  return {
+    ...actual,
+    postLedgerLines: vi.fn(async (_tx: object, transactionId: number | null, lines: unknown[], options: unknown) => {
+      posted.push({ transactionId, lines, options });
+    }),
+  };
+});
+
+vi.mock("./holds", () => ({
+  placeHold: vi.fn(async () => {
+    hold = { id: 77, status: "active" };
+    return 77;
+  }),
+  releaseHold: vi.fn(),
+}));
+
+vi.mock("./currencies", () => ({
+  requireCurrency: vi.fn(async (code: string) => ({ code, decimals: 2 })),
+}));
+
+const { refundTransfer, RefundError } = await import("./refunds");
+const { openDispute, resolveDispute, DisputeError } = await import("./disputes");
+
+describe("refunds and disputes", () => {
+  beforeEach(() => {
+    posted.length = 0;
+    inserted.length = 0;
+    dispute = undefined;
+    hold = undefined;
+    transaction = {
+      id: 1,
+      fromUserId: 7,
+      toUserId: 8,
+      fromWalletId: 10,
+      toWalletId: 20,
+      amount: "100.00000000",
+      refundedAmount: "0.00000000",
+      transactionType: "transfer",
+      status: "completed",
+      convertedAmount: null,
+      createdAt: new Date("2025-01-01T00:00:00Z"),
+    };
+  });
+
+  it("refunds in parts up to the original amount, payee to payer", async () => {
+    const first = await refundTransfer(8, 1, "30");
+    expect(first).toMatchObject({ amount: "30.00", currencyCode: "USD" });
+    expect(inserted[0]).toMatchObject({ fromWalletId: 20, toWalletId: 10, transactionType: "refund", refundOfId: 1 });
+    expect(posted[0].lines).toEqual([
+      expect.objectContaining({ walletId: 20, direction: "debit", amount: "30.00" }),
+      expect.objectContaining({ walletId: 10, direction: "credit", amount: "30.00" }),
+    ]);
+
+    await expect(refundTransfer(8, 1, "80")).rejects.toThrow("At most 70.00 USD can be refunded");
+    expect(await refundTransfer(8, 1)).toMatchObject({ amount: "70.00" });
+    await expect(refundTransfer(8, 1)).rejects.toThrow("already been refunded in full");
+  });
+
+  it("only lets the payee refund completed same-currency transfers", async () => {
+    await expect(refundTransfer(7, 1)).rejects.toThrow("Transaction not found");
+    transaction.convertedAmount = "90.00";
+    await expect(refundTransfer(8, 1)).rejects.toThrow(RefundError);
+  });
+
+  it("holds the disputed amount and refunds from the hold when the payer wins", async () => {
+    const opened = await openDispute(7, { transactionId: 1, reason: "not_received", description: "Never arrived", evidence: [] }, now);
+    expect(opened).toMatchObject({ amount: "100.00000000", held: true });
+    await expect(refundTransfer(8, 1)).rejects.toThrow(/disputed/);
+    await expect(
+      openDispute(7, { transactionId: 1, reason: "duplicate", description: "Again", evidence: [] }, now)
+    ).rejects.toThrow(DisputeError);
+
+    const resolved = await resolveDispute(1, { disputeId: 9, outcome: "refund", amount: "40" }, now);
+    expect(resolved).toMatchObject({ status: "resolved", resolution: "partial_refund", refundTransactionId: 501 });
+    expect(posted[0].options).toEqual({ captureHoldId: 77 });
+    expect(hold?.status).toBe("captured");
+  });
+
+  it("releases the hold when the payee wins", async () => {
+    await openDispute(7, { transactionId: 1, reason: "other", description: "Wrong amount", evidence: [] }, now);
+    const resolved = await resolveDispute(1, { disputeId: 9, outcome: "reject", note: "Delivered" }, now);
+
+    expect(resolved.resolution).toBe("rejected");
+    expect(hold?.status).toBe("released");
+    expect(posted).toHaveLength(0);
+    await expect(resolveDispute(1, { disputeId: 9, outcome: "refund" }, now)).rejects.toThrow("already resolved");
+  });
+});
@@ -0,0 +1,249 @@
+import { z } from "zod";
+import {
+  createNotification,
+  getActiveDispute,
+  getDisputeById,
+  getWalletById,
+  insertDispute,
+  lockDispute,
+  lockHold,
+  lockTransaction,
+  settleHold,
+  updateDispute,
+  withTransaction,
+  type DbTransaction,
+} from "./db";
+import type { Dispute } from "../drizzle/schema";
+import { InsufficientBalanceError } from "./ledger";
+import { placeHold } from "./holds";
+import { assertRefundable, postRefund, refundableAmount } from "./refunds";
+import { compareDecimals } from "@shared/money";
+
+/**
+ * Disputes
+ * The payer of a completed transfer can contest it. The disputed amount is
+ * held in the payee's wallet, the payee answers with their side, and an
+ * admin decides: a full or partial refund spends the hold, a rejection
+ * releases it. Either party's evidence is free-form notes and links.
+ */
+
+/** How long after a transfer its payer can dispute it */
+export const DISPUTE_WINDOW_MS = 60 * 24 * 60 * 60 * 1000;
+
+/** Dispute holds outlast any reasonable review; an admin should decide well before */
+export const DISPUTE_HOLD_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+
+export class DisputeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DisputeError";
+  }
+}
+
+export const evidenceSchema = z.array(z.string().trim().min(1).max(1000)).max(10);
+
+export const openDisputeSchema = z.object({
+  transactionId: z.number().int().positive(),
+  reason: z.enum(["not_received", "unauthorized", "not_as_described", "duplicate", "other"]),
+  description: z.string().trim().min(1).max(5000),
+  evidence: evidenceSchema.default([]),
+});
+
+export const resolveDisputeSchema = z.object({
+  disputeId: z.number().int().positive(),
+  /** Refund the payer (all of the disputed amount unless `amount` is given) or side with the payee */
+  outcome: z.enum(["refund", "reject"]),
+  amount: z.string().optional(),
+  note: z.string().trim().max(5000).optional(),
+});
+
+function notify(userId: number, subject: string, content: string) {
+  return createNotification({ userId, type: "transfer", subject, content });
+}
+
+/**
+ * Settle a dispute's hold if it is still active
+ */
+async function settleDisputeHold(tx: DbTransaction, holdId: number | null, status: "captured" | "released") {
+  if (!holdId) return;
+  const hold = await lockHold(tx, holdId);
+  if (hold?.status === "active") {
+    await settleHold(tx, hold.id, status);
+  }
+}
+
+/**
+ * Open a dispute on a transfer the user paid
+ * If the payee's available balance cannot cover the hold, the dispute is
+ * opened without one and a refund depends on their balance when resolved.
+ * @throws DisputeError or RefundError if the transfer cannot be disputed
+ */
+export async function openDispute(payerId: number, input: z.infer<typeof openDisputeSchema>, now = new Date()) {
+  const dispute = await withTransaction(async tx => {
+    const transaction = await lockTransaction(tx, input.transactionId);
+    if (!transaction || transaction.fromUserId !== payerId || !transaction.toUserId) {
+      throw new DisputeError("Transaction not found");
+    }
+    assertRefundable(transaction, "disputed");
+    if (now.getTime() - transaction.createdAt.getTime() > DISPUTE_WINDOW_MS) {
+      throw new DisputeError("Transfers can only be disputed within 60 days");
+    }
+    if (await getActiveDispute(tx, transaction.id)) {
+      throw new DisputeError("This transfer is already disputed");
+    }
+
+    const payeeWallet = await getWalletById(transaction.toWalletId!);
+    if (!payeeWallet) {
+      throw new DisputeError("The payee's wallet no longer exists");
+    }
+
+    const amount = refundableAmount(transaction);
+    let holdId: number | null = null;
+    try {
+      holdId = await placeHold(tx, {
+        walletId: payeeWallet.id,
+        userId: transaction.toUserId,
+        currencyCode: payeeWallet.currencyCode,
+        amount,
+        reason: `Dispute on transaction #${transaction.id}`,
+        expiresAt: new Date(now.getTime() + DISPUTE_HOLD_TTL_MS),
+      });
+    } catch (error) {
+      if (!(error instanceof InsufficientBalanceError)) throw error;
+    }
+
+    const id = await insertDispute(tx, {
+      transactionId: transaction.id,
+      openedBy: payerId,
+      respondentId: transaction.toUserId,
+      reason: input.reason,
+      description: input.description,
+      evidence: input.evidence,
+      amount,
+      holdId,
+    });
+    return { id, respondentId: transaction.toUserId, amount, held: holdId !== null };
+  });
+
+  await notify(
+    dispute.respondentId,
+    "A payment you received is disputed",
+    `Transaction #${input.transactionId} is disputed. Respond to dispute #${dispute.id} with your side.`
+  );
+  return dispute;
+}
+
+async function requireDispute(tx: DbTransaction, disputeId: number) {
+  const dispute = await lockDispute(tx, disputeId);
+  if (!dispute) {
+    throw new DisputeError("Dispute not found");
+  }
+  return dispute;
+}
+
+/**
+ * Give the payee's side of an open dispute
+ */
+export async function respondToDispute(
+  payeeId: number,
+  disputeId: number,
+  response: { response: string; evidence: string[] },
+  now = new Date()
+) {
+  const dispute = await withTransaction(async tx => {
+    const dispute = await requireDispute(tx, disputeId);
+    if (dispute.respondentId !== payeeId) {
+      throw new DisputeError("Dispute not found");
+    }
+    if (dispute.status !== "open") {
+      throw new DisputeError(`This dispute is already ${dispute.status}`);
+    }
+
+    await updateDispute(tx, dispute.id, {
+      status: "responded",
+      response: response.response,
+      responseEvidence: response.evidence,
+      respondedAt: now,
+    });
+    return dispute;
+  });
+
+  await notify(dispute.openedBy, "Your dispute was answered", `The payee responded to dispute #${dispute.id}. It is now with our team.`);
+}
+
+/**
+ * Drop a dispute the user opened; the payee's funds are released
+ */
+export async function withdrawDispute(payerId: number, disputeId: number) {
+  const dispute = await withTransaction(async tx => {
+    const dispute = await requireDispute(tx, disputeId);
+    if (dispute.openedBy !== payerId) {
+      throw new DisputeError("Dispute not found");
+    }
+    if (dispute.status !== "open" && dispute.status !== "responded") {
+      throw new DisputeError(`This dispute is already ${dispute.status}`);
+    }
+
+    await settleDisputeHold(tx, dispute.holdId, "released");
+    await updateDispute(tx, dispute.id, { status: "withdrawn" });
+    return dispute;
+  });
+
+  await notify(dispute.respondentId, "Dispute withdrawn", `Dispute #${dispute.id} was withdrawn and your funds released.`);
+}
+
+/**
+ * Decide a dispute
+ * A refund moves the money back from the payee to the payer, spending the
+ * dispute hold; a partial refund releases the rest of it. A rejection
+ * releases the hold and the transfer stands.
+ * @throws DisputeError, RefundError, MoneyError or InsufficientBalanceError
+ */
+export async function resolveDispute(adminId: number, input: z.infer<typeof resolveDisputeSchema>, now = new Date()) {
+  const resolved = await withTransaction(async tx => {
+    const dispute = await requireDispute(tx, input.disputeId);
+    if (dispute.status !== "open" && dispute.status !== "responded") {
+      throw new DisputeError(`This dispute is already ${dispute.status}`);
+    }
+
+    const changes: Partial<Dispute> = { status: "resolved", resolvedBy: adminId, resolvedAt: now, resolutionNote: input.note ?? null };
+    if (input.outcome === "reject") {
+      await settleDisputeHold(tx, dispute.holdId, "released");
+      changes.resolution = "rejected";
+    } else {
+      const transaction = await lockTransaction(tx, dispute.transactionId);
+      if (!transaction) {
+        throw new DisputeError("The disputed transaction no longer exists");
+      }
+      const refund = await postRefund(tx, transaction, input.amount ?? dispute.amount, {
+        description: `Refund for dispute #${dispute.id}`,
+        captureHoldId: dispute.holdId ?? undefined,
+      });
+      await settleDisputeHold(tx, dispute.holdId, "captured");
+      changes.resolution = compareDecimals(refund.amount, dispute.amount) < 0 ? "partial_refund" : "refund";
+      changes.refundTransactionId = refund.refundId;
+    }
+
+    await updateDispute(tx, dispute.id, changes);
+    return { ...dispute, ...changes };
+  });
+
+  const outcome =
+    resolved.resolution === "rejected"
+      ? "was decided in the payee's favour; the transfer stands"
+      : `was decided in the payer's favour and ${resolved.resolution === "refund" ? "fully" : "partly"} refunded`;
+  await notify(resolved.openedBy, "Dispute resolved", `Dispute #${resolved.id} ${outcome}.`);
+  await notify(resolved.respondentId, "Dispute resolved", `Dispute #${resolved.id} ${outcome}.`);
+  return resolved;
+}
+
+/**
+ * Get a dispute the user is a party to
+ */
+export async function requireOwnDispute(userId: number, disputeId: number) {
+  const dispute = await getDisputeById(disputeId);
+  if (!dispute || (dispute.openedBy !== userId && dispute.respondentId !== userId)) {
+    throw new DisputeError("Dispute not found");
+  }
+  return dispute;
+}
@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const rates = new Map<string, string>();
+const auditLogs: Array<Record<string, unknown>> = [];
+
+vi.mock("./db", async () => {
+  const actual = await vi.importActual<typeof import("./db")>("./db");
+  return {
+    ...actual,
+    getCurrencyByCode: vi.fn(async (code: string) =>
+      ["USD", "EUR"].includes(code) ? { code, decimals: 2, enabled: true } : undefined
+    ),
+    getExchangeRate: vi.fn(async (from: string, to: string) => {
+      const rate = rates.get(`${from}:${to}`);
+      return rate ? { rate } : undefined;
+    }),
+    upsertExchangeRate: vi.fn(async (from: string, to: string, rate: string) => {
+      rates.set(`${from}:${to}`, rate);
+    }),
+    createAuditLog: vi.fn(async (data: Record<string, unknown>) => {
+      auditLogs.push(data);
+    }),
+  };
+});
+
+const { appRouter } = await import("./routers");
+import { NOT_ADMIN_ERR_MSG } from "../shared/const";
+import type { TrpcContext } from "./_core/context";
+
+function createContext(role: "user" | "admin" | null): TrpcContext {
+  return {
+    user: role
+      ? {
+          id: 1,
+          openId: "sample-user",
+          email: "sample@example.com",
+          handle: null,
+          name: "Sample User",
+          loginMethod: "manus",
+          role,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          lastSignedIn: new Date(),
+        }
+      : null,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+const update = { from: "USD", to: "EUR", rate: "0.92" };
+
+describe("exchange.updateRate", () => {
+  beforeEach(() => {
+    rates.clear();
+    rates.set("USD:EUR", "0.90");
+    auditLogs.length = 0;
+  });
+
+  it("is closed to anonymous callers and non-admins", async () => {
+    await expect(appRouter.createCaller(createContext(null)).exchange.updateRate(update)).rejects.toThrow(NOT_ADMIN_ERR_MSG);
+    await expect(appRouter.createCaller(createContext("user")).exchange.updateRate(update)).rejects.toThrow(NOT_ADMIN_ERR_MSG);
+    expect(rates.get("USD:EUR")).toBe("0.90");
+    expect(auditLogs).toHaveLength(0);
+  });
+
+  it("lets an admin set a rate and audits the change", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+
+    await expect(caller.exchange.updateRate(update)).resolves.toMatchObject({ success: true });
+    expect(rates.get("USD:EUR")).toBe("0.92");
+    expect(auditLogs).toEqual([
+      {
+        adminId: 1,
+        action: "exchange_rate_updated",
+        details: { from: "USD", to: "EUR", rate: "0.92", previousRate: "0.90", source: "manual" },
+      },
+    ]);
+  });
+
+  it("rejects rates for unknown currencies", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+
+    await expect(caller.exchange.updateRate({ ...update, to: "XYZ" })).resolves.toEqual({
+      success: false,
+      error: "Unsupported currency: XYZ",
+    });
+    expect(auditLogs).toHaveLength(0);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", () => ({
+  listFeeSchedules: vi.fn(async () => []),
+  getCurrencyByCode: vi.fn(async (code: string) => ({ code, decimals: code === "JPY" ? 0 : 2, enabled: true })),
+  createFeeSchedule: vi.fn(async () => 1),
+  createAuditLog: vi.fn(),
+}));
+
+const { addFeeSchedule, assertQuotedFee, computeFee, FeeError, matchFeeSchedule } = await import("./fees");
+
+const usd = { code: "USD", decimals: 2 };
+const terms = { flatAmount: null, rate: null, tiers: null, minFee: null, maxFee: null };
+
+describe("fee engine", () => {
+  it("charges flat, percentage and tiered fees, rounding up and within caps", () => {
+    expect(computeFee({ ...terms, feeType: "flat", flatAmount: "0.25000000" }, "10.00", usd)).toBe("0.25");
+    expect(computeFee({ ...terms, feeType: "percentage", rate: "0.01500000" }, "10.01", usd)).toBe("0.16");
+
+    const capped = { ...terms, feeType: "percentage" as const, rate: "0.01", minFee: "0.50", maxFee: "5.00" };
+    expect(computeFee(capped, "10.00", usd)).toBe("0.50");
+    expect(computeFee(capped, "100.00", usd)).toBe("1.00");
+    expect(computeFee(capped, "10000.00", usd)).toBe("5.00");
+
+    const tiered = {
+      ...terms,
+      feeType: "tiered" as const,
+      tiers: [
+        { upTo: "100.00", flatAmount: "1.00", rate: "0" },
+        { upTo: "1000.00", flatAmount: "0", rate: "0.005" },
+        { upTo: null, flatAmount: "2.00", rate: "0.001" },
+      ],
+    };
+    expect(computeFee(tiered, "100.00", usd)).toBe("1.00");
+    expect(computeFee(tiered, "100.01", usd)).toBe("0.51");
+    expect(computeFee(tiered, "5000.00", usd)).toBe("7.00");
+  });
+
+  it("prefers a currency match over a tier match over a catch-all", () => {
+    const schedules = [
+      { id: 1, currencyCode: null, userTier: null, enabled: true },
+      { id: 2, currencyCode: null, userTier: "gold", enabled: true },
+      { id: 3, currencyCode: "USD", userTier: null, enabled: true },
+      { id: 4, currencyCode: "USD", userTier: "gold", enabled: false },
+    ];
+    expect(matchFeeSchedule(schedules, "USD", "gold")?.id).toBe(3);
+    expect(matchFeeSchedule(schedules, "EUR", "gold")?.id).toBe(2);
+    expect(matchFeeSchedule(schedules, "EUR", "standard")?.id).toBe(1);
+    expect(matchFeeSchedule(schedules.slice(1), "EUR", "standard")).toBeUndefined();
+  });
+
+  it("accepts only the fee that was quoted", () => {
+    expect(() => assertQuotedFee("0.50", "0.50000000")).not.toThrow();
+    expect(() => assertQuotedFee("0.50", "0.75")).toThrow("The fee is now 0.75");
+    expect(() => assertQuotedFee("free", "0")).toThrow(FeeError);
+  });
+
+  it("rejects schedules whose terms do not add up", async () => {
+    const base = {
+      transactionType: "transfer" as const,
+      currencyCode: null,
+      userTier: null,
+      flatAmount: null,
+      rate: null,
+      tiers: null,
+      minFee: null,
+      maxFee: null,
+      enabled: true,
+    };
+
+    await expect(addFeeSchedule({ ...base, feeType: "flat", flatAmount: "1" }, 1)).rejects.toThrow(/only charge a rate/);
+    await expect(addFeeSchedule({ ...base, feeType: "percentage", rate: "1.5" }, 1)).rejects.toThrow(FeeError);
+    await expect(
+      addFeeSchedule(
+        {
+          ...base,
+          currencyCode: "USD",
+          feeType: "tiered",
+          tiers: [
+            { upTo: "100", flatAmount: "1", rate: "0" },
+            { upTo: "50", flatAmount: "1", rate: "0" },
+          ],
+        },
+        1
+      )
+    ).rejects.toThrow(FeeError);
+    await expect(addFeeSchedule({ ...base, currencyCode: "USD", feeType: "flat", flatAmount: "0.5" }, 1)).resolves.toBe(1);
+  });
+});
@@ -0,0 +1,332 @@
+import { z } from "zod";
+import {
+  createAuditLog,
+  createFeeSchedule,
+  deleteFeeSchedule,
+  getFeeScheduleById,
+  getUserById,
+  listFeeSchedules,
+  setUserFeeTier,
+  updateFeeSchedule,
+} from "./db";
+import type { FeeSchedule } from "../drizzle/schema";
+import { currencyCodeSchema, requireCurrency } from "./currencies";
+import {
+  addDecimals,
+  compareDecimals,
+  formatAmount,
+  isDecimal,
+  MAX_SCALE,
+  multiplyDecimals,
+  parseAmount,
+  roundDecimal,
+  type CurrencyPrecision,
+} from "@shared/money";
+
+/**
+ * Fee engine
+ * Admins keep fee schedules per transaction type, optionally narrowed to a
+ * currency and a user fee tier. The most specific enabled schedule prices
+ * a transaction; without one it is free. Fees are charged on top of the
+ * amount and credited to the currency's revenue wallet.
+ */
+
+export const DEFAULT_FEE_TIER = "standard";
+
+export class FeeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeeError";
+  }
+}
+
+export const feeTransactionTypeSchema = z.enum(["transfer", "withdrawal", "exchange"]);
+
+export type FeeTransactionType = z.infer<typeof feeTransactionTypeSchema>;
+
+export const feeTierSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9_-]{1,32}$/, "Fee tiers are 1-32 letters, digits, dashes or underscores");
+
+/** A bracket of a tiered schedule: amounts up to `upTo` pay `flatAmount` plus `rate` of the amount */
+export type FeeBracket = { upTo: string | null; flatAmount: string; rate: string };
+
+const bracketSchema = z.object({
+  upTo: z.string().nullable(),
+  flatAmount: z.string().default("0"),
+  rate: z.string().default("0"),
+});
+
+const feeScheduleFields = {
+  transactionType: feeTransactionTypeSchema,
+  currencyCode: currencyCodeSchema.nullable(),
+  userTier: feeTierSchema.nullable(),
+  feeType: z.enum(["flat", "percentage", "tiered"]),
+  flatAmount: z.string().nullable(),
+  rate: z.string().nullable(),
+  tiers: z.array(bracketSchema).min(1).max(20).nullable(),
+  minFee: z.string().nullable(),
+  maxFee: z.string().nullable(),
+  enabled: z.boolean(),
+};
+
+export const feeScheduleSchema = z.object({
+  ...feeScheduleFields,
+  currencyCode: feeScheduleFields.currencyCode.default(null),
+  userTier: feeScheduleFields.userTier.default(null),
+  flatAmount: feeScheduleFields.flatAmount.default(null),
+  rate: feeScheduleFields.rate.default(null),
+  tiers: feeScheduleFields.tiers.default(null),
+  minFee: feeScheduleFields.minFee.default(null),
+  maxFee: feeScheduleFields.maxFee.default(null),
+  enabled: feeScheduleFields.enabled.default(true),
+});
+
+export const feeScheduleUpdateSchema = z.object({
+  id: z.number().int().positive(),
+  changes: z.object(feeScheduleFields).partial(),
+});
+
+type FeeScheduleInput = z.infer<typeof feeScheduleSchema>;
+
+type FeeTerms = Pick<FeeSchedule, "feeType" | "flatAmount" | "rate" | "tiers" | "minFee" | "maxFee">;
+
+function parseRate(rate: string) {
+  if (!isDecimal(rate) || compareDecimals(rate, "0") < 0 || compareDecimals(rate, "1") > 0) {
+    throw new FeeError("Rates are fractions of the amount between 0 and 1");
+  }
+  if (compareDecimals(roundDecimal(rate, MAX_SCALE), rate) !== 0) {
+    throw new FeeError(`Rates support at most ${MAX_SCALE} decimal places`);
+  }
+  return roundDecimal(rate, MAX_SCALE);
+}
+
+/**
+ * Check a schedule's terms and normalize its amounts to its currency
+ * @throws FeeError if the terms are incomplete or inconsistent, or MoneyError for malformed amounts
+ */
+async function normalizeFeeSchedule(schedule: FeeScheduleInput): Promise<FeeScheduleInput> {
+  const hasAmounts =
+    schedule.flatAmount !== null || schedule.minFee !== null || schedule.maxFee !== null || schedule.feeType === "tiered";
+  if (schedule.currencyCode === null && hasAmounts) {
+    throw new FeeError("Schedules for any currency can only charge a rate; set a currency for flat, tiered or capped fees");
+  }
+  const currency = schedule.currencyCode ? await requireCurrency(schedule.currencyCode, { allowDisabled: true }) : undefined;
+  const amount = (value: string | null) => (value === null || !currency ? value : parseAmount(value, currency, { allowZero: true }));
+
+  if (schedule.feeType === "flat" && schedule.flatAmount === null) {
+    throw new FeeError("Flat fees need a flatAmount");
+  }
+  if (schedule.feeType === "percentage" && schedule.rate === null) {
+    throw new FeeError("Percentage fees need a rate");
+  }
+
+  let tiers: FeeBracket[] | null = null;
+  if (schedule.feeType === "tiered") {
+    if (!schedule.tiers) {
+      throw new FeeError("Tiered fees need tiers");
+    }
+    tiers = schedule.tiers.map(bracket => ({
+      upTo: amount(bracket.upTo),
+      flatAmount: amount(bracket.flatAmount)!,
+      rate: parseRate(bracket.rate),
+    }));
+    tiers.forEach((bracket, index) => {
+      const last = index === tiers!.length - 1;
+      if ((bracket.upTo === null) !== last) {
+        throw new FeeError("Every tier but the last needs an upTo, and the last must cover all larger amounts");
+      }
+      const previous = tiers![index - 1]?.upTo;
+      if (bracket.upTo !== null && previous && compareDecimals(bracket.upTo, previous) <= 0) {
+        throw new FeeError("Tiers must be in ascending order of upTo");
+      }
+    });
+  }
+
+  const normalized = {
+    ...schedule,
+    flatAmount: schedule.feeType === "flat" ? amount(schedule.flatAmount) : null,
+    rate: schedule.feeType === "percentage" ? parseRate(schedule.rate!) : null,
+    tiers,
+    minFee: amount(schedule.minFee),
+    maxFee: amount(schedule.maxFee),
+  };
+  if (normalized.minFee !== null && normalized.maxFee !== null && compareDecimals(normalized.minFee, normalized.maxFee) > 0) {
+    throw new FeeError("minFee cannot be more than maxFee");
+  }
+  return normalized;
+}
+
+/**
+ * Price a transaction of `amount` under a schedule
+ * The fee rounds up to the currency's precision and is then held between
+ * the schedule's minimum and maximum.
+ */
+export function computeFee(schedule: FeeTerms, amount: string, currency: CurrencyPrecision) {
+  const scale = Math.min(currency.decimals, MAX_SCALE);
+
+  let fee: string;
+  if (schedule.feeType === "flat") {
+    fee = schedule.flatAmount ?? "0";
+  } else if (schedule.feeType === "percentage") {
+    fee = multiplyDecimals(amount, schedule.rate ?? "0", scale, "up");
+  } else {
+    const brackets = (schedule.tiers as FeeBracket[] | null) ?? [];
+    const bracket = brackets.find(tier => tier.upTo === null || compareDecimals(amount, tier.upTo) <= 0);
+    fee = bracket ? addDecimals(bracket.flatAmount, multiplyDecimals(amount, bracket.rate, scale, "up")) : "0";
+  }
+
+  if (schedule.minFee !== null && compareDecimals(fee, schedule.minFee) < 0) {
+    fee = schedule.minFee;
+  }
+  if (schedule.maxFee !== null && compareDecimals(fee, schedule.maxFee) > 0) {
+    fee = schedule.maxFee;
+  }
+  return roundDecimal(fee, scale, "up");
+}
+
+/**
+ * Pick the schedule that applies to a currency and fee tier
+ * A currency match outranks a tier match, which outranks a catch-all.
+ */
+export function matchFeeSchedule<T extends Pick<FeeSchedule, "currencyCode" | "userTier" | "enabled">>(
+  schedules: T[],
+  currencyCode: string,
+  feeTier: string
+) {
+  let best: T | undefined;
+  let bestRank = -1;
+  for (const schedule of schedules) {
+    if (!schedule.enabled) continue;
+    if (schedule.currencyCode !== null && schedule.currencyCode !== currencyCode) continue;
+    if (schedule.userTier !== null && schedule.userTier !== feeTier) continue;
+
+    const rank = (schedule.currencyCode !== null ? 2 : 0) + (schedule.userTier !== null ? 1 : 0);
+    if (rank > bestRank) {
+      best = schedule;
+      bestRank = rank;
+    }
+  }
+  return best;
+}
+
+/**
+ * Work out the fee a user pays on a transaction
+ * @param amount Already validated at the currency's precision
+ * @returns The fee, the amount plus fee, and the schedule applied (null when free)
+ */
+export async function quoteFee(
+  userId: number,
+  transactionType: FeeTransactionType,
+  currency: CurrencyPrecision,
+  amount: string
+) {
+  const user = await getUserById(userId);
+  const schedule = matchFeeSchedule(
+    await listFeeSchedules(transactionType),
+    currency.code,
+    user?.feeTier ?? DEFAULT_FEE_TIER
+  );
+
+  const fee = schedule ? computeFee(schedule, amount, currency) : formatAmount("0", currency);
+  return { fee, total: addDecimals(amount, fee), feeScheduleId: schedule?.id ?? null };
+}
+
+/**
+ * Check that the fee about to be charged is the one the user was quoted
+ * @throws FeeError if the fee has changed since
+ */
+export function assertQuotedFee(quotedFee: string, fee: string) {
+  if (!isDecimal(quotedFee) || compareDecimals(quotedFee, fee) !== 0) {
+    throw new FeeError(`The fee is now ${fee}; review the new fee and try again`);
+  }
+}
+
+async function assertNoOverlap(schedule: FeeScheduleInput, exceptId?: number) {
+  const existing = (await listFeeSchedules()).find(
+    other =>
+      other.id !== exceptId &&
+      other.transactionType === schedule.transactionType &&
+      other.currencyCode === schedule.currencyCode &&
+      other.userTier === schedule.userTier
+  );
+  if (existing) {
+    throw new FeeError(`Fee schedule ${existing.id} already covers these transactions; edit it instead`);
+  }
+}
+
+/**
+ * Add a fee schedule
+ * @throws FeeError if the terms are invalid or another schedule has the same scope
+ */
+export async function addFeeSchedule(input: FeeScheduleInput, actorId: number) {
+  const schedule = await normalizeFeeSchedule(input);
+  await assertNoOverlap(schedule);
+
+  const id = await createFeeSchedule({ ...schedule, createdBy: actorId });
+  await createAuditLog({
+    adminId: actorId,
+    action: "fee_schedule_created",
+    details: { id, ...schedule },
+  });
+  return id;
+}
+
+/**
+ * Change a fee schedule; the changed schedule is checked as a whole
+ */
+export async function editFeeSchedule(input: z.infer<typeof feeScheduleUpdateSchema>, actorId: number) {
+  const current = await getFeeScheduleById(input.id);
+  if (!current) {
+    throw new FeeError("Fee schedule not found");
+  }
+
+  const schedule = await normalizeFeeSchedule({
+    ...current,
+    tiers: current.tiers as FeeBracket[] | null,
+    ...input.changes,
+  });
+  await assertNoOverlap(schedule, current.id);
+
+  const { transactionType, currencyCode, userTier, feeType, flatAmount, rate, tiers, minFee, maxFee, enabled } = schedule;
+  await updateFeeSchedule(current.id, { transactionType, currencyCode, userTier, feeType, flatAmount, rate, tiers, minFee, maxFee, enabled });
+  await createAuditLog({
+    adminId: actorId,
+    action: "fee_schedule_updated",
+    details: { id: current.id, changes: input.changes },
+  });
+}
+
+export async function removeFeeSchedule(id: number, actorId: number) {
+  const schedule = await getFeeScheduleById(id);
+  if (!schedule) {
+    throw new FeeError("Fee schedule not found");
+  }
+
+  await deleteFeeSchedule(schedule.id);
+  await createAuditLog({
+    adminId: actorId,
+    action: "fee_schedule_deleted",
+    details: schedule,
+  });
+}
+
+/**
+ * Put a user on a fee tier
+ */
+export async function assignFeeTier(userId: number, feeTier: string, actorId: number) {
+  const user = await getUserById(userId);
+  if (!user) {
+    throw new FeeError("User not found");
+  }
+
+  await setUserFeeTier(user.id, feeTier);
+  await createAuditLog({
+    adminId: actorId,
+    action: "fee_tier_changed",
+    targetUserId: user.id,
+    details: { from: user.feeTier, to: feeTier },
+  });
+}
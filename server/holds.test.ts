@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const now = new Date("2025-01-01T12:00:00Z");
+
+type FakeHold = {
+  id: number;
+  walletId: number;
+  amount: string;
+  status: string;
+  expiresAt: Date;
+  transactionId?: number | null;
+};
+
+const balances = new Map<number, string>();
+const holdRows: FakeHold[] = [];
+let transaction: { id: number; status: string };
+
+const activeHolds = (walletId: number, at: Date, excludeHoldId?: number) =>
+  holdRows.filter(
+    hold => hold.walletId === walletId && hold.status === "active" && hold.expiresAt > at && hold.id !== excludeHoldId
+  );
+
+vi.mock("./db", () => ({
+  withTransaction: vi.fn(async (fn: (tx: object) => Promise<unknown>) => fn({})),
+  lockWallet: vi.fn(async (_tx: object, walletId: number) =>
+    balances.has(walletId) ? { id: walletId, balance: balances.get(walletId)! } : undefined
+  ),
+  getHeldAmount: vi.fn(async (_tx: object, walletId: number, at: Date, excludeHoldId?: number) =>
+    activeHolds(walletId, at, excludeHoldId).reduce((sum, hold) => sum + Number(hold.amount), 0).toFixed(8)
+  ),
+  getHeldAmounts: vi.fn(async (walletIds: number[], at: Date) =>
+    walletIds
+      .filter(walletId => activeHolds(walletId, at).length > 0)
+      .map(walletId => ({
+        walletId,
+        total: activeHolds(walletId, at).reduce((sum, hold) => sum + Number(hold.amount), 0).toFixed(8),
+      }))
+  ),
+  insertHold: vi.fn(async (_tx: object, data: Omit<FakeHold, "id" | "status">) => {
+    holdRows.push({ ...data, id: holdRows.length + 1, status: "active" });
+    return holdRows.length;
+  }),
+  lockHold: vi.fn(async (_tx: object, id: number) => holdRows.find(hold => hold.id === id)),
+  settleHold: vi.fn(async (_tx: object, id: number, status: string) => {
+    holdRows.find(hold => hold.id === id)!.status = status;
+  }),
+  lockTransaction: vi.fn(async () => ({ ...transaction })),
+  updateTransactionStatus: vi.fn(async (_tx: object, _id: number, changes: { status: string }) => {
+    transaction.status = changes.status;
+  }),
+  insertTransactionEvent: vi.fn(),
+  insertLedgerEntries: vi.fn(),
+  adjustWalletBalance: vi.fn(),
+}));
+
+const { HoldError, placeHold, releaseHold, withAvailableBalances } = await import("./holds");
+const { InsufficientBalanceError, postLedgerLines, withdrawalLines } = await import("./ledger");
+
+const tx = {} as Parameters<typeof placeHold>[0];
+const hold = (walletId: number, amount: string, expiresAt = new Date(Date.now() + 60_000)) =>
+  placeHold(tx, { walletId, userId: 1, currencyCode: "BTC", amount, expiresAt });
+
+describe("authorization holds", () => {
+  beforeEach(() => {
+    balances.clear();
+    holdRows.length = 0;
+    balances.set(1, "1.00000000");
+    transaction = { id: 5, status: "pending" };
+  });
+
+  it("reserves funds against the available balance only", async () => {
+    await hold(1, "0.6");
+    await expect(hold(1, "0.5")).rejects.toBeInstanceOf(InsufficientBalanceError);
+    await expect(hold(1, "0.4")).resolves.toBe(2);
+
+    const [wallet] = await withAvailableBalances([{ id: 1, balance: "1.00000000" } as never], new Date());
+    expect(wallet).toMatchObject({ ledgerBalance: "1.00000000", availableBalance: "0.00000000" });
+  });
+
+  it("ignores expired holds", async () => {
+    await hold(1, "0.9", new Date(now.getTime() - 1000));
+    await expect(hold(1, "0.9")).resolves.toBe(2);
+  });
+
+  it("blocks postings that would spend held funds, except the hold being captured", async () => {
+    const holdId = await hold(1, "0.7");
+
+    await expect(postLedgerLines(tx, 1, withdrawalLines(1, "BTC", "0.5"))).rejects.toBeInstanceOf(
+      InsufficientBalanceError
+    );
+    await expect(postLedgerLines(tx, 1, withdrawalLines(1, "BTC", "0.7"), { captureHoldId: holdId })).resolves.toBeUndefined();
+  });
+
+  it("only lets a user cancel a held transaction that is still pending", async () => {
+    const holdId = await placeHold(tx, {
+      walletId: 1,
+      userId: 1,
+      currencyCode: "BTC",
+      amount: "0.5",
+      expiresAt: new Date(Date.now() + 60_000),
+      transactionId: 5,
+    });
+    transaction.status = "processing";
+
+    await expect(releaseHold(holdId, { actorId: 1, reason: "cancelled_by_user" })).rejects.toBeInstanceOf(HoldError);
+    expect(holdRows[0].status).toBe("active");
+
+    // An admin can still call off a withdrawal being processed
+    await releaseHold(holdId, { actorId: 9 });
+    expect(holdRows[0].status).toBe("released");
+    expect(transaction.status).toBe("cancelled");
+  });
+});
@@ -0,0 +1,199 @@
+import {
+  getHeldAmount,
+  getHeldAmounts,
+  getTransactionById,
+  insertHold,
+  lockHold,
+  lockLapsedHolds,
+  lockTransaction,
+  lockWallet,
+  settleHold,
+  withTransaction,
+  type DbTransaction,
+} from "./db";
+import type { InsertTransaction, Wallet } from "../drizzle/schema";
+import { feeLines, InsufficientBalanceError, LedgerError, postLedgerLines, withdrawalLines } from "./ledger";
+import { recordTransaction, transitionTransaction, type TransactionEventReason } from "./transactionStates";
+import { requireCurrency } from "./currencies";
+import { addDecimals, compareDecimals, subtractDecimals } from "@shared/money";
+
+/**
+ * Authorization holds
+ * A hold reserves funds for a pending operation: it lowers the wallet's
+ * available balance but leaves the ledger untouched. Capturing a hold posts
+ * its transaction to the ledger; releasing or letting it expire frees the
+ * funds and closes the transaction.
+ */
+
+/** How long a pending withdrawal keeps its funds reserved */
+export const WITHDRAWAL_HOLD_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class HoldError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HoldError";
+  }
+}
+
+type HoldRequest = {
+  walletId: number;
+  userId: number;
+  currencyCode: string;
+  amount: string;
+  reason?: string;
+  expiresAt: Date;
+};
+
+/**
+ * Reserve funds in a wallet; must run inside a database transaction
+ * The wallet row is locked, so the check cannot race postings or other holds.
+ * @throws InsufficientBalanceError if the available balance is too low
+ */
+export async function placeHold(tx: DbTransaction, request: HoldRequest & { transactionId?: number }) {
+  const wallet = await lockWallet(tx, request.walletId);
+  if (!wallet) {
+    throw new LedgerError(`Wallet ${request.walletId} not found`);
+  }
+
+  const held = await getHeldAmount(tx, wallet.id, new Date());
+  if (compareDecimals(subtractDecimals(wallet.balance, held), request.amount) < 0) {
+    throw new InsufficientBalanceError(wallet.id);
+  }
+
+  return insertHold(tx, { ...request, transactionId: request.transactionId ?? null });
+}
+
+/**
+ * Record a pending transaction and hold its amount plus fee
+ */
+export async function createHeldTransaction(data: InsertTransaction, hold: Omit<HoldRequest, "amount">) {
+  const amount = addDecimals(data.amount, data.fee ?? "0");
+
+  return withTransaction(async tx => {
+    const transactionId = await recordTransaction(tx, { ...data, status: "pending" });
+    const holdId = await placeHold(tx, { ...hold, amount, transactionId });
+    return { transactionId, holdId };
+  });
+}
+
+async function lockActiveHold(tx: DbTransaction, holdId: number) {
+  const hold = await lockHold(tx, holdId);
+  if (!hold) {
+    throw new HoldError("Hold not found");
+  }
+  if (hold.status !== "active") {
+    throw new HoldError(`Hold is already ${hold.status}`);
+  }
+  return hold;
+}
+
+/**
+ * Mark a held withdrawal as being worked on, e.g. once it is broadcast
+ * @throws HoldError if the transaction is not a withdrawal, or
+ *   TransactionStateError if it is no longer pending
+ */
+export async function submitWithdrawal(transactionId: number, actorId: number, note?: string) {
+  const transaction = await getTransactionById(transactionId);
+  if (!transaction || transaction.transactionType !== "withdrawal") {
+    throw new HoldError("Only pending withdrawals can be submitted");
+  }
+
+  return withTransaction(tx => transitionTransaction(tx, transaction.id, "processing", { actorId, reason: "submitted", note }));
+}
+
+/**
+ * Spend a hold: post its transaction to the ledger and complete it
+ * A withdrawal still pending is moved through processing first.
+ */
+export async function captureHold(holdId: number, actorId: number | null = null) {
+  return withTransaction(async tx => {
+    const hold = await lockActiveHold(tx, holdId);
+    if (hold.expiresAt <= new Date()) {
+      throw new HoldError("Hold has expired");
+    }
+
+    const transaction = hold.transactionId ? await getTransactionById(hold.transactionId) : undefined;
+    if (!transaction || transaction.transactionType !== "withdrawal") {
+      throw new HoldError("Only holds for pending withdrawals can be captured");
+    }
+
+    const currency = await requireCurrency(hold.currencyCode, { allowDisabled: true });
+    const lines = [
+      ...withdrawalLines(hold.walletId, hold.currencyCode, transaction.amount),
+      ...feeLines(hold.walletId, currency, transaction.fee ?? "0"),
+    ];
+    await postLedgerLines(tx, transaction.id, lines, { captureHoldId: hold.id });
+    await settleHold(tx, hold.id, "captured");
+    if (transaction.status === "pending") {
+      await transitionTransaction(tx, transaction.id, "processing", { actorId, reason: "submitted" });
+    }
+    await transitionTransaction(tx, transaction.id, "completed", { actorId, reason: "hold_captured" });
+    return hold;
+  });
+}
+
+/**
+ * Free a hold's funds and cancel its transaction
+ * A user cancelling their own transaction can only do so while it is still
+ * pending; the transaction is locked so this cannot race its submission.
+ * @param context Who released it and why; defaults to a release with no recorded actor
+ */
+export async function releaseHold(
+  holdId: number,
+  context: { actorId?: number | null; reason?: TransactionEventReason } = {}
+) {
+  return withTransaction(async tx => {
+    const hold = await lockActiveHold(tx, holdId);
+    if (hold.transactionId) {
+      const transaction = await lockTransaction(tx, hold.transactionId);
+      if (context.reason === "cancelled_by_user" && transaction?.status !== "pending") {
+        throw new HoldError(`Only pending transactions can be cancelled; this one is ${transaction?.status}`);
+      }
+    }
+
+    await settleHold(tx, hold.id, "released");
+    if (hold.transactionId) {
+      await transitionTransaction(tx, hold.transactionId, "cancelled", {
+        actorId: context.actorId ?? null,
+        reason: context.reason ?? "hold_released",
+      });
+    }
+    return hold;
+  });
+}
+
+/**
+ * Mark holds past their expiry as expired and fail their transactions
+ * Lapsed holds already stop counting against the available balance; this
+ * only settles their records.
+ * @returns Number of holds expired
+ */
+export async function expireHolds(now = new Date()) {
+  return withTransaction(async tx => {
+    const lapsed = await lockLapsedHolds(tx, now);
+    for (const hold of lapsed) {
+      await settleHold(tx, hold.id, "expired");
+      if (hold.transactionId) {
+        await transitionTransaction(tx, hold.transactionId, "failed", { reason: "hold_expired" }, now);
+      }
+    }
+    return lapsed.length;
+  });
+}
+
+/**
+ * Add ledger and available balances to wallets
+ * `ledgerBalance` is the posted balance; `availableBalance` subtracts
+ * active holds.
+ */
+export async function withAvailableBalances<T extends Wallet>(wallets: T[], now = new Date()) {
+  const held = new Map(
+    (await getHeldAmounts(wallets.map(wallet => wallet.id), now)).map(row => [row.walletId, row.total])
+  );
+
+  return wallets.map(wallet => ({
+    ...wallet,
+    ledgerBalance: wallet.balance,
+    availableBalance: subtractDecimals(wallet.balance, held.get(wallet.id) ?? "0"),
+  }));
+}
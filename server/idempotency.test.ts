@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { IdempotencyKey } from "../drizzle/schema";
+
+const rows = new Map<string, IdempotencyKey>();
+let nextId = 1;
+
+const findRow = (id: number) => Array.from(rows.values()).find(row => row.id === id);
+
+// Stands in for the transaction that posts a mutation's money movement
+let commitHook: ((tx: object) => Promise<void>) | undefined;
+const post = async () => {
+  const hook = commitHook;
+  commitHook = undefined;
+  await hook?.({});
+};
+
+vi.mock("./db", () => ({
+  claimIdempotencyKey: vi.fn(async (data: { userId: number; key: string; procedure: string; requestHash: string }) => {
+    const mapKey = `${data.userId}:${data.key}`;
+    if (rows.has(mapKey)) return null;
+    const row = { ...data, id: nextId++, status: "pending", response: null, createdAt: new Date(), completedAt: null };
+    rows.set(mapKey, row as IdempotencyKey);
+    return row.id;
+  }),
+  reclaimIdempotencyKey: vi.fn(async (id: number, now: Date, lockedUntil: Date) => {
+    const row = findRow(id);
+    if (row?.status !== "pending" || (row.lockedUntil && row.lockedUntil > now)) return false;
+    row.lockedUntil = lockedUntil;
+    return true;
+  }),
+  commitIdempotencyKey: vi.fn(async (_tx: object, id: number, response: unknown) => {
+    const row = findRow(id);
+    if (row?.status !== "pending") return false;
+    Object.assign(row, { status: "completed", response });
+    return true;
+  }),
+  withCommitHook: vi.fn(async (hook: (tx: object) => Promise<void>, fn: () => Promise<unknown>) => {
+    commitHook = hook;
+    try {
+      return await fn();
+    } finally {
+      commitHook = undefined;
+    }
+  }),
+  getIdempotencyKey: vi.fn(async (userId: number, key: string) => rows.get(`${userId}:${key}`)),
+  completeIdempotencyKey: vi.fn(async (id: number, response: unknown) => {
+    rows.forEach(row => {
+      if (row.id === id) Object.assign(row, { status: "completed", response });
+    });
+  }),
+  releaseIdempotencyKey: vi.fn(async (id: number) => {
+    rows.forEach((row, mapKey) => {
+      if (row.id === id && row.status === "pending") rows.delete(mapKey);
+    });
+  }),
+}));
+
+const { hashRequest, runIdempotent } = await import("./idempotency");
+
+const transfer = { fromWalletId: 1, toWalletId: 2, toUserId: 7, amount: "10.00", idempotencyKey: "retry-key-1" };
+
+describe("idempotency keys", () => {
+  beforeEach(() => rows.clear());
+
+  it("replays the stored result instead of running the mutation again", async () => {
+    const run = vi.fn(async () => ({ success: true, message: "Transfer completed successfully" }));
+
+    const first = await runIdempotent(1, "transactions.transfer", transfer, run);
+    const replay = await runIdempotent(1, "transactions.transfer", { ...transfer, stepUp: { totpCode: "123456" } }, run);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(replay).toEqual(first);
+  });
+
+  it("rejects a reused key with a different payload or while the first request runs", async () => {
+    await runIdempotent(1, "transactions.transfer", transfer, async () => ({ success: true }));
+    await expect(
+      runIdempotent(1, "transactions.transfer", { ...transfer, amount: "11.00" }, async () => ({ success: true }))
+    ).rejects.toMatchObject({ code: "CONFLICT", message: expect.stringContaining("10005") });
+
+    let finish = () => {};
+    const slow = runIdempotent(1, "transactions.recordWithdrawal", { ...transfer, idempotencyKey: "slow-key-1" }, () =>
+      new Promise<{ success: boolean }>(resolve => (finish = () => resolve({ success: true })))
+    );
+    await expect(
+      runIdempotent(1, "transactions.recordWithdrawal", { ...transfer, idempotencyKey: "slow-key-1" }, async () => ({ success: true }))
+    ).rejects.toMatchObject({ code: "CONFLICT", message: expect.stringContaining("10006") });
+    finish();
+    await slow;
+  });
+
+  it("releases the key when the mutation fails so it can be retried", async () => {
+    const failing = vi.fn(async () => ({ success: false, error: "Insufficient balance" }));
+    await runIdempotent(1, "transactions.transfer", transfer, failing);
+
+    const retry = vi.fn(async () => ({ success: true }));
+    await runIdempotent(1, "transactions.transfer", transfer, retry);
+    expect(retry).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps a key completed once its posting commits, even if the request then fails", async () => {
+    await expect(
+      runIdempotent(1, "transactions.transfer", transfer, async () => {
+        await post();
+        throw new Error("connection lost after commit");
+      })
+    ).rejects.toThrow("connection lost");
+
+    const retry = vi.fn(async () => ({ success: true }));
+    const replay = await runIdempotent(1, "transactions.transfer", transfer, retry);
+    expect(retry).not.toHaveBeenCalled();
+    expect(replay).toMatchObject({ success: true, message: "This request was already processed" });
+  });
+
+  it("lets a retry take over a claim whose lease has lapsed", async () => {
+    // Left behind by a request that died before its posting committed
+    const stuck = {
+      id: nextId++,
+      userId: 1,
+      key: transfer.idempotencyKey,
+      procedure: "transactions.transfer",
+      requestHash: hashRequest("transactions.transfer", transfer),
+      status: "pending",
+      response: null,
+      lockedUntil: new Date(Date.now() + 60_000),
+      createdAt: new Date(),
+      completedAt: null,
+    } as IdempotencyKey;
+    rows.set(`1:${transfer.idempotencyKey}`, stuck);
+
+    const retry = vi.fn(async () => ({ success: true }));
+    await expect(runIdempotent(1, "transactions.transfer", transfer, retry)).rejects.toMatchObject({
+      code: "CONFLICT",
+      message: expect.stringContaining("10006"),
+    });
+
+    stuck.lockedUntil = new Date(Date.now() - 1);
+    await expect(runIdempotent(1, "transactions.transfer", transfer, retry)).resolves.toEqual({ success: true });
+    expect(retry).toHaveBeenCalledTimes(1);
+    expect(stuck.status).toBe("completed");
+  });
+
+  it("hashes inputs independently of key order", () => {
+    expect(hashRequest("p", { a: 1, b: { c: 2, d: 3 } })).toBe(hashRequest("p", { b: { d: 3, c: 2 }, a: 1 }));
+    expect(hashRequest("p", { a: 1 })).not.toBe(hashRequest("q", { a: 1 }));
+  });
+});
@@ -0,0 +1,131 @@
+import { createHash } from "crypto";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { IDEMPOTENCY_CONFLICT_ERR_MSG, IDEMPOTENCY_IN_PROGRESS_ERR_MSG } from "@shared/const";
+import {
+  claimIdempotencyKey,
+  commitIdempotencyKey,
+  completeIdempotencyKey,
+  getIdempotencyKey,
+  reclaimIdempotencyKey,
+  releaseIdempotencyKey,
+  withCommitHook,
+  type DbTransaction,
+} from "./db";
+
+/**
+ * Idempotency keys for money-moving mutations
+ * A client sends the same key when retrying a request. The first request
+ * runs and its successful result is stored; later requests with the same
+ * key and payload get the stored result back, and the same key with a
+ * different payload is rejected. Failed results are not stored, so the
+ * key can be retried once the problem is fixed.
+ *
+ * The key is marked completed in the database transaction that moves the
+ * money, so a crash after that commit cannot lead to the money moving twice.
+ * A claim whose request dies before committing keeps its lease for
+ * IDEMPOTENCY_LEASE_MS; after that a retry claims the key again.
+ */
+
+export const IDEMPOTENCY_LEASE_MS = 2 * 60 * 1000;
+
+/** Stored when the posting commits, until the request's full result replaces it */
+const COMMITTED_RESPONSE = { success: true, message: "This request was already processed" };
+
+export const idempotencyKeySchema = z.string().min(8).max(128);
+
+/** Input fields left out of the request hash */
+const UNHASHED_FIELDS = new Set(["idempotencyKey", "stepUp"]);
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.keys(value)
+      .sort()
+      .map(key => [key, canonicalize((value as Record<string, unknown>)[key])]);
+  }
+  return value;
+}
+
+/**
+ * SHA-256 of the procedure and its input, ignoring the key itself and any
+ * step-up proof (a retry needs a fresh proof but is the same request)
+ */
+export function hashRequest(procedure: string, input: Record<string, unknown>): string {
+  const payload = Object.fromEntries(Object.entries(input).filter(([key]) => !UNHASHED_FIELDS.has(key)));
+  return createHash("sha256").update(JSON.stringify([procedure, canonicalize(payload)])).digest("hex");
+}
+
+/**
+ * Whether `input` retries a request that already completed under its key
+ * Its stored result will be replayed without running anything, so checks
+ * that guard running it, such as step-up, need not be repeated.
+ */
+export async function isCompletedRequest(userId: number, procedure: string, input: { idempotencyKey?: string }) {
+  if (!input.idempotencyKey) return false;
+
+  const existing = await getIdempotencyKey(userId, input.idempotencyKey);
+  return (
+    existing?.status === "completed" &&
+    existing.procedure === procedure &&
+    existing.requestHash === hashRequest(procedure, input)
+  );
+}
+
+/**
+ * Run a mutation at most once per idempotency key
+ * Without a key the mutation simply runs.
+ * @throws TRPCError CONFLICT if the key was used for a different request
+ * or its first request still holds the lease
+ */
+export async function runIdempotent<TInput extends { idempotencyKey?: string }, TResult extends { success: boolean }>(
+  userId: number,
+  procedure: string,
+  input: TInput,
+  run: () => Promise<TResult>
+): Promise<TResult> {
+  const key = input.idempotencyKey;
+  if (!key) return run();
+
+  const requestHash = hashRequest(procedure, input);
+  const now = new Date();
+  const lockedUntil = new Date(now.getTime() + IDEMPOTENCY_LEASE_MS);
+  let claimedId = await claimIdempotencyKey({ userId, key, procedure, requestHash, lockedUntil });
+
+  if (claimedId === null) {
+    const existing = await getIdempotencyKey(userId, key);
+    if (!existing || existing.procedure !== procedure || existing.requestHash !== requestHash) {
+      throw new TRPCError({ code: "CONFLICT", message: IDEMPOTENCY_CONFLICT_ERR_MSG });
+    }
+    if (existing.status === "completed") {
+      return existing.response as TResult;
+    }
+    if (!(await reclaimIdempotencyKey(existing.id, now, lockedUntil))) {
+      throw new TRPCError({ code: "CONFLICT", message: IDEMPOTENCY_IN_PROGRESS_ERR_MSG });
+    }
+    claimedId = existing.id;
+  }
+
+  const id = claimedId;
+  const commitKey = async (tx: DbTransaction) => {
+    if (!(await commitIdempotencyKey(tx, id, COMMITTED_RESPONSE))) {
+      throw new TRPCError({ code: "CONFLICT", message: IDEMPOTENCY_IN_PROGRESS_ERR_MSG });
+    }
+  };
+
+  let result: TResult;
+  try {
+    result = await withCommitHook(commitKey, run);
+  } catch (error) {
+    await releaseIdempotencyKey(id);
+    throw error;
+  }
+
+  // A key committed with the posting stays completed even if the result is a failure
+  if (result.success) {
+    await completeIdempotencyKey(id, result);
+  } else {
+    await releaseIdempotencyKey(id);
+  }
+  return result;
+}
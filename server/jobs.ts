@@ -0,0 +1,160 @@
+import { randomBytes } from "crypto";
+import { hostname } from "os";
+import { claimDueJobs, finishJob, insertJob } from "./db";
+import type { Job } from "../drizzle/schema";
+import { ENV } from "./_core/env";
+
+/**
+ * Background jobs
+ * Work is queued in the jobs table and run by a poller in every server
+ * instance. Claims skip rows another instance has locked, so a job runs on
+ * one instance at a time. A claim is a lease: if an instance dies mid-run,
+ * the job is picked up again once the lease lapses, so handlers must be
+ * safe to run twice.
+ */
+
+export const JOB_POLL_INTERVAL_MS = 5 * 1000;
+
+/** How long a claimed job may run before another instance can take it over */
+export const JOB_LEASE_MS = 5 * 60 * 1000;
+
+const JOB_BATCH_SIZE = 10;
+
+/** Identifies this process in `jobs.lockedBy` */
+export const WORKER_ID = `${hostname()}:${process.pid}:${randomBytes(4).toString("hex")}`;
+
+/**
+ * Thrown by a handler to run the job again at `retryAt`
+ * Once the job is out of attempts it fails instead.
+ */
+export class RetryJobError extends Error {
+  constructor(message: string, readonly retryAt: Date) {
+    super(message);
+    this.name = "RetryJobError";
+  }
+}
+
+type JobHandler = (payload: unknown, job: Job) => Promise<void>;
+
+const handlers = new Map<string, JobHandler>();
+const recurringJobs = new Map<string, number>();
+
+export function registerJobHandler<TPayload>(type: string, handler: (payload: TPayload, job: Job) => Promise<void>) {
+  handlers.set(type, handler as JobHandler);
+}
+
+/**
+ * Queue a job
+ * @returns The job ID, or null if `dedupeKey` was already queued
+ */
+export async function enqueueJob(job: {
+  type: string;
+  payload: unknown;
+  runAt?: Date;
+  maxAttempts?: number;
+  dedupeKey?: string;
+}) {
+  return insertJob({
+    type: job.type,
+    payload: job.payload,
+    runAt: job.runAt ?? new Date(),
+    maxAttempts: job.maxAttempts ?? 1,
+    dedupeKey: job.dedupeKey ?? null,
+  });
+}
+
+function scheduleRecurringJob(type: string, intervalMs: number, after: Date) {
+  // Every instance computes the same slot, so the dedupe key keeps one run per slot
+  const slot = Math.floor(after.getTime() / intervalMs) + 1;
+  return enqueueJob({ type, payload: {}, runAt: new Date(slot * intervalMs), dedupeKey: `${type}:${slot}` });
+}
+
+/**
+ * Run `run` every `intervalMs` on one instance
+ * The next run is queued before this one starts, so a failure does not
+ * stop the series.
+ */
+export function registerRecurringJob(type: string, intervalMs: number, run: () => Promise<unknown>) {
+  recurringJobs.set(type, intervalMs);
+  registerJobHandler(type, async () => {
+    // Slots missed while no instance was running are not made up
+    await scheduleRecurringJob(type, intervalMs, new Date());
+    await run();
+  });
+}
+
+/**
+ * Run one claimed job and record its outcome
+ */
+export async function runJob(job: Job, workerId = WORKER_ID) {
+  const handler = handlers.get(job.type);
+  if (!handler) {
+    await finishJob(job.id, workerId, { status: "failed", lastError: `No handler for job type ${job.type}` });
+    return;
+  }
+
+  try {
+    await handler(job.payload, job);
+    await finishJob(job.id, workerId, { status: "completed", lastError: null });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof RetryJobError && job.attempts < job.maxAttempts) {
+      await finishJob(job.id, workerId, { status: "queued", runAt: error.retryAt, lastError: message });
+      return;
+    }
+    if (!(error instanceof RetryJobError)) {
+      console.error(`[Jobs] Job ${job.id} (${job.type}) failed:`, error);
+    }
+    await finishJob(job.id, workerId, { status: "failed", lastError: message });
+  }
+}
+
+/**
+ * Claim and run the jobs that are due
+ * @returns Number of jobs run
+ */
+export async function runDueJobs(now = new Date(), workerId = WORKER_ID) {
+  const due = await claimDueJobs(workerId, now, JOB_LEASE_MS, JOB_BATCH_SIZE);
+  for (const job of due) {
+    await runJob(job, workerId);
+  }
+  return due.length;
+}
+
+/**
+ * Start polling for due jobs in this process
+ * @returns A function that stops the poller
+ */
+export function startJobRunner(intervalMs = JOB_POLL_INTERVAL_MS) {
+  if (!ENV.databaseUrl) {
+    console.warn("[Jobs] DATABASE_URL is not set; background jobs will not run");
+    return () => {};
+  }
+
+  // Restart recurring series whose next run was never queued
+  recurringJobs.forEach((interval, type) => {
+    scheduleRecurringJob(type, interval, new Date()).catch(error =>
+      console.error(`[Jobs] Failed to schedule ${type}:`, error)
+    );
+  });
+
+  let polling = false;
+  const timer = setInterval(async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      // Keep draining while full batches come back
+      let ran: number;
+      do {
+        ran = await runDueJobs();
+      } while (ran === JOB_BATCH_SIZE);
+    } catch (error) {
+      console.error("[Jobs] Failed to run due jobs:", error);
+    } finally {
+      polling = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
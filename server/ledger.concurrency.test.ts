@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { InsertTransaction } from "../drizzle/schema";
+
+/**
+ * In-memory stand-in for the wallet table with InnoDB-like row locks:
+ * `lockWallet` blocks until the row is free, balance changes are staged and
+ * only become visible when the transaction commits, and locks are held
+ * until commit or rollback. `ledgerSums` tracks each wallet's ledger lines.
+ */
+type FakeTx = {
+  staged: Map<number, number>;
+  overwrites: Map<number, number>;
+  releases: Array<() => void>;
+  lockOrder: number[];
+  entries: number;
+};
+
+const balances = new Map<number, number>();
+const ledgerSums = new Map<number, number>();
+let duringReport = async () => {};
+const rowLocks = new Map<number, Promise<void>>();
+const lockOrders: number[][] = [];
+let committedEntries = 0;
+
+const yieldToOthers = () => new Promise(resolve => setTimeout(resolve, 0));
+
+vi.mock("./db", () => ({
+  withTransaction: vi.fn(async (fn: (tx: FakeTx) => Promise<unknown>) => {
+    const tx: FakeTx = { staged: new Map(), overwrites: new Map(), releases: [], lockOrder: [], entries: 0 };
+    try {
+      const result = await fn(tx);
+      tx.staged.forEach((delta, walletId) => {
+        balances.set(walletId, balances.get(walletId)! + delta);
+        ledgerSums.set(walletId, (ledgerSums.get(walletId) ?? 0) + delta);
+      });
+      tx.overwrites.forEach((balance, walletId) => balances.set(walletId, balance));
+      committedEntries += tx.entries;
+      return result;
+    } finally {
+      lockOrders.push(tx.lockOrder);
+      tx.releases.forEach(release => release());
+    }
+  }),
+  lockWallet: vi.fn(async (tx: FakeTx, walletId: number) => {
+    while (rowLocks.has(walletId)) await rowLocks.get(walletId);
+    let release = () => {};
+    rowLocks.set(walletId, new Promise<void>(resolve => {
+      release = () => {
+        rowLocks.delete(walletId);
+        resolve();
+      };
+    }));
+    tx.releases.push(release);
+    tx.lockOrder.push(walletId);
+    await yieldToOthers();
+    return { id: walletId, balance: balances.get(walletId)!.toFixed(8) };
+  }),
+  getHeldAmount: vi.fn(async () => "0"),
+  insertTransaction: vi.fn(async () => {
+    await yieldToOthers();
+    return 1;
+  }),
+  insertTransactionEvent: vi.fn(),
+  insertLedgerEntries: vi.fn(async (tx: FakeTx, entries: unknown[]) => {
+    tx.entries += entries.length;
+  }),
+  adjustWalletBalance: vi.fn(async (tx: FakeTx, walletId: number, delta: string) => {
+    await yieldToOthers();
+    tx.staged.set(walletId, (tx.staged.get(walletId) ?? 0) + Number(delta));
+  }),
+  getAllWallets: vi.fn(async () =>
+    Array.from(balances, ([id, balance]) => ({ id, userId: 7, currencyCode: "USD", balance: balance.toFixed(8) }))
+  ),
+  getLedgerWalletBalances: vi.fn(async () => {
+    const sums = Array.from(ledgerSums, ([walletId, balance]) => ({ walletId, balance: balance.toFixed(8) }));
+    await duringReport();
+    return sums;
+  }),
+  getUnbalancedLedgerTransactions: vi.fn(async () => []),
+  getLedgerWalletBalance: vi.fn(async (_tx: FakeTx, walletId: number) => (ledgerSums.get(walletId) ?? 0).toFixed(8)),
+  updateWalletBalance: vi.fn(async (tx: FakeTx, walletId: number, balance: string) => {
+    tx.overwrites.set(walletId, Number(balance));
+  }),
+  createAuditLog: vi.fn(),
+}));
+
+const { InsufficientBalanceError, postTransaction, reconcileLedger, transferLines } = await import("./ledger");
+
+function transfer(fromWalletId: number, toWalletId: number, amount: string) {
+  const data: InsertTransaction = {
+    fromWalletId,
+    toWalletId,
+    amount,
+    transactionType: "transfer",
+    status: "completed",
+  };
+  return postTransaction(data, transferLines(fromWalletId, toWalletId, "USD", amount));
+}
+
+describe("concurrent ledger postings", () => {
+  beforeEach(() => {
+    balances.clear();
+    ledgerSums.clear();
+    duringReport = async () => {};
+    lockOrders.length = 0;
+    committedEntries = 0;
+  });
+
+  it("never lets concurrent transfers overdraw one wallet", async () => {
+    balances.set(1, 100);
+    balances.set(2, 0);
+
+    const results = await Promise.allSettled(Array.from({ length: 10 }, () => transfer(1, 2, "30")));
+
+    const rejected = results.filter(result => result.status === "rejected");
+    expect(results.filter(result => result.status === "fulfilled")).toHaveLength(3);
+    expect(rejected).toHaveLength(7);
+    rejected.forEach(result => expect((result as PromiseRejectedResult).reason).toBeInstanceOf(InsufficientBalanceError));
+    expect(balances.get(1)).toBe(10);
+    expect(balances.get(2)).toBe(90);
+    expect(committedEntries).toBe(6);
+  });
+
+  it("locks wallets in ascending order so opposite transfers do not deadlock", async () => {
+    balances.set(1, 50);
+    balances.set(2, 50);
+
+    await Promise.all(Array.from({ length: 20 }, (_, i) => (i % 2 === 0 ? transfer(1, 2, "5") : transfer(2, 1, "5"))));
+
+    expect(balances.get(1)! + balances.get(2)!).toBe(100);
+    expect(lockOrders).toHaveLength(20);
+    lockOrders.forEach(order => expect(order).toEqual([1, 2]));
+  });
+
+  it("repairs a drifted balance from the ledger as it stands under the wallet lock", async () => {
+    balances.set(1, 100);
+    ledgerSums.set(1, 90);
+    balances.set(2, 0);
+    ledgerSums.set(2, 0);
+    // A transfer posts after the report has read the ledger
+    duringReport = () => transfer(1, 2, "5").then(() => {});
+
+    const report = await reconcileLedger({ repair: true, actorId: 1 });
+
+    expect(report.drift).toEqual([
+      expect.objectContaining({ walletId: 1, cachedBalance: "100.00000000", ledgerBalance: "90.00000000" }),
+    ]);
+    expect(balances.get(1)).toBe(85);
+    expect(balances.get(2)).toBe(5);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertBalanced,
+  depositLines,
+  exchangeLines,
+  feeLines,
+  LedgerError,
+  transferLines,
+  walletDeltas,
+  withdrawalLines,
+} from "./ledger";
+
+const btc = { code: "BTC", revenueWalletId: 99 };
+
+describe("ledger postings", () => {
+  it("builds balanced postings for every movement type", () => {
+    expect(() => assertBalanced(depositLines(1, "USD", "10.50"))).not.toThrow();
+    expect(() => assertBalanced(withdrawalLines(1, "USD", "10.50"))).not.toThrow();
+    expect(() => assertBalanced(transferLines(1, 2, "USD", "0.00000001"))).not.toThrow();
+    expect(() => assertBalanced(feeLines(1, btc, "0.0005"))).not.toThrow();
+    expect(() =>
+      assertBalanced(
+        exchangeLines({ walletId: 1, currencyCode: "USD", amount: "600" }, { walletId: 2, currencyCode: "BTC", amount: "0.01" })
+      )
+    ).not.toThrow();
+    expect(feeLines(1, btc, "0")).toEqual([]);
+    expect(() => feeLines(1, { ...btc, revenueWalletId: null }, "0.0005")).toThrow("no revenue wallet");
+  });
+
+  it("rejects postings that do not net to zero or are malformed", () => {
+    const unbalanced = [
+      { account: "wallet" as const, walletId: 1, currencyCode: "USD", direction: "debit" as const, amount: "10" },
+      { account: "external" as const, currencyCode: "USD", direction: "credit" as const, amount: "9.99" },
+    ];
+    expect(() => assertBalanced(unbalanced)).toThrow(LedgerError);
+    expect(() => assertBalanced(depositLines(1, "USD", "0"))).toThrow("positive");
+    expect(() => assertBalanced(depositLines(1, "USD", "1.000000001"))).toThrow("Invalid ledger amount");
+    expect(() => assertBalanced([{ ...unbalanced[1], walletId: 1, amount: "10" }, unbalanced[0]])).toThrow(
+      "Only wallet accounts"
+    );
+  });
+
+  it("derives wallet balance changes from the lines", () => {
+    const lines = [...transferLines(1, 2, "BTC", "0.1"), ...feeLines(1, btc, "0.0005")];
+    const deltas = walletDeltas(lines);
+
+    expect(deltas.get(1)).toBe("-0.10050000");
+    expect(deltas.get(2)).toBe("0.10000000");
+    expect(deltas.get(99)).toBe("0.00050000");
+    expect(walletDeltas(transferLines(3, 3, "BTC", "1")).size).toBe(0);
+  });
+});
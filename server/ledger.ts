@@ -0,0 +1,335 @@
+import {
+  adjustWalletBalance,
+  createAuditLog,
+  getAllWallets,
+  getHeldAmount,
+  getLedgerWalletBalance,
+  getLedgerWalletBalances,
+  getUnbalancedLedgerTransactions,
+  insertLedgerEntries,
+  lockWallet,
+  updateWalletBalance,
+  withTransaction,
+  type DbTransaction,
+} from "./db";
+import type { Currency, InsertTransaction } from "../drizzle/schema";
+import { recordTransaction } from "./transactionStates";
+import { fromUnits as formatUnits, MAX_SCALE, toUnits as parseUnits } from "@shared/money";
+
+/**
+ * Double-entry ledger
+ * Every balance change is a set of debit and credit lines that net to zero
+ * per currency. Wallet accounts grow on credit; the external and exchange
+ * accounts are per-currency counterparts for money entering or leaving the
+ * platform and currency conversion. Fees are credited to each currency's
+ * revenue wallet, a platform-owned wallet account; the fees account only
+ * carries fees posted before revenue wallets existed.
+ * `wallets.balance` is a cached projection of the wallet account lines.
+ */
+
+export type LedgerAccount = "wallet" | "external" | "fees" | "exchange";
+
+export type LedgerLine = {
+  account: LedgerAccount;
+  /** Required for wallet accounts, absent for system accounts */
+  walletId?: number;
+  currencyCode: string;
+  direction: "debit" | "credit";
+  amount: string;
+};
+
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
+
+export class InsufficientBalanceError extends LedgerError {
+  constructor(public readonly walletId: number) {
+    super(`Insufficient balance in wallet ${walletId}`);
+    this.name = "InsufficientBalanceError";
+  }
+}
+
+const ZERO = BigInt(0);
+
+// Ledger amounts use the full scale of the amount columns
+function toUnits(amount: string): bigint {
+  try {
+    return parseUnits(amount, MAX_SCALE);
+  } catch {
+    throw new LedgerError(`Invalid ledger amount: ${amount}`);
+  }
+}
+
+function fromUnits(units: bigint): string {
+  return formatUnits(units, MAX_SCALE);
+}
+
+/**
+ * Check that lines are well-formed and net to zero in every currency
+ */
+export function assertBalanced(lines: LedgerLine[]) {
+  if (lines.length < 2) {
+    throw new LedgerError("A posting needs at least one debit and one credit");
+  }
+
+  const net = new Map<string, bigint>();
+  for (const line of lines) {
+    if ((line.account === "wallet") !== (line.walletId !== undefined)) {
+      throw new LedgerError("Only wallet accounts carry a wallet ID");
+    }
+    const units = toUnits(line.amount);
+    if (units <= ZERO) {
+      throw new LedgerError("Ledger amounts must be positive");
+    }
+    const signed = line.direction === "credit" ? units : -units;
+    net.set(line.currencyCode, (net.get(line.currencyCode) ?? ZERO) + signed);
+  }
+
+  net.forEach((total, currency) => {
+    if (total !== ZERO) {
+      throw new LedgerError(`Posting does not balance in ${currency}`);
+    }
+  });
+}
+
+/**
+ * Net change each posting makes to each wallet's balance
+ */
+export function walletDeltas(lines: LedgerLine[]): Map<number, string> {
+  const deltas = new Map<number, bigint>();
+  for (const line of lines) {
+    if (line.account !== "wallet" || line.walletId === undefined) continue;
+    const units = toUnits(line.amount);
+    deltas.set(line.walletId, (deltas.get(line.walletId) ?? ZERO) + (line.direction === "credit" ? units : -units));
+  }
+
+  const result = new Map<number, string>();
+  deltas.forEach((units, walletId) => {
+    if (units !== ZERO) result.set(walletId, fromUnits(units));
+  });
+  return result;
+}
+
+// Posting templates
+
+export function depositLines(walletId: number, currencyCode: string, amount: string): LedgerLine[] {
+  return [
+    { account: "external", currencyCode, direction: "debit", amount },
+    { account: "wallet", walletId, currencyCode, direction: "credit", amount },
+  ];
+}
+
+export function withdrawalLines(walletId: number, currencyCode: string, amount: string): LedgerLine[] {
+  return [
+    { account: "wallet", walletId, currencyCode, direction: "debit", amount },
+    { account: "external", currencyCode, direction: "credit", amount },
+  ];
+}
+
+export function transferLines(fromWalletId: number, toWalletId: number, currencyCode: string, amount: string): LedgerLine[] {
+  return [
+    { account: "wallet", walletId: fromWalletId, currencyCode, direction: "debit", amount },
+    { account: "wallet", walletId: toWalletId, currencyCode, direction: "credit", amount },
+  ];
+}
+
+/**
+ * Move a fee from the paying wallet to the currency's revenue wallet
+ * @throws LedgerError if the currency has no revenue wallet
+ */
+export function feeLines(walletId: number, currency: Pick<Currency, "code" | "revenueWalletId">, fee: string): LedgerLine[] {
+  if (toUnits(fee) === ZERO) return [];
+  if (currency.revenueWalletId === null) {
+    throw new LedgerError(`${currency.code} has no revenue wallet`);
+  }
+  return transferLines(walletId, currency.revenueWalletId, currency.code, fee);
+}
+
+export function exchangeLines(
+  from: { walletId: number; currencyCode: string; amount: string },
+  to: { walletId: number; currencyCode: string; amount: string }
+): LedgerLine[] {
+  return [
+    { account: "wallet", walletId: from.walletId, currencyCode: from.currencyCode, direction: "debit", amount: from.amount },
+    { account: "exchange", currencyCode: from.currencyCode, direction: "credit", amount: from.amount },
+    { account: "exchange", currencyCode: to.currencyCode, direction: "debit", amount: to.amount },
+    { account: "wallet", walletId: to.walletId, currencyCode: to.currencyCode, direction: "credit", amount: to.amount },
+  ];
+}
+
+export type PostingOptions = {
+  /** Hold whose reserved funds this posting spends */
+  captureHoldId?: number;
+};
+
+/**
+ * Lock every wallet touched by the lines and check that debits fit the
+ * available balance (balance minus other active holds)
+ * Wallets are locked in ascending ID order so that concurrent postings over
+ * the same wallets always queue instead of deadlocking.
+ */
+async function lockAndCheckWallets(tx: DbTransaction, deltas: Map<number, string>, options: PostingOptions) {
+  const walletIds = Array.from(deltas.keys()).sort((a, b) => a - b);
+
+  for (const walletId of walletIds) {
+    const wallet = await lockWallet(tx, walletId);
+    if (!wallet) {
+      throw new LedgerError(`Wallet ${walletId} not found`);
+    }
+
+    const delta = toUnits(deltas.get(walletId)!);
+    if (delta >= ZERO) continue;
+    const held = toUnits(await getHeldAmount(tx, walletId, new Date(), options.captureHoldId));
+    if (toUnits(wallet.balance) - held + delta < ZERO) {
+      throw new InsufficientBalanceError(walletId);
+    }
+  }
+}
+
+/**
+ * Post ledger lines for a transaction and update the cached wallet balances
+ * Must run inside a database transaction; throws InsufficientBalanceError
+ * (rolling the transaction back) if a debited wallet's available balance
+ * cannot cover its lines.
+ */
+export async function postLedgerLines(
+  tx: DbTransaction,
+  transactionId: number | null,
+  lines: LedgerLine[],
+  options: PostingOptions = {}
+) {
+  assertBalanced(lines);
+  const deltas = walletDeltas(lines);
+  await lockAndCheckWallets(tx, deltas, options);
+
+  await insertLedgerEntries(
+    tx,
+    lines.map(line => ({
+      transactionId,
+      account: line.account,
+      walletId: line.walletId ?? null,
+      currencyCode: line.currencyCode,
+      direction: line.direction,
+      amount: line.amount,
+    }))
+  );
+
+  for (const [walletId, delta] of Array.from(deltas)) {
+    await adjustWalletBalance(tx, walletId, delta);
+  }
+}
+
+/** Extra work committed or rolled back together with a posted transaction */
+export type AfterPost = (tx: DbTransaction, transactionId: number) => Promise<void>;
+
+/**
+ * Record a transaction together with its ledger postings
+ * @param afterPost Runs in the same database transaction; throwing undoes the posting
+ * @returns The new transaction ID
+ */
+export async function postTransaction(data: InsertTransaction, lines: LedgerLine[], afterPost?: AfterPost): Promise<number> {
+  assertBalanced(lines);
+
+  return withTransaction(async tx => {
+    const transactionId = await recordTransaction(tx, data);
+    await postLedgerLines(tx, transactionId, lines);
+    await afterPost?.(tx, transactionId);
+    return transactionId;
+  });
+}
+
+export type BalanceDrift = {
+  walletId: number;
+  userId: number | null;
+  currencyCode: string;
+  cachedBalance: string;
+  ledgerBalance: string;
+  drift: string;
+};
+
+/**
+ * Reset a wallet's cached balance to its ledger sum
+ * The report that found the drift was read without locks, so postings may
+ * have landed since; both figures are read again under the wallet's lock,
+ * which every posting to the wallet takes too.
+ * @returns The drift fixed, or null if there was none by then
+ */
+async function repairWalletBalance(walletId: number): Promise<BalanceDrift | null> {
+  return withTransaction(async tx => {
+    const wallet = await lockWallet(tx, walletId);
+    if (!wallet) return null;
+
+    const cached = toUnits(wallet.balance);
+    const ledger = toUnits((await getLedgerWalletBalance(tx, wallet.id)) ?? "0");
+    if (cached === ledger) return null;
+
+    await updateWalletBalance(tx, wallet.id, fromUnits(ledger));
+    return {
+      walletId: wallet.id,
+      userId: wallet.userId,
+      currencyCode: wallet.currencyCode,
+      cachedBalance: fromUnits(cached),
+      ledgerBalance: fromUnits(ledger),
+      drift: fromUnits(cached - ledger),
+    };
+  });
+}
+
+/**
+ * Recompute every wallet balance from the ledger and report differences
+ * @param options.repair Overwrite drifted cached balances with the ledger value
+ * @param options.actorId Admin recorded in the audit log when repairing
+ */
+export async function reconcileLedger(options: { repair?: boolean; actorId?: number } = {}) {
+  const wallets = await getAllWallets();
+  const ledgerBalances = new Map(
+    (await getLedgerWalletBalances()).map(row => [row.walletId, toUnits(row.balance ?? "0")])
+  );
+
+  const drift: BalanceDrift[] = [];
+  for (const wallet of wallets) {
+    const cached = toUnits(wallet.balance);
+    const ledger = ledgerBalances.get(wallet.id) ?? ZERO;
+    if (cached !== ledger) {
+      drift.push({
+        walletId: wallet.id,
+        userId: wallet.userId,
+        currencyCode: wallet.currencyCode,
+        cachedBalance: fromUnits(cached),
+        ledgerBalance: fromUnits(ledger),
+        drift: fromUnits(cached - ledger),
+      });
+    }
+  }
+
+  const unbalancedTransactions = (await getUnbalancedLedgerTransactions()).map(row => ({
+    transactionId: row.transactionId,
+    currencyCode: row.currencyCode,
+    net: row.net,
+  }));
+
+  if (options.repair && drift.length > 0) {
+    const repairs: BalanceDrift[] = [];
+    for (const entry of drift) {
+      const repair = await repairWalletBalance(entry.walletId);
+      if (repair) repairs.push(repair);
+    }
+    if (options.actorId !== undefined) {
+      await createAuditLog({
+        adminId: options.actorId,
+        action: "ledger_balances_repaired",
+        details: { drift: repairs },
+      });
+    }
+  }
+
+  return {
+    checkedWallets: wallets.length,
+    drift,
+    unbalancedTransactions,
+    repaired: Boolean(options.repair) && drift.length > 0,
+  };
+}
@@ -65,7 +65,7 @@ class SupportChatbot {
       'how_to_withdraw_crypto':
         'Go to your cryptocurrency wallet, click Send/Withdraw, enter destination address and amount, then verify with fingerprint.',
       'transaction_fee':
-        'Standard transfers between users are free. Cryptocurrency withdrawals may have network fees displayed before confirmation.',
+        'Any fee on a transfer, withdrawal or currency exchange depends on the currency and your account tier, and is shown before you confirm.',
       'security_features':
         'Our security includes fingerprint authentication, AES-256 encryption, JWT sessions, and real-time fraud detection.',
       'forgot_fingerprint':
@@ -294,7 +294,8 @@ export const fraudDetectionModel = new FraudDetectionModel();
 export async function createFraudAnalysisInput(
   transaction: any,
   userHistory: any[],
-  wallet: any
+  wallet: any,
+  device: { isNewDevice?: boolean } = {}
 ): Promise<FraudAnalysisInput> {
   const now = Date.now();
   const lastTransaction = userHistory[0];
@@ -323,7 +324,7 @@ export async function createFraudAnalysisInput(
     userAverageTransaction,
     timeSinceLastTransaction,
     transactionFrequency,
-    isNewDevice: false, // Would be set from device tracking
+    isNewDevice: device.isNewDevice ?? false,
     isNewLocation: false, // Would be set from geolocation
     isWeekend,
     isNightTime,
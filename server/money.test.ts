@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDecimals,
+  compareDecimals,
+  divideDecimals,
+  formatAmount,
+  MoneyError,
+  multiplyDecimals,
+  parseAmount,
+  roundDecimal,
+  subtractDecimals,
+} from "@shared/money";
+
+const USD = { code: "USD", decimals: 2 };
+const JPY = { code: "JPY", decimals: 0 };
+const BTC = { code: "BTC", decimals: 8 };
+
+describe("money", () => {
+  it("validates amounts against the currency's scale", () => {
+    expect(parseAmount("10.5", USD)).toBe("10.50");
+    expect(parseAmount("10.500", USD)).toBe("10.50");
+    expect(parseAmount("0.00000001", BTC)).toBe("0.00000001");
+    expect(parseAmount("1500", JPY)).toBe("1500");
+
+    expect(() => parseAmount("10.001", USD)).toThrow("at most 2 decimal places");
+    expect(() => parseAmount("1.5", JPY)).toThrow(MoneyError);
+    expect(() => parseAmount("1e-7", BTC)).toThrow("Invalid amount");
+    expect(() => parseAmount("-5", USD)).toThrow("negative");
+    expect(() => parseAmount("0", USD)).toThrow("greater than zero");
+    expect(parseAmount("0", USD, { allowZero: true })).toBe("0.00");
+    expect(() => parseAmount("10000000000", USD)).toThrow("too large");
+  });
+
+  it("adds, subtracts and compares without float error", () => {
+    expect(addDecimals("0.1", "0.2")).toBe("0.3");
+    expect(subtractDecimals("100.00000000", "0.00000001")).toBe("99.99999999");
+    expect(subtractDecimals("1", "1.5")).toBe("-0.5");
+    expect(compareDecimals("0.30000000", "0.3")).toBe(0);
+    expect(compareDecimals("0.00000001", "0")).toBe(1);
+    expect(compareDecimals("-2", "-1.99")).toBe(-1);
+  });
+
+  it("rounds products and quotients with the requested mode", () => {
+    expect(multiplyDecimals("0.015", "1", 2, "half-even")).toBe("0.02");
+    expect(multiplyDecimals("0.025", "1", 2, "half-even")).toBe("0.02");
+    expect(multiplyDecimals("0.025", "1", 2, "half-up")).toBe("0.03");
+    expect(multiplyDecimals("0.029", "1", 2, "down")).toBe("0.02");
+    expect(multiplyDecimals("0.021", "1", 2, "up")).toBe("0.03");
+    expect(multiplyDecimals("-0.025", "1", 2, "half-up")).toBe("-0.03");
+    expect(multiplyDecimals("0.5", "60000.00000000", 2)).toBe("30000.00");
+    expect(divideDecimals("1", "3", 8)).toBe("0.33333333");
+    expect(divideDecimals("2", "3", 8)).toBe("0.66666667");
+    expect(roundDecimal("1.23456789", 4, "down")).toBe("1.2345");
+    expect(formatAmount("12.00000000", USD)).toBe("12.00");
+  });
+});
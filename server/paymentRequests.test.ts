@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const now = new Date("2025-01-01T12:00:00Z");
+
+type FakeRequest = {
+  id: number;
+  userId: number;
+  token: string;
+  amount: string;
+  currencyCode: string;
+  memo: string | null;
+  multiUse: boolean;
+  status: "open" | "paid" | "expired" | "cancelled";
+  expiresAt: Date | null;
+  paymentCount: number;
+};
+
+let request: FakeRequest;
+const notifications: Array<{ userId: number; content: string }> = [];
+
+vi.mock("./db", () => ({
+  getPaymentRequestByToken: vi.fn(async (token: string) => (token === request.token ? { ...request } : undefined)),
+  lockPaymentRequest: vi.fn(async () => ({ ...request })),
+  recordPaymentRequestPayment: vi.fn(async (_tx: object, _id: number, multiUse: boolean) => {
+    request.paymentCount++;
+    if (!multiUse) request.status = "paid";
+  }),
+  getWalletById: vi.fn(async (id: number) => ({ id, userId: 8, currencyCode: id === 2 ? "EUR" : "USD" })),
+  getUserById: vi.fn(async (id: number) => ({ id, name: id === 7 ? "Alice" : "Bob", handle: null })),
+  createNotification: vi.fn(async (data: { userId: number; content: string }) => notifications.push(data)),
+}));
+
+vi.mock("./currencies", () => ({
+  currencyCodeSchema: { parse: (code: string) => code },
+  requireCurrency: vi.fn(async (code: string) => ({ code, decimals: 2 })),
+}));
+
+// Runs the afterPost hook the way the ledger would, inside the posting
+const sendTransfer = vi.fn(
+  async (_payer: number, req: { amount: string }, options: { afterPost: (tx: object, id: number) => Promise<void> }) => {
+    await options.afterPost({}, 99);
+    return { transactionId: 99, plan: { amount: "25.00", recipient: { id: 7, name: "Alice", handle: null } }, credited: req };
+  }
+);
+vi.mock("./transfers", () => ({ sendTransfer }));
+
+const { payPaymentRequest, paymentRequestStatus, PaymentRequestError } = await import("./paymentRequests");
+
+describe("payment requests", () => {
+  beforeEach(() => {
+    notifications.length = 0;
+    sendTransfer.mockClear();
+    request = {
+      id: 1,
+      userId: 7,
+      token: "tok_abcdefghijklmnop",
+      amount: "25.00000000",
+      currencyCode: "USD",
+      memo: "Dinner",
+      multiUse: false,
+      status: "open",
+      expiresAt: new Date(now.getTime() + 60_000),
+      paymentCount: 0,
+    };
+  });
+
+  it("reads open requests past their expiry as expired", () => {
+    expect(paymentRequestStatus(request, now)).toBe("open");
+    expect(paymentRequestStatus(request, new Date(now.getTime() + 60_000))).toBe("expired");
+  });
+
+  it("pays a single-use request once and notifies the requester", async () => {
+    const payment = { fromWalletId: 1, expectedAmount: "25" };
+    const paid = await payPaymentRequest(8, request.token, payment, now);
+
+    expect(paid).toMatchObject({ transactionId: 99, amount: "25.00", currencyCode: "USD" });
+    expect(sendTransfer).toHaveBeenCalledWith(
+      8,
+      expect.objectContaining({ amount: "25.00000000", toCurrencyCode: "USD", description: "Dinner" }),
+      expect.objectContaining({ paymentRequestId: 1 })
+    );
+    expect(request.status).toBe("paid");
+    expect(notifications).toEqual([expect.objectContaining({ userId: 7, content: 'Bob paid 25.00 USD for "Dinner".' })]);
+
+    await expect(payPaymentRequest(9, request.token, payment, now)).rejects.toThrow("This request is paid");
+  });
+
+  it("keeps multi-use requests open", async () => {
+    request.multiUse = true;
+    await payPaymentRequest(8, request.token, { fromWalletId: 1, expectedAmount: "25.00" }, now);
+    await payPaymentRequest(9, request.token, { fromWalletId: 1, expectedAmount: "25.00" }, now);
+
+    expect(request).toMatchObject({ status: "open", paymentCount: 2 });
+  });
+
+  it("refuses the requester, changed amounts, other currencies and closed requests", async () => {
+    const payment = { fromWalletId: 1, expectedAmount: "25.00" };
+
+    await expect(payPaymentRequest(7, request.token, payment, now)).rejects.toThrow("your own request");
+    await expect(payPaymentRequest(8, request.token, { ...payment, expectedAmount: "20" }, now)).rejects.toThrow(/changed/);
+    await expect(payPaymentRequest(8, request.token, { ...payment, fromWalletId: 2 }, now)).rejects.toThrow("USD wallet");
+    await expect(payPaymentRequest(8, "tok_unknownunknownxx", payment, now)).rejects.toThrow(PaymentRequestError);
+
+    request.status = "cancelled";
+    await expect(payPaymentRequest(8, request.token, payment, now)).rejects.toThrow("This request is cancelled");
+    expect(sendTransfer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,199 @@
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import {
+  createNotification,
+  createPaymentRequest,
+  getPaymentRequestById,
+  getPaymentRequestByToken,
+  getUserById,
+  getWalletById,
+  lockPaymentRequest,
+  recordPaymentRequestPayment,
+} from "./db";
+import type { PaymentRequest } from "../drizzle/schema";
+import { currencyCodeSchema, requireCurrency } from "./currencies";
+import { encodePaymentQr, recipientDisplayName } from "./recipients";
+import { sendTransfer } from "./transfers";
+import { parseAmount } from "@shared/money";
+
+/**
+ * Payment requests
+ * A user asks for a fixed amount through a link carrying a random token.
+ * Any other signed-in user who opens the link can pay it with an ordinary
+ * transfer to the requester. Single-use requests close as paid after one
+ * payment; multi-use ones take payments until cancelled or expired.
+ */
+
+const TOKEN_BYTES = 18;
+
+export class PaymentRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentRequestError";
+  }
+}
+
+export const paymentRequestTokenSchema = z.string().regex(/^[A-Za-z0-9_-]{16,64}$/, "Invalid payment link");
+
+export const createPaymentRequestSchema = z.object({
+  amount: z.string(),
+  currencyCode: currencyCodeSchema,
+  memo: z.string().trim().max(500).optional(),
+  /** Accept any number of payments instead of closing after the first */
+  multiUse: z.boolean().default(false),
+  expiresAt: z.coerce.date().optional(),
+});
+
+/**
+ * Path of the page where a request is paid
+ */
+export function paymentRequestPath(token: string) {
+  return `/pay/${token}`;
+}
+
+/**
+ * Status as of `now`; open requests past their expiry read as expired
+ * before the expiry job gets to them
+ */
+export function paymentRequestStatus(request: Pick<PaymentRequest, "status" | "expiresAt">, now = new Date()) {
+  return request.status === "open" && request.expiresAt && request.expiresAt <= now ? "expired" : request.status;
+}
+
+/**
+ * @throws PaymentRequestError unless `payerId` can pay the request now
+ */
+function assertPayable(request: PaymentRequest, payerId: number, now: Date) {
+  if (request.userId === payerId) {
+    throw new PaymentRequestError("You cannot pay your own request");
+  }
+  const status = paymentRequestStatus(request, now);
+  if (status !== "open") {
+    throw new PaymentRequestError(`This request is ${status}`);
+  }
+}
+
+/**
+ * Ask for money
+ * @throws CurrencyError, MoneyError or PaymentRequestError if the request is invalid
+ */
+export async function requestPayment(userId: number, input: z.infer<typeof createPaymentRequestSchema>, now = new Date()) {
+  const currency = await requireCurrency(input.currencyCode);
+  const amount = parseAmount(input.amount, currency);
+  if (input.expiresAt && input.expiresAt <= now) {
+    throw new PaymentRequestError("Expiry must be in the future");
+  }
+
+  const token = randomBytes(TOKEN_BYTES).toString("base64url");
+  const id = await createPaymentRequest({
+    userId,
+    token,
+    amount,
+    currencyCode: currency.code,
+    memo: input.memo || null,
+    multiUse: input.multiUse,
+    expiresAt: input.expiresAt ?? null,
+  });
+  return { id, token, path: paymentRequestPath(token), amount, currencyCode: currency.code };
+}
+
+/**
+ * What a payer sees when opening a request link
+ * @throws PaymentRequestError if the token matches no request
+ */
+export async function viewPaymentRequest(viewerId: number, token: string, now = new Date()) {
+  const request = await getPaymentRequestByToken(token);
+  if (!request) {
+    throw new PaymentRequestError("Payment request not found");
+  }
+  const requester = await getUserById(request.userId);
+
+  return {
+    token: request.token,
+    requester: {
+      displayName: requester ? recipientDisplayName(requester) : `User #${request.userId}`,
+      handle: requester?.handle ?? null,
+    },
+    amount: request.amount,
+    currencyCode: request.currencyCode,
+    memo: request.memo,
+    multiUse: request.multiUse,
+    status: paymentRequestStatus(request, now),
+    expiresAt: request.expiresAt,
+    isOwn: request.userId === viewerId,
+  };
+}
+
+/**
+ * Pay a request from one of the payer's wallets in the requested currency
+ * The request is locked and checked again in the transaction that posts
+ * the transfer, so a single-use request is never paid twice.
+ * @param expectedAmount The amount the payer approved; must match the request
+ * @throws PaymentRequestError, RecipientError, MoneyError or
+ *   InsufficientBalanceError if the payment cannot be made
+ */
+export async function payPaymentRequest(
+  payerId: number,
+  token: string,
+  payment: { fromWalletId: number; expectedAmount: string },
+  now = new Date()
+) {
+  const request = await getPaymentRequestByToken(token);
+  if (!request) {
+    throw new PaymentRequestError("Payment request not found");
+  }
+  assertPayable(request, payerId, now);
+
+  const currency = await requireCurrency(request.currencyCode, { allowDisabled: true });
+  if (parseAmount(payment.expectedAmount, currency) !== parseAmount(request.amount, currency)) {
+    throw new PaymentRequestError("The requested amount has changed; reload the request");
+  }
+  const fromWallet = await getWalletById(payment.fromWalletId);
+  if (fromWallet && fromWallet.currencyCode !== request.currencyCode) {
+    throw new PaymentRequestError(`Pay this request from a ${request.currencyCode} wallet`);
+  }
+
+  const { transactionId, plan } = await sendTransfer(
+    payerId,
+    {
+      fromWalletId: payment.fromWalletId,
+      recipient: { type: "qr", payload: encodePaymentQr({ userId: request.userId, currencyCode: request.currencyCode }) },
+      amount: request.amount,
+      toCurrencyCode: request.currencyCode,
+      description: request.memo ?? undefined,
+    },
+    {
+      paymentRequestId: request.id,
+      afterPost: async tx => {
+        const locked = await lockPaymentRequest(tx, request.id);
+        if (!locked) {
+          throw new PaymentRequestError("Payment request not found");
+        }
+        assertPayable(locked, payerId, now);
+        await recordPaymentRequestPayment(tx, locked.id, locked.multiUse, now);
+      },
+    }
+  );
+
+  const payer = await getUserById(payerId);
+  const payerName = payer ? recipientDisplayName(payer) : `User #${payerId}`;
+  await createNotification({
+    userId: request.userId,
+    type: "transfer",
+    subject: "Payment request paid",
+    content: `${payerName} paid ${plan.amount} ${request.currencyCode}${request.memo ? ` for "${request.memo}"` : ""}.`,
+  });
+
+  return { transactionId, amount: plan.amount, currencyCode: request.currencyCode, requester: recipientDisplayName(plan.recipient) };
+}
+
+/**
+ * Get one of the user's own requests
+ * @throws PaymentRequestError if it does not exist or belongs to someone else
+ */
+export async function requireOwnPaymentRequest(userId: number, id: number) {
+  const request = await getPaymentRequestById(id);
+  if (!request || request.userId !== userId) {
+    throw new PaymentRequestError("Payment request not found");
+  }
+  return request;
+}
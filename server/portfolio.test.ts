@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Wallet } from "../drizzle/schema";
+
+const now = new Date("2025-01-01T12:00:00Z");
+
+vi.mock("./db", () => ({
+  getExchangeRate: vi.fn(async (from: string, to: string) => {
+    const rates: Record<string, { rate: string; updatedAt: Date }> = {
+      "BTC:USD": { rate: "60000.00000000", updatedAt: new Date(now.getTime() - 60 * 1000) },
+      "USD:JPY": { rate: "150.00000000", updatedAt: new Date(now.getTime() - 3 * 60 * 60 * 1000) },
+    };
+    const rate = rates[`${from}:${to}`];
+    return rate ? { fromCurrency: from, toCurrency: to, source: "test", ...rate } : undefined;
+  }),
+}));
+
+const { percentageOf, valuePortfolio } = await import("./portfolio");
+
+function wallet(id: number, currencyCode: string, balance: string): Wallet {
+  return {
+    id,
+    userId: 1,
+    currencyCode,
+    balance,
+    address: null,
+    isActive: true,
+    createdAt: now,
+    updatedAt: now,
+  } as Wallet;
+}
+
+describe("portfolio valuation", () => {
+  it("converts each wallet into the base currency", async () => {
+    const valuation = await valuePortfolio([wallet(1, "BTC", "1.00000000"), wallet(2, "JPY", "150.00")], "USD", now);
+
+    expect(valuation.totalValue).toBe("60001.00000000");
+    expect(valuation.wallets[0]).toMatchObject({
+      value: "60000.00000000",
+      rate: "60000.00000000",
+      rateMissing: false,
+      rateStale: false,
+    });
+    expect(valuation.wallets[1].value).toBe("1.00000000");
+  });
+
+  it("sums values exactly where floating point would drift", async () => {
+    const wallets = Array.from({ length: 10 }, (_, index) => wallet(index + 1, "BTC", "0.00000001"));
+    const valuation = await valuePortfolio(wallets, "USD", now);
+
+    expect(valuation.totalValue).toBe("0.00600000");
+    expect(valuation.wallets.reduce((sum, valuation) => sum + Number(valuation.value), 0)).not.toBe(0.006);
+    expect(percentageOf(valuation.wallets[0].value!, valuation.totalValue)).toBe("10.00");
+    expect(percentageOf("1", "3")).toBe("33.33");
+  });
+
+  it("flags stale and missing rates and leaves unvalued wallets out of the total", async () => {
+    const valuation = await valuePortfolio([wallet(1, "JPY", "300.00"), wallet(2, "DOGE", "1000")], "USD", now);
+
+    expect(valuation.wallets[0].rateStale).toBe(true);
+    expect(valuation.wallets[1]).toMatchObject({ value: null, rateMissing: true });
+    expect(valuation.totalValue).toBe("2.00000000");
+    expect(valuation.incomplete).toBe(true);
+    expect(valuation.stale).toBe(true);
+  });
+});
@@ -0,0 +1,127 @@
+import { getExchangeRate } from "./db";
+import type { Wallet } from "../drizzle/schema";
+import { addDecimals, compareDecimals, divideDecimals, MAX_SCALE, multiplyDecimals, roundDecimal } from "@shared/money";
+
+/**
+ * Portfolio valuation
+ * Converts each wallet into a base currency using the cached exchange
+ * rates. Wallets without a rate are reported but left out of totals.
+ * Values are decimal strings at the amount columns' scale.
+ */
+
+/** Rates older than this are still used but flagged as stale */
+export const RATE_STALE_AFTER_MS = 60 * 60 * 1000;
+
+/** Fractional digits kept when inverting a rate, so small inverses stay precise */
+const INVERSE_RATE_SCALE = 18;
+
+/** Fractional digits of a wallet's share of the portfolio, in percent */
+const PERCENTAGE_SCALE = 2;
+
+export type ResolvedRate = {
+  /** Decimal string: units of `to` per unit of `from` */
+  rate: string;
+  updatedAt: Date | null;
+  source: string | null;
+};
+
+export type WalletValuation = {
+  walletId: number;
+  currency: string;
+  balance: string;
+  /** Balance in the base currency, or null when no rate is available */
+  value: string | null;
+  rate: string | null;
+  rateTimestamp: Date | null;
+  rateSource: string | null;
+  rateMissing: boolean;
+  rateStale: boolean;
+};
+
+export type PortfolioValuation = {
+  baseCurrency: string;
+  totalValue: string;
+  wallets: WalletValuation[];
+  /** Some wallets could not be valued and are missing from the total */
+  incomplete: boolean;
+  /** Some wallets were valued with a stale rate */
+  stale: boolean;
+};
+
+/**
+ * Find the rate converting one unit of `from` into `to`
+ * Falls back to inverting the reverse pair when only that one is cached.
+ */
+export async function resolveRate(from: string, to: string): Promise<ResolvedRate | null> {
+  if (from === to) {
+    return { rate: "1", updatedAt: null, source: null };
+  }
+
+  const direct = await getExchangeRate(from, to);
+  if (direct && compareDecimals(direct.rate, "0") > 0) {
+    return { rate: direct.rate, updatedAt: direct.updatedAt, source: direct.source };
+  }
+
+  const inverse = await getExchangeRate(to, from);
+  if (inverse && compareDecimals(inverse.rate, "0") > 0) {
+    return {
+      rate: divideDecimals("1", inverse.rate, INVERSE_RATE_SCALE),
+      updatedAt: inverse.updatedAt,
+      source: inverse.source,
+    };
+  }
+
+  return null;
+}
+
+export async function valuePortfolio(
+  wallets: Wallet[],
+  baseCurrency: string,
+  now = new Date()
+): Promise<PortfolioValuation> {
+  const valuations = await Promise.all(
+    wallets.map(async (wallet): Promise<WalletValuation> => {
+      const resolved = await resolveRate(wallet.currencyCode, baseCurrency);
+      if (!resolved) {
+        return {
+          walletId: wallet.id,
+          currency: wallet.currencyCode,
+          balance: wallet.balance,
+          value: null,
+          rate: null,
+          rateTimestamp: null,
+          rateSource: null,
+          rateMissing: true,
+          rateStale: false,
+        };
+      }
+
+      return {
+        walletId: wallet.id,
+        currency: wallet.currencyCode,
+        balance: wallet.balance,
+        value: multiplyDecimals(wallet.balance, resolved.rate, MAX_SCALE),
+        rate: resolved.rate,
+        rateTimestamp: resolved.updatedAt,
+        rateSource: resolved.source,
+        rateMissing: false,
+        rateStale: resolved.updatedAt !== null && now.getTime() - resolved.updatedAt.getTime() > RATE_STALE_AFTER_MS,
+      };
+    })
+  );
+
+  return {
+    baseCurrency,
+    totalValue: valuations.reduce((sum, valuation) => addDecimals(sum, valuation.value ?? "0"), roundDecimal("0", MAX_SCALE)),
+    wallets: valuations,
+    incomplete: valuations.some(valuation => valuation.rateMissing),
+    stale: valuations.some(valuation => valuation.rateStale),
+  };
+}
+
+/**
+ * `value` as a percentage of `total`, rounded to PERCENTAGE_SCALE
+ */
+export function percentageOf(value: string, total: string) {
+  return divideDecimals(multiplyDecimals(value, "100", MAX_SCALE), total, PERCENTAGE_SCALE);
+}
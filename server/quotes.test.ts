@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const now = new Date("2025-01-01T12:00:00Z");
+
+type FakeQuote = {
+  id: number;
+  userId: number;
+  fromCurrency: string;
+  toCurrency: string;
+  amount: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+};
+
+const quotes = new Map<number, FakeQuote>();
+
+vi.mock("./db", () => ({
+  lockExchangeQuote: vi.fn(async (_tx: object, id: number) => quotes.get(id)),
+  markExchangeQuoteUsed: vi.fn(async (_tx: object, id: number) => {
+    quotes.get(id)!.usedAt = now;
+  }),
+}));
+
+const { priceConversion, QuoteError, redeemQuote } = await import("./quotes");
+
+const usd = { code: "USD", decimals: 2 };
+const jpy = { code: "JPY", decimals: 0 };
+const tx = {} as Parameters<typeof redeemQuote>[0];
+
+describe("exchange quotes", () => {
+  beforeEach(() => {
+    quotes.clear();
+    quotes.set(1, {
+      id: 1,
+      userId: 7,
+      fromCurrency: "USD",
+      toCurrency: "JPY",
+      amount: "100.00000000",
+      expiresAt: new Date(now.getTime() + 1000),
+      usedAt: null,
+    });
+  });
+
+  it("takes the spread off the rate and rounds in the house's favour", () => {
+    expect(priceConversion("100.00", "150", "0.10", usd, jpy)).toMatchObject({
+      rate: "149.250000000000000000",
+      convertedAmount: "14925",
+      fee: "0.10",
+    });
+  });
+
+  it("refuses conversions that round to nothing", () => {
+    expect(() => priceConversion("0.01", "0.5", "0", usd, usd)).toThrow(QuoteError);
+  });
+
+  it("spends a quote once, only for its owner and terms, before it expires", async () => {
+    const request = { fromCurrency: "USD", toCurrency: "JPY", amount: "100.00" };
+
+    await expect(redeemQuote(tx, 1, 8, request, now)).rejects.toThrow("Quote not found");
+    await expect(redeemQuote(tx, 1, 7, { ...request, amount: "99" }, now)).rejects.toThrow(/does not match/);
+    await expect(redeemQuote(tx, 1, 7, request, new Date(now.getTime() + 1000))).rejects.toThrow(/expired/);
+    await expect(redeemQuote(tx, 1, 7, request, now)).resolves.toMatchObject({ id: 1 });
+    await expect(redeemQuote(tx, 1, 7, request, now)).rejects.toThrow(/already been used/);
+  });
+});
@@ -0,0 +1,181 @@
+import { createExchangeQuote, lockExchangeQuote, markExchangeQuoteUsed, withTransaction, type DbTransaction } from "./db";
+import type { InsertTransaction } from "../drizzle/schema";
+import { exchangeLines, feeLines, postLedgerLines, type AfterPost } from "./ledger";
+import { recordTransaction } from "./transactionStates";
+import { RATE_STALE_AFTER_MS, resolveRate } from "./portfolio";
+import { requireCurrency } from "./currencies";
+import { quoteFee } from "./fees";
+import {
+  compareDecimals,
+  multiplyDecimals,
+  parseAmount,
+  subtractDecimals,
+  type CurrencyPrecision,
+} from "@shared/money";
+
+/**
+ * Exchange quotes
+ * Converting between currencies is priced up front: a quote fixes the rate
+ * (the market rate less the spread), the fee and the converted amount for
+ * a short time, and the transaction that spends it posts exactly those
+ * figures.
+ */
+
+/** How long a quote can be accepted */
+export const QUOTE_TTL_MS = 60 * 1000;
+
+/** Fraction of the market rate kept on every conversion */
+export const CONVERSION_SPREAD = "0.005";
+
+const QUOTE_RATE_SCALE = 18;
+
+export class QuoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuoteError";
+  }
+}
+
+export type ConversionTerms = {
+  fromCurrency: string;
+  toCurrency: string;
+  amount: string;
+  fee: string;
+  marketRate: string;
+  spread: string;
+  rate: string;
+  convertedAmount: string;
+};
+
+type ConversionRequest = { fromCurrency: string; toCurrency: string; amount: string };
+
+/**
+ * Price converting `amount` at `marketRate`, charging `fee` in the source currency
+ * The converted amount rounds down in the destination currency, so
+ * rounding never creates value.
+ */
+export function priceConversion(
+  amount: string,
+  marketRate: string,
+  fee: string,
+  from: CurrencyPrecision,
+  to: CurrencyPrecision
+): ConversionTerms {
+  const rate = multiplyDecimals(marketRate, subtractDecimals("1", CONVERSION_SPREAD), QUOTE_RATE_SCALE, "down");
+  const convertedAmount = multiplyDecimals(amount, rate, to.decimals, "down");
+  if (compareDecimals(convertedAmount, "0") <= 0) {
+    throw new QuoteError("Amount too small to convert");
+  }
+
+  return {
+    fromCurrency: from.code,
+    toCurrency: to.code,
+    amount,
+    fee,
+    marketRate,
+    spread: CONVERSION_SPREAD,
+    rate,
+    convertedAmount,
+  };
+}
+
+/**
+ * Offer the user a conversion price they can accept until it expires
+ * The fee comes from the user's exchange fee schedule for the source currency.
+ * @throws QuoteError if no fresh rate is available
+ */
+export async function quoteConversion(userId: number, request: ConversionRequest, now = new Date()) {
+  const from = await requireCurrency(request.fromCurrency);
+  const to = await requireCurrency(request.toCurrency);
+  const amount = parseAmount(request.amount, from);
+
+  const market = await resolveRate(from.code, to.code);
+  if (!market) {
+    throw new QuoteError(`No exchange rate available for ${from.code} to ${to.code}`);
+  }
+  if (market.updatedAt && now.getTime() - market.updatedAt.getTime() > RATE_STALE_AFTER_MS) {
+    throw new QuoteError(`The ${from.code} to ${to.code} rate is out of date`);
+  }
+
+  const { fee } = await quoteFee(userId, "exchange", from, amount);
+  const terms = priceConversion(amount, market.rate, fee, from, to);
+  const expiresAt = new Date(now.getTime() + QUOTE_TTL_MS);
+  const id = await createExchangeQuote({ userId, ...terms, expiresAt });
+  return { id, ...terms, expiresAt };
+}
+
+/**
+ * Spend a quote; must run inside the transaction that posts the conversion
+ * @throws QuoteError if the quote is not the user's, does not match the
+ *   request, has expired or was already used
+ */
+export async function redeemQuote(
+  tx: DbTransaction,
+  quoteId: number,
+  userId: number,
+  expected: ConversionRequest,
+  now = new Date()
+) {
+  const quote = await lockExchangeQuote(tx, quoteId);
+  if (!quote || quote.userId !== userId) {
+    throw new QuoteError("Quote not found");
+  }
+  if (
+    quote.fromCurrency !== expected.fromCurrency ||
+    quote.toCurrency !== expected.toCurrency ||
+    compareDecimals(quote.amount, expected.amount) !== 0
+  ) {
+    throw new QuoteError("Quote does not match this transfer");
+  }
+  if (quote.usedAt) {
+    throw new QuoteError("Quote has already been used");
+  }
+  if (quote.expiresAt <= now) {
+    throw new QuoteError("Quote has expired; request a new one");
+  }
+
+  await markExchangeQuoteUsed(tx, quote.id);
+  return quote;
+}
+
+/**
+ * Record a conversion between two wallets at a quoted price
+ * Posts both legs through the exchange account plus the fee, and stores
+ * the rate, converted amount and quote on the transaction.
+ * @param afterPost Runs in the same database transaction; throwing undoes the conversion
+ * @returns The new transaction ID and the quote spent
+ */
+export async function postQuotedConversion(
+  quoteId: number,
+  userId: number,
+  data: InsertTransaction,
+  from: { walletId: number; currencyCode: string },
+  to: { walletId: number; currencyCode: string },
+  afterPost?: AfterPost
+) {
+  return withTransaction(async tx => {
+    const quote = await redeemQuote(tx, quoteId, userId, {
+      fromCurrency: from.currencyCode,
+      toCurrency: to.currencyCode,
+      amount: data.amount,
+    });
+
+    const transactionId = await recordTransaction(tx, {
+      ...data,
+      fee: quote.fee,
+      exchangeRate: quote.rate,
+      convertedAmount: quote.convertedAmount,
+      quoteId: quote.id,
+    });
+    const fromCurrency = await requireCurrency(from.currencyCode, { allowDisabled: true });
+    await postLedgerLines(tx, transactionId, [
+      ...exchangeLines(
+        { walletId: from.walletId, currencyCode: from.currencyCode, amount: quote.amount },
+        { walletId: to.walletId, currencyCode: to.currencyCode, amount: quote.convertedAmount }
+      ),
+      ...feeLines(from.walletId, fromCurrency, quote.fee),
+    ]);
+    await afterPost?.(tx, transactionId);
+    return { transactionId, quote };
+  });
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from "vitest";
+
+const alice = { id: 1, name: "Alice", handle: "alice", email: "alice@example.com" };
+const bob = { id: 2, name: null, handle: "bob", email: "shared@example.com" };
+const carol = { id: 3, name: "Carol", handle: null, email: "shared@example.com" };
+const users = [alice, bob, carol];
+
+const wallets = [
+  { id: 10, userId: 1, currencyCode: "USD", isActive: true },
+  { id: 20, userId: 2, currencyCode: "EUR", isActive: true },
+];
+const walletCount = wallets.length;
+
+vi.mock("./db", () => ({
+  getUserById: vi.fn(async (id: number) => users.find(user => user.id === id)),
+  getUserByHandle: vi.fn(async (handle: string) => users.find(user => user.handle === handle)),
+  getUsersByEmail: vi.fn(async (email: string) => users.filter(user => user.email === email)),
+  getUserWallets: vi.fn(async (userId: number) => wallets.filter(wallet => wallet.userId === userId)),
+  getWalletById: vi.fn(async (id: number) => wallets.find(wallet => wallet.id === id)),
+  getCurrencyByCode: vi.fn(async (code: string) => ({ code, decimals: 2, enabled: true })),
+  // Mirrors the unique (userId, currencyCode) index: a second insert is ignored
+  openWallet: vi.fn(async (userId: number, currencyCode: string) => {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (!wallets.some(wallet => wallet.userId === userId && wallet.currencyCode === currencyCode)) {
+      wallets.push({ id: wallets.length * 10 + 10, userId, currencyCode, isActive: true });
+    }
+    return wallets.find(wallet => wallet.userId === userId && wallet.currencyCode === currencyCode);
+  }),
+}));
+
+const {
+  encodePaymentQr,
+  openRecipientWallet,
+  parsePaymentQr,
+  planTransfer,
+  RecipientError,
+  recipientDisplayName,
+  recipientSchema,
+} = await import("./recipients");
+
+describe("transfer recipients", () => {
+  it("normalizes handles and emails", () => {
+    expect(recipientSchema.parse({ type: "handle", handle: " @Bob " })).toEqual({ type: "handle", handle: "bob" });
+    expect(recipientSchema.parse({ type: "email", email: "Alice@Example.com" })).toEqual({
+      type: "email",
+      email: "alice@example.com",
+    });
+    expect(recipientSchema.safeParse({ type: "handle", handle: "no spaces" }).success).toBe(false);
+  });
+
+  it("round-trips payment QR payloads and rejects others", () => {
+    expect(parsePaymentQr(encodePaymentQr({ userId: 2, currencyCode: "EUR" }))).toEqual({ userId: 2, currencyCode: "EUR" });
+    expect(() => parsePaymentQr("https://example.com/?to=2")).toThrow(RecipientError);
+    expect(() => parsePaymentQr("biowallet:pay?to=abc")).toThrow(RecipientError);
+  });
+
+  it("picks the recipient's wallet in the sender's currency or plans a new one", async () => {
+    const toBob = await planTransfer(1, { fromWalletId: 10, recipient: { type: "handle", handle: "bob" }, amount: "5" });
+    expect(toBob).toMatchObject({ recipient: { id: 2 }, toCurrencyCode: "USD", toWallet: undefined, amount: "5.00" });
+    expect(recipientDisplayName(toBob.recipient)).toBe("@bob");
+
+    const toAlice = await planTransfer(2, {
+      fromWalletId: 20,
+      recipient: { type: "qr", payload: encodePaymentQr({ userId: 1 }) },
+      amount: "1",
+    });
+    expect(toAlice.recipient.id).toBe(1);
+  });
+
+  it("credits the currency a payment code asks for", async () => {
+    const plan = await planTransfer(1, {
+      fromWalletId: 10,
+      recipient: { type: "qr", payload: encodePaymentQr({ userId: 2, currencyCode: "EUR" }) },
+      amount: "1",
+    });
+    expect(plan).toMatchObject({ toCurrencyCode: "EUR", toWallet: { id: 20 } });
+  });
+
+  it("refuses ambiguous emails, self-transfers and foreign source wallets", async () => {
+    const send = (recipient: Parameters<typeof planTransfer>[1]["recipient"]) =>
+      planTransfer(1, { fromWalletId: 10, recipient, amount: "1" });
+
+    await expect(send({ type: "email", email: "shared@example.com" })).rejects.toThrow(/more than one account/i);
+    await expect(send({ type: "handle", handle: "alice" })).rejects.toThrow(/yourself/);
+    await expect(
+      planTransfer(2, { fromWalletId: 10, recipient: { type: "handle", handle: "alice" }, amount: "1" })
+    ).rejects.toThrow(/Invalid source wallet/);
+  });
+
+  it("opens one wallet for concurrent transfers to a recipient without one", async () => {
+    const plan = await planTransfer(1, { fromWalletId: 10, recipient: { type: "handle", handle: "bob" }, amount: "5" });
+    const [first, second] = await Promise.all([openRecipientWallet(plan), openRecipientWallet(plan)]);
+
+    expect(first).toMatchObject({ userId: 2, currencyCode: "USD" });
+    expect(second?.id).toBe(first?.id);
+    expect(wallets).toHaveLength(walletCount + 1);
+    wallets.splice(walletCount);
+  });
+});
@@ -0,0 +1,185 @@
+import { z } from "zod";
+import { getUserByHandle, getUserById, getUsersByEmail, getUserWallets, getWalletById, openWallet } from "./db";
+import type { Currency, User, Wallet } from "../drizzle/schema";
+import { currencyCodeSchema, requireCurrency } from "./currencies";
+import { parseAmount } from "@shared/money";
+
+/**
+ * Transfer recipients
+ * Senders address a person, not a wallet: an email, a handle or a payment
+ * QR code resolves to a user, and the transfer lands in that user's wallet
+ * for the destination currency, which is opened if they do not have one
+ * yet. The destination currency is the one the sender picks, else the one
+ * a payment code asks for, else the sender's own.
+ */
+
+export class RecipientError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecipientError";
+  }
+}
+
+export const handleSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .transform(handle => handle.replace(/^@/, ""))
+  .pipe(z.string().regex(/^[a-z0-9_]{3,30}$/, "Handles are 3-30 letters, digits or underscores"));
+
+export const recipientSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("email"), email: z.string().trim().toLowerCase().pipe(z.email()) }),
+  z.object({ type: z.literal("handle"), handle: handleSchema }),
+  z.object({ type: z.literal("qr"), payload: z.string().trim().max(512) }),
+]);
+
+export type Recipient = z.infer<typeof recipientSchema>;
+
+/** Scheme and path of payment QR payloads, e.g. `biowallet:pay?to=42&currency=USD` */
+export const PAYMENT_QR_PREFIX = "biowallet:pay";
+
+type PaymentCode = { userId: number; currencyCode?: string };
+
+/**
+ * Build the payload encoded in a user's payment QR code
+ */
+export function encodePaymentQr(code: PaymentCode) {
+  const params = new URLSearchParams({ to: String(code.userId) });
+  if (code.currencyCode) {
+    params.set("currency", code.currencyCode);
+  }
+  return `${PAYMENT_QR_PREFIX}?${params.toString()}`;
+}
+
+/**
+ * Parse a scanned payment QR payload
+ * @throws RecipientError if the payload is not a payment code
+ */
+export function parsePaymentQr(payload: string): PaymentCode {
+  const [prefix, query = ""] = payload.split("?", 2);
+  const params = new URLSearchParams(query);
+  const to = params.get("to") ?? "";
+  if (prefix !== PAYMENT_QR_PREFIX || !/^[1-9]\d{0,9}$/.test(to)) {
+    throw new RecipientError("Unrecognized payment code");
+  }
+
+  const currency = params.get("currency");
+  const currencyCode = currency ? currencyCodeSchema.safeParse(currency) : undefined;
+  if (currencyCode && !currencyCode.success) {
+    throw new RecipientError("Unrecognized payment code");
+  }
+  return { userId: Number(to), currencyCode: currencyCode?.data };
+}
+
+/**
+ * Stable description of a recipient, bound into step-up approvals
+ */
+export function describeRecipient(recipient: Recipient) {
+  switch (recipient.type) {
+    case "email":
+      return `email:${recipient.email}`;
+    case "handle":
+      return `handle:${recipient.handle}`;
+    case "qr":
+      return `qr:${recipient.payload}`;
+  }
+}
+
+/**
+ * Name shown to the sender before they confirm a transfer
+ */
+export function recipientDisplayName(user: Pick<User, "id" | "name" | "handle">) {
+  return user.name || (user.handle ? `@${user.handle}` : `User #${user.id}`);
+}
+
+/**
+ * Find the user a recipient refers to
+ * @returns The user and, for QR codes, the currency the code asks for
+ */
+export async function resolveRecipient(recipient: Recipient): Promise<{ user: User; currencyCode?: string }> {
+  switch (recipient.type) {
+    case "email": {
+      const matches = await getUsersByEmail(recipient.email);
+      if (matches.length > 1) {
+        throw new RecipientError("More than one account uses this email; send to their handle instead");
+      }
+      if (matches.length === 0) {
+        throw new RecipientError("No user found with this email");
+      }
+      return { user: matches[0] };
+    }
+    case "handle": {
+      const user = await getUserByHandle(recipient.handle);
+      if (!user) {
+        throw new RecipientError(`No user found with handle @${recipient.handle}`);
+      }
+      return { user };
+    }
+    case "qr": {
+      const code = parsePaymentQr(recipient.payload);
+      const user = await getUserById(code.userId);
+      if (!user) {
+        throw new RecipientError("This payment code's account no longer exists");
+      }
+      return { user, currencyCode: code.currencyCode };
+    }
+  }
+}
+
+export type TransferPlan = {
+  fromWallet: Wallet;
+  /** The source wallet's currency, which the amount and any fee are in */
+  fromCurrency: Currency;
+  recipient: User;
+  /** Currency credited to the recipient; differs from the source wallet's for conversions */
+  toCurrencyCode: string;
+  /** The recipient's wallet in that currency; undefined if one will be opened */
+  toWallet?: Wallet;
+  amount: string;
+};
+
+/**
+ * Validate a transfer and work out where it lands, without moving funds
+ * @throws RecipientError, CurrencyError or MoneyError if it cannot go ahead
+ */
+export async function planTransfer(
+  senderId: number,
+  request: { fromWalletId: number; recipient: Recipient; amount: string; toCurrencyCode?: string }
+): Promise<TransferPlan> {
+  const fromWallet = await getWalletById(request.fromWalletId);
+  if (!fromWallet || fromWallet.userId !== senderId) {
+    throw new RecipientError("Invalid source wallet");
+  }
+
+  const { user, currencyCode } = await resolveRecipient(request.recipient);
+  if (user.id === senderId) {
+    throw new RecipientError("You cannot send money to yourself");
+  }
+
+  const currency = await requireCurrency(fromWallet.currencyCode);
+  const amount = parseAmount(request.amount, currency);
+  const toCurrency = await requireCurrency(request.toCurrencyCode ?? currencyCode ?? currency.code);
+
+  const toWallet = (await getUserWallets(user.id)).find(wallet => wallet.currencyCode === toCurrency.code);
+  if (toWallet && !toWallet.isActive) {
+    throw new RecipientError(`The recipient cannot receive ${toCurrency.code} right now`);
+  }
+
+  return { fromWallet, fromCurrency: currency, recipient: user, toCurrencyCode: toCurrency.code, toWallet, amount };
+}
+
+/**
+ * Get the wallet a planned transfer credits, opening it if needed
+ * Concurrent transfers to a recipient without one share the wallet opened first.
+ */
+export async function openRecipientWallet(plan: TransferPlan) {
+  if (plan.toWallet) {
+    return plan.toWallet;
+  }
+
+  const wallet = await openWallet(plan.recipient.id, plan.toCurrencyCode);
+  if (!wallet) {
+    throw new Error(`No ${plan.toCurrencyCode} wallet was opened for user ${plan.recipient.id}`);
+  }
+  return wallet;
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { generateRecoveryCodeSet, hashRecoveryCode, redeemRecoveryCode, RECOVERY_CODE_COUNT } from "./recoveryCodes";
+
+describe("recovery codes", () => {
+  it("generates a full set of distinct, readable codes", () => {
+    const codes = generateRecoveryCodeSet();
+
+    expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(new Set(codes).size).toBe(RECOVERY_CODE_COUNT);
+    for (const code of codes) {
+      expect(code).toMatch(/^[0-9A-HJKMNP-TV-Z]{5}-[0-9A-HJKMNP-TV-Z]{5}$/);
+    }
+  });
+
+  it("hashes codes independently of case and separators", () => {
+    const [code] = generateRecoveryCodeSet(1);
+
+    expect(hashRecoveryCode(code.toLowerCase().replace("-", " "))).toBe(hashRecoveryCode(code));
+    expect(hashRecoveryCode(code)).not.toContain(code.replace("-", ""));
+  });
+
+  it("rejects malformed codes without consulting the database", async () => {
+    expect(await redeemRecoveryCode(1, "ABCDE")).toBe(false);
+    expect(await redeemRecoveryCode(1, "")).toBe(false);
+  });
+});
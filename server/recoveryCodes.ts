@@ -0,0 +1,94 @@
+import { createHmac, randomInt } from "crypto";
+import { consumeRecoveryCode, countUnusedRecoveryCodes, replaceRecoveryCodes } from "./db";
+import { ENV } from "./_core/env";
+import { recordSecurityEvent } from "./securityEvents";
+
+/**
+ * One-time recovery codes
+ * A fallback for users who lose the authenticator holding their only
+ * fingerprint credential. Only keyed hashes are stored; the plaintext codes
+ * are shown to the user once, when generated.
+ */
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// Crockford base32 without I, L, O and U to avoid misreading printed codes
+const ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const GROUP_LENGTH = 5;
+
+function randomGroup(): string {
+  let group = "";
+  for (let i = 0; i < GROUP_LENGTH; i++) {
+    group += ALPHABET[randomInt(ALPHABET.length)];
+  }
+  return group;
+}
+
+/**
+ * Strip separators and case so "abcde-fghjk" and "ABCDE FGHJK" match
+ */
+export function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[^0-9A-Z]/g, "");
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHmac("sha256", ENV.cookieSecret).update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+export function generateRecoveryCodeSet(count = RECOVERY_CODE_COUNT): string[] {
+  const codes = new Set<string>();
+  while (codes.size < count) {
+    codes.add(`${randomGroup()}-${randomGroup()}`);
+  }
+  return Array.from(codes);
+}
+
+/**
+ * Replace the user's recovery codes and return the new plaintext set
+ */
+export async function regenerateRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = generateRecoveryCodeSet();
+  await replaceRecoveryCodes(userId, codes.map(hashRecoveryCode));
+
+  await recordSecurityEvent(userId, {
+    action: "recovery_codes_regenerated",
+    subject: "Recovery codes regenerated",
+    content: "A new set of recovery codes was generated. Any previous codes no longer work.",
+    details: { count: codes.length },
+  });
+
+  return codes;
+}
+
+export async function getRemainingRecoveryCodes(userId: number): Promise<number> {
+  return countUnusedRecoveryCodes(userId);
+}
+
+/**
+ * Redeem a recovery code in place of a biometric assertion
+ * @param context What the code was used to approve, recorded in the audit log
+ */
+export async function redeemRecoveryCode(
+  userId: number,
+  code: string,
+  context?: Record<string, unknown>
+): Promise<boolean> {
+  if (normalizeRecoveryCode(code).length !== GROUP_LENGTH * 2) {
+    return false;
+  }
+
+  const consumed = await consumeRecoveryCode(userId, hashRecoveryCode(code));
+  if (!consumed) {
+    return false;
+  }
+
+  const remaining = await countUnusedRecoveryCodes(userId);
+  await recordSecurityEvent(userId, {
+    action: "recovery_code_redeemed",
+    subject: "Recovery code used",
+    content: `A recovery code was used to verify an operation on your account. ${remaining} code(s) remaining.`,
+    details: { remaining, ...context },
+  });
+
+  return true;
+}
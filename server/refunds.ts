@@ -0,0 +1,171 @@
+import {
+  addRefundedAmount,
+  createNotification,
+  getActiveDispute,
+  getActiveHoldForTransaction,
+  getTransactionById,
+  getWalletById,
+  lockTransaction,
+  withTransaction,
+  type DbTransaction,
+} from "./db";
+import type { Transaction } from "../drizzle/schema";
+import { postLedgerLines, transferLines } from "./ledger";
+import { releaseHold } from "./holds";
+import { recordTransaction, transitionTransaction } from "./transactionStates";
+import { requireCurrency } from "./currencies";
+import { compareDecimals, parseAmount, subtractDecimals } from "@shared/money";
+
+/**
+ * Refunds and cancellations
+ * A completed transfer is undone by a refund: a new transaction moving all
+ * or part of it back from the payee's wallet to the payer's, linked by
+ * `refundOfId`. Pending transactions can instead be cancelled by whoever
+ * started them for a short time after they were made.
+ */
+
+/** How long after creating a pending transaction its owner can cancel it */
+export const CANCEL_WINDOW_MS = 30 * 60 * 1000;
+
+export class RefundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RefundError";
+  }
+}
+
+/**
+ * What is left to refund on a transfer
+ */
+export function refundableAmount(transaction: Pick<Transaction, "amount" | "refundedAmount">) {
+  return subtractDecimals(transaction.amount, transaction.refundedAmount);
+}
+
+/**
+ * @param action How the transfer is being undone, for error messages
+ * @throws RefundError unless the transaction is a completed same-currency transfer
+ */
+export function assertRefundable(transaction: Transaction, action: "refunded" | "disputed" = "refunded") {
+  if (transaction.transactionType !== "transfer" || !transaction.toWalletId) {
+    throw new RefundError(`Only transfers can be ${action}`);
+  }
+  if (transaction.status !== "completed") {
+    throw new RefundError(`Only completed transfers can be ${action}`);
+  }
+  if (transaction.convertedAmount !== null) {
+    throw new RefundError(`Cross-currency transfers cannot be ${action}`);
+  }
+  if (compareDecimals(refundableAmount(transaction), "0") <= 0) {
+    throw new RefundError("This transfer has already been refunded in full");
+  }
+}
+
+/**
+ * Post a refund of a locked transfer; must run inside a database transaction
+ * @param amount Defaults to everything not yet refunded
+ * @param options.captureHoldId A dispute hold on the payee's wallet that the refund spends
+ * @throws RefundError if the amount is more than is left to refund, or
+ *   InsufficientBalanceError if the payee's wallet cannot cover it
+ * @returns The refund transaction ID and amount
+ */
+export async function postRefund(
+  tx: DbTransaction,
+  original: Transaction,
+  amount: string | undefined,
+  options: { description?: string; captureHoldId?: number } = {}
+) {
+  assertRefundable(original);
+  const payeeWallet = await getWalletById(original.toWalletId!);
+  if (!payeeWallet) {
+    throw new RefundError("The payee's wallet no longer exists");
+  }
+  const currency = await requireCurrency(payeeWallet.currencyCode, { allowDisabled: true });
+
+  const remaining = refundableAmount(original);
+  const refund = amount === undefined ? parseAmount(remaining, currency) : parseAmount(amount, currency);
+  if (compareDecimals(refund, remaining) > 0) {
+    throw new RefundError(`At most ${parseAmount(remaining, currency)} ${currency.code} can be refunded`);
+  }
+
+  const refundId = await recordTransaction(tx, {
+    fromUserId: original.toUserId,
+    toUserId: original.fromUserId,
+    fromWalletId: original.toWalletId!,
+    toWalletId: original.fromWalletId,
+    amount: refund,
+    fee: "0",
+    transactionType: "refund",
+    status: "completed",
+    description: options.description ?? `Refund of transaction #${original.id}`,
+    refundOfId: original.id,
+  });
+  await postLedgerLines(
+    tx,
+    refundId,
+    transferLines(original.toWalletId!, original.fromWalletId, currency.code, refund),
+    { captureHoldId: options.captureHoldId }
+  );
+  await addRefundedAmount(tx, original.id, refund);
+  return { refundId, amount: refund, currencyCode: currency.code };
+}
+
+/**
+ * Refund a transfer the user received
+ * Not allowed while the transfer is disputed; the dispute decides instead.
+ */
+export async function refundTransfer(payeeId: number, transactionId: number, amount?: string, reason?: string) {
+  const refund = await withTransaction(async tx => {
+    const original = await lockTransaction(tx, transactionId);
+    if (!original || original.toUserId !== payeeId || original.fromUserId === payeeId) {
+      throw new RefundError("Transaction not found");
+    }
+    if (await getActiveDispute(tx, original.id)) {
+      throw new RefundError("This transfer is disputed; it will be settled when the dispute is resolved");
+    }
+
+    const posted = await postRefund(tx, original, amount, { description: reason });
+    return { ...posted, payerId: original.fromUserId };
+  });
+
+  if (refund.payerId) {
+    await createNotification({
+      userId: refund.payerId,
+      type: "transfer",
+      subject: "Refund received",
+      content: `You were refunded ${refund.amount} ${refund.currencyCode} for transaction #${transactionId}.`,
+    });
+  }
+  return refund;
+}
+
+/**
+ * Cancel a pending transaction the user started, within the cancel window
+ * Funds it reserved are released.
+ */
+export async function cancelPendingTransaction(userId: number, transactionId: number, now = new Date()) {
+  const transaction = await getTransactionById(transactionId);
+  if (!transaction || transaction.fromUserId !== userId) {
+    throw new RefundError("Transaction not found");
+  }
+  if (transaction.status !== "pending") {
+    throw new RefundError(`Only pending transactions can be cancelled; this one is ${transaction.status}`);
+  }
+  if (now.getTime() - transaction.createdAt.getTime() > CANCEL_WINDOW_MS) {
+    throw new RefundError("The cancellation window for this transaction has passed");
+  }
+
+  const hold = await getActiveHoldForTransaction(transaction.id);
+  if (hold) {
+    // Releasing locks the hold, so this cannot race a capture
+    await releaseHold(hold.id, { actorId: userId, reason: "cancelled_by_user" });
+    return;
+  }
+
+  await withTransaction(async tx => {
+    const locked = await lockTransaction(tx, transaction.id);
+    if (locked?.status !== "pending") {
+      throw new RefundError(`Only pending transactions can be cancelled; this one is ${locked?.status}`);
+    }
+    await transitionTransaction(tx, transaction.id, "cancelled", { actorId: userId, reason: "cancelled_by_user" });
+  });
+}
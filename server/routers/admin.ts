@@ -1,8 +1,40 @@
 import { z } from "zod";
 import { protectedProcedure, router } from "../_core/trpc";
 import { TRPCError } from "@trpc/server";
-import { getUserWallets, getUserTransactions, getAuditLogs, createAuditLog } from "../db";
+import { getUserWallets, getUserTransactions, getAuditLogs, createAuditLog, listCurrencies, listDisputes, listFeeSchedules, getFeeRevenue } from "../db";
 import { InsertAuditLog } from "../../drizzle/schema";
+import {
+  authenticatorPolicySchema,
+  findPolicyViolations,
+  getAuthenticatorPolicy,
+  saveAuthenticatorPolicy,
+} from "../authenticatorPolicy";
+import { InsufficientBalanceError, reconcileLedger } from "../ledger";
+import { captureHold, expireHolds, HoldError, releaseHold, submitWithdrawal } from "../holds";
+import { TransactionStateError } from "../transactionStates";
+import { idempotencyKeySchema, runIdempotent } from "../idempotency";
+import {
+  addCurrency,
+  CurrencyError,
+  currencyCodeSchema,
+  currencySchema,
+  currencyUpdateSchema,
+  editCurrency,
+  removeCurrency,
+} from "../currencies";
+import { DisputeError, resolveDispute, resolveDisputeSchema } from "../disputes";
+import {
+  addFeeSchedule,
+  assignFeeTier,
+  editFeeSchedule,
+  FeeError,
+  feeScheduleSchema,
+  feeScheduleUpdateSchema,
+  feeTierSchema,
+  removeFeeSchedule,
+} from "../fees";
+import { RefundError } from "../refunds";
+import { addDecimals, MoneyError } from "@shared/money";
 
 /**
  * Admin-only procedures
@@ -93,7 +125,7 @@ export const adminRouter = router({
       try {
         // In production, fetch user details from database
         const wallets = await getUserWallets(input.userId);
-        const transactions = await getUserTransactions(input.userId, 50, 0);
+        const transactions = await getUserTransactions(input.userId, { limit: 50 });
 
         return {
           success: true,
@@ -101,7 +133,7 @@ export const adminRouter = router({
             id: input.userId,
             wallets: wallets.length,
             transactions: transactions.length,
-            totalVolume: transactions.reduce((sum, t) => sum + parseFloat(t.amount), 0),
+            totalVolume: transactions.reduce((sum, t) => addDecimals(sum, t.amount), "0"),
           },
         };
       } catch (error) {
@@ -188,26 +220,394 @@ export const adminRouter = router({
         walletId: z.number(),
         amount: z.string(),
         txHash: z.string().optional(),
+        idempotencyKey: idempotencyKeySchema.optional(),
       })
     )
+    .mutation(({ ctx, input }) =>
+      runIdempotent(ctx.user.id, "admin.depositCrypto", input, async () => {
+        try {
+          // In production, create transaction and update wallet balance
+          await createAuditLog({
+            adminId: ctx.user.id,
+            action: "deposit_crypto",
+            targetUserId: input.userId,
+            details: {
+              walletId: input.walletId,
+              amount: input.amount,
+              txHash: input.txHash,
+            },
+          });
+
+          return { success: true, message: "Deposit processed successfully" };
+        } catch (error) {
+          console.error("Failed to process deposit:", error);
+          return { success: false, error: "Failed to process deposit" };
+        }
+      })
+    ),
+
+  /**
+   * Get the authenticator policy applied to fingerprint registration
+   */
+  getAuthenticatorPolicy: adminProcedure.query(async () => {
+    try {
+      const policy = await getAuthenticatorPolicy();
+      return { success: true, policy };
+    } catch (error) {
+      console.error("Failed to get authenticator policy:", error);
+      return { success: false, error: "Failed to retrieve authenticator policy" };
+    }
+  }),
+
+  /**
+   * Replace the authenticator policy
+   * New registrations must comply immediately; existing credentials that
+   * break the new policy are returned for follow-up.
+   */
+  updateAuthenticatorPolicy: adminProcedure
+    .input(authenticatorPolicySchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { violations, affectedUsers } = await saveAuthenticatorPolicy(input, ctx.user.id);
+        return { success: true, message: "Authenticator policy updated", violations, affectedUsers };
+      } catch (error) {
+        console.error("Failed to update authenticator policy:", error);
+        return { success: false, error: "Failed to update authenticator policy" };
+      }
+    }),
+
+  /**
+   * List active fingerprint credentials that break the current policy
+   */
+  getAuthenticatorPolicyViolations: adminProcedure.query(async () => {
+    try {
+      const violations = await findPolicyViolations(await getAuthenticatorPolicy());
+      return {
+        success: true,
+        violations,
+        affectedUsers: new Set(violations.map(violation => violation.userId)).size,
+      };
+    } catch (error) {
+      console.error("Failed to get authenticator policy violations:", error);
+      return { success: false, error: "Failed to retrieve policy violations" };
+    }
+  }),
+
+  /**
+   * List every currency in the registry, including disabled ones
+   */
+  listCurrencies: adminProcedure.query(async () => {
+    try {
+      const currencies = await listCurrencies();
+      return { success: true, currencies };
+    } catch (error) {
+      console.error("Failed to list currencies:", error);
+      return { success: false, error: "Failed to retrieve currencies" };
+    }
+  }),
+
+  /**
+   * Add a currency to the registry
+   */
+  createCurrency: adminProcedure
+    .input(currencySchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await addCurrency(input, ctx.user.id);
+        return { success: true, message: `${input.code} added` };
+      } catch (error) {
+        if (error instanceof CurrencyError) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to create currency:", error);
+        return { success: false, error: "Failed to create currency" };
+      }
+    }),
+
+  /**
+   * Update a currency's name, kind, decimals, symbol, network or enabled flag
+   */
+  updateCurrency: adminProcedure
+    .input(currencyUpdateSchema)
     .mutation(async ({ ctx, input }) => {
       try {
-        // In production, create transaction and update wallet balance
+        await editCurrency(input, ctx.user.id);
+        return { success: true, message: `${input.code} updated` };
+      } catch (error) {
+        if (error instanceof CurrencyError) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to update currency:", error);
+        return { success: false, error: "Failed to update currency" };
+      }
+    }),
+
+  /**
+   * Delete a currency that no wallet uses
+   */
+  deleteCurrency: adminProcedure
+    .input(z.object({ code: currencyCodeSchema }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await removeCurrency(input.code, ctx.user.id);
+        return { success: true, message: `${input.code} deleted` };
+      } catch (error) {
+        if (error instanceof CurrencyError) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to delete currency:", error);
+        return { success: false, error: "Failed to delete currency" };
+      }
+    }),
+
+  /**
+   * List every fee schedule, including disabled ones
+   */
+  listFeeSchedules: adminProcedure.query(async () => {
+    try {
+      const schedules = await listFeeSchedules();
+      return { success: true, schedules };
+    } catch (error) {
+      console.error("Failed to list fee schedules:", error);
+      return { success: false, error: "Failed to retrieve fee schedules" };
+    }
+  }),
+
+  /**
+   * Add a fee schedule
+   */
+  createFeeSchedule: adminProcedure
+    .input(feeScheduleSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const id = await addFeeSchedule(input, ctx.user.id);
+        return { success: true, id, message: "Fee schedule created" };
+      } catch (error) {
+        if (error instanceof FeeError || error instanceof CurrencyError || error instanceof MoneyError) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to create fee schedule:", error);
+        return { success: false, error: "Failed to create fee schedule" };
+      }
+    }),
+
+  /**
+   * Change a fee schedule's scope, terms or enabled flag
+   */
+  updateFeeSchedule: adminProcedure
+    .input(feeScheduleUpdateSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await editFeeSchedule(input, ctx.user.id);
+        return { success: true, message: "Fee schedule updated" };
+      } catch (error) {
+        if (error instanceof FeeError || error instanceof CurrencyError || error instanceof MoneyError) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to update fee schedule:", error);
+        return { success: false, error: "Failed to update fee schedule" };
+      }
+    }),
+
+  /**
+   * Delete a fee schedule; transactions it covered fall back to a broader one
+   */
+  deleteFeeSchedule: adminProcedure
+    .input(z.object({ id: z.number().int().positive() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await removeFeeSchedule(input.id, ctx.user.id);
+        return { success: true, message: "Fee schedule deleted" };
+      } catch (error) {
+        if (error instanceof FeeError) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to delete fee schedule:", error);
+        return { success: false, error: "Failed to delete fee schedule" };
+      }
+    }),
+
+  /**
+   * Put a user on a fee tier
+   */
+  setUserFeeTier: adminProcedure
+    .input(z.object({ userId: z.number(), feeTier: feeTierSchema }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await assignFeeTier(input.userId, input.feeTier, ctx.user.id);
+        return { success: true, message: `User moved to the ${input.feeTier} fee tier` };
+      } catch (error) {
+        if (error instanceof FeeError) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to set fee tier:", error);
+        return { success: false, error: "Failed to set fee tier" };
+      }
+    }),
+
+  /**
+   * Fees collected per currency: the balance of each revenue wallet
+   */
+  getFeeRevenue: adminProcedure.query(async () => {
+    try {
+      const revenue = await getFeeRevenue();
+      return { success: true, revenue };
+    } catch (error) {
+      console.error("Failed to get fee revenue:", error);
+      return { success: false, error: "Failed to retrieve fee revenue" };
+    }
+  }),
+
+  /**
+   * Move a pending withdrawal to processing, e.g. once it is broadcast
+   */
+  submitWithdrawal: adminProcedure
+    .input(z.object({ transactionId: z.number(), note: z.string().trim().max(500).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const transaction = await submitWithdrawal(input.transactionId, ctx.user.id, input.note);
         await createAuditLog({
           adminId: ctx.user.id,
-          action: "deposit_crypto",
-          targetUserId: input.userId,
+          action: "withdrawal_submitted",
+          targetUserId: transaction.fromUserId,
+          details: { transactionId: transaction.id, note: input.note },
+        });
+        return { success: true, message: "Withdrawal submitted" };
+      } catch (error) {
+        if (error instanceof HoldError || error instanceof TransactionStateError) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to submit withdrawal:", error);
+        return { success: false, error: "Failed to submit withdrawal" };
+      }
+    }),
+
+  /**
+   * Capture a hold, posting its pending transaction to the ledger
+   * e.g. once a withdrawal is confirmed on-chain
+   */
+  captureHold: adminProcedure
+    .input(z.object({ holdId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const hold = await captureHold(input.holdId, ctx.user.id);
+        await createAuditLog({
+          adminId: ctx.user.id,
+          action: "hold_captured",
+          targetUserId: hold.userId,
+          details: { holdId: hold.id, transactionId: hold.transactionId, amount: hold.amount },
+        });
+        return { success: true, message: "Hold captured" };
+      } catch (error) {
+        if (error instanceof HoldError || error instanceof InsufficientBalanceError || error instanceof TransactionStateError) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to capture hold:", error);
+        return { success: false, error: "Failed to capture hold" };
+      }
+    }),
+
+  /**
+   * Release a hold and cancel its pending transaction
+   */
+  releaseHold: adminProcedure
+    .input(z.object({ holdId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const hold = await releaseHold(input.holdId, { actorId: ctx.user.id });
+        await createAuditLog({
+          adminId: ctx.user.id,
+          action: "hold_released",
+          targetUserId: hold.userId,
+          details: { holdId: hold.id, transactionId: hold.transactionId, amount: hold.amount },
+        });
+        return { success: true, message: "Hold released" };
+      } catch (error) {
+        if (error instanceof HoldError || error instanceof TransactionStateError) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to release hold:", error);
+        return { success: false, error: "Failed to release hold" };
+      }
+    }),
+
+  /**
+   * Settle holds past their expiry and fail their pending transactions
+   */
+  expireHolds: adminProcedure.mutation(async () => {
+    try {
+      const expired = await expireHolds();
+      return { success: true, expired };
+    } catch (error) {
+      console.error("Failed to expire holds:", error);
+      return { success: false, error: "Failed to expire holds" };
+    }
+  }),
+
+  /**
+   * List disputes, newest first, optionally by status
+   */
+  listDisputes: adminProcedure
+    .input(z.object({ status: z.enum(["open", "responded", "resolved", "withdrawn"]).optional() }))
+    .query(async ({ input }) => {
+      try {
+        const disputes = await listDisputes(input.status);
+        return { success: true, disputes };
+      } catch (error) {
+        console.error("Failed to list disputes:", error);
+        return { success: false, error: "Failed to list disputes", disputes: [] };
+      }
+    }),
+
+  /**
+   * Decide a dispute: refund the payer in full or in part, or reject it
+   */
+  resolveDispute: adminProcedure
+    .input(resolveDisputeSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const dispute = await resolveDispute(ctx.user.id, input);
+        await createAuditLog({
+          adminId: ctx.user.id,
+          action: "dispute_resolved",
+          targetUserId: dispute.openedBy,
           details: {
-            walletId: input.walletId,
-            amount: input.amount,
-            txHash: input.txHash,
+            disputeId: dispute.id,
+            transactionId: dispute.transactionId,
+            resolution: dispute.resolution,
+            refundTransactionId: dispute.refundTransactionId ?? null,
           },
         });
+        return { success: true, resolution: dispute.resolution, refundTransactionId: dispute.refundTransactionId ?? null };
+      } catch (error) {
+        if (
+          error instanceof DisputeError ||
+          error instanceof RefundError ||
+          error instanceof MoneyError ||
+          error instanceof InsufficientBalanceError
+        ) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to resolve dispute:", error);
+        return { success: false, error: "Failed to resolve dispute" };
+      }
+    }),
 
-        return { success: true, message: "Deposit processed successfully" };
+  /**
+   * Recompute every wallet balance from the ledger
+   * Reports wallets whose cached balance drifted from the ledger and
+   * transactions whose postings do not balance. With `repair`, drifted
+   * balances are reset to the ledger value.
+   */
+  reconcileLedger: adminProcedure
+    .input(z.object({ repair: z.boolean().default(false) }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const report = await reconcileLedger({ repair: input.repair, actorId: ctx.user.id });
+        return { success: true, ...report };
       } catch (error) {
-        console.error("Failed to process deposit:", error);
-        return { success: false, error: "Failed to process deposit" };
+        console.error("Failed to reconcile ledger:", error);
+        return { success: false, error: "Failed to reconcile ledger" };
       }
     }),
 
@@ -4,6 +4,7 @@ import { fraudDetectionModel, createFraudAnalysisInput } from "../ml/fraudDetect
 import { recommendationEngine } from "../ml/recommendations";
 import { supportChatbot } from "../ml/chatbot";
 import { getUserTransactions, getUserWallets } from "../db";
+import { isNewDevice } from "../sessions";
 
 /**
  * AI System Integration Procedures
@@ -24,14 +25,15 @@ export const aiRouter = router({
     .mutation(async ({ ctx, input }) => {
       try {
         // Get user transaction history
-        const transactions = await getUserTransactions(ctx.user.id, 50, 0);
+        const transactions = await getUserTransactions(ctx.user.id, { limit: 50 });
         const wallet = await getUserWallets(ctx.user.id);
 
         // Create fraud analysis input
         const fraudInput = await createFraudAnalysisInput(
           { amount: input.amount },
           transactions,
-          wallet.find(w => w.id === input.walletId)
+          wallet.find(w => w.id === input.walletId),
+          { isNewDevice: await isNewDevice(ctx.user.id, ctx.sessionId) }
         );
 
         // Analyze for fraud
@@ -62,7 +64,7 @@ export const aiRouter = router({
     try {
       // Get user wallets and transactions
       const wallets = await getUserWallets(ctx.user.id);
-      const transactions = await getUserTransactions(ctx.user.id, 100, 0);
+      const transactions = await getUserTransactions(ctx.user.id, { limit: 100 });
 
       // Build user profile
       const portfolioComposition: Record<string, number> = {};
@@ -1,15 +1,84 @@
 import { z } from "zod";
-import { protectedProcedure, publicProcedure, router } from "../_core/trpc";
-import { createRegistrationOptions, createAuthenticationOptions, verifyRegistrationResponse, getUserFingerprintsList } from "../webauthn";
-import { createFingerprint, getUserFingerprints } from "../db";
+import { randomBytes } from "crypto";
+import { parse as parseCookieHeader } from "cookie";
+import { COOKIE_NAME, ONE_YEAR_MS, WEBAUTHN_CEREMONY_COOKIE } from "@shared/const";
+import { getSessionCookieOptions } from "../_core/cookies";
+import { protectedProcedure, publicProcedure, requireStepUp, router } from "../_core/trpc";
+import type { TrpcContext } from "../_core/context";
+import { sdk } from "../_core/sdk";
+import { CHALLENGE_TTL_MS } from "../challengeStore";
+import { createRegistrationOptions, createAuthenticationOptions, verifyRegistrationResponse, verifyAuthenticationResponse, getUserFingerprintsList, base64UrlEncode } from "../webauthn";
+import { deleteFingerprint, getUserById, getSessionBySessionId, getUserFingerprints, getUserSessions, revokeOtherSessions, revokeSession, updateFingerprint, upsertUser } from "../db";
+import { canRetireFingerprint } from "../authFactors";
+import { recordSecurityEvent } from "../securityEvents";
+import type { Fingerprint } from "../../drizzle/schema";
+import { createStepUpOptions, stepUpOperationSchema, stepUpSchema } from "../stepUp";
+import { getRemainingRecoveryCodes, regenerateRecoveryCodes } from "../recoveryCodes";
+import { beginTotpEnrollment, confirmTotpEnrollment, disableTotp, getTotpStatus } from "../totp";
+
+function describeFingerprint(fingerprint: Pick<Fingerprint, "id" | "nickname">) {
+  return fingerprint.nickname ? `"${fingerprint.nickname}"` : `fingerprint #${fingerprint.id}`;
+}
+
+const retireFingerprintInput = z.object({ fingerprintId: z.number(), stepUp: stepUpSchema.optional() });
+
+function retireFingerprintOperation(
+  action: "deactivate_fingerprint" | "remove_fingerprint",
+  input: z.infer<typeof retireFingerprintInput>
+) {
+  return { action, wallet: "account", amount: "0", destination: `fingerprint:${input.fingerprintId}` };
+}
+
+function readCeremonySessionId(ctx: TrpcContext): string | undefined {
+  return parseCookieHeader(ctx.req.headers.cookie ?? "")[WEBAUTHN_CEREMONY_COOKIE];
+}
+
+/**
+ * Get or create the pre-authentication session that binds a sign-in
+ * ceremony's challenge to this browser
+ */
+function getCeremonySessionId(ctx: TrpcContext): string {
+  const existing = readCeremonySessionId(ctx);
+  if (existing && /^[A-Za-z0-9_-]{16,64}$/.test(existing)) {
+    return existing;
+  }
+
+  const sessionId = randomBytes(24).toString("base64url");
+  ctx.res.cookie(WEBAUTHN_CEREMONY_COOKIE, sessionId, {
+    ...getSessionCookieOptions(ctx.req),
+    maxAge: CHALLENGE_TTL_MS,
+  });
+  return sessionId;
+}
 
 export const authRouter = router({
+  me: publicProcedure.query(opts => opts.ctx.user),
+
+  logout: publicProcedure.mutation(async ({ ctx }) => {
+    if (ctx.user && ctx.sessionId) {
+      try {
+        const current = await getSessionBySessionId(ctx.sessionId);
+        if (current && current.userId === ctx.user.id) {
+          await revokeSession(current.id);
+        }
+      } catch (error) {
+        console.error("Failed to revoke session on logout:", error);
+      }
+    }
+
+    const cookieOptions = getSessionCookieOptions(ctx.req);
+    ctx.res.clearCookie(COOKIE_NAME, { ...cookieOptions, maxAge: -1 });
+    return {
+      success: true,
+    } as const;
+  }),
+
   /**
    * Get WebAuthn registration options for a new fingerprint
    */
   getRegistrationOptions: protectedProcedure.query(async ({ ctx }) => {
     try {
-      const options = createRegistrationOptions(
+      const options = await createRegistrationOptions(
         ctx.user.id,
         ctx.user.email || `user_${ctx.user.id}`,
         ctx.user.name || "User"
@@ -23,25 +92,44 @@ export const authRouter = router({
 
   /**
    * Register a new fingerprint credential
+   * Expects the base64url-encoded attestationObject and clientDataJSON
+   * returned by navigator.credentials.create(). A new credential approves
+   * step-ups at once, so a user who already has a factor must approve adding
+   * it with that factor.
    */
   registerFingerprint: protectedProcedure
     .input(
       z.object({
         credentialId: z.string(),
-        publicKey: z.string(),
+        attestationObject: z.string(),
+        clientDataJSON: z.string(),
         transports: z.array(z.string()).optional(),
+        nickname: z.string().trim().min(1).max(100).optional(),
+        stepUp: stepUpSchema.optional(),
+      })
+    )
+    .use(
+      requireStepUp<{ credentialId: string }>({
+        when: "enrolled",
+        operation: input => ({
+          action: "register_fingerprint",
+          wallet: "account",
+          amount: "0",
+          destination: input.credentialId,
+        }),
       })
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        const success = await verifyRegistrationResponse(
-          ctx.user.id,
-          input.credentialId,
-          input.publicKey,
-          input.transports
-        );
+        const success = await verifyRegistrationResponse(ctx.user.id, input);
 
         if (success) {
+          await recordSecurityEvent(ctx.user.id, {
+            action: "fingerprint_registered",
+            subject: "New fingerprint added",
+            content: `A new fingerprint credential${input.nickname ? ` "${input.nickname}"` : ""} was added to your account.`,
+            details: { credentialId: input.credentialId, transports: input.transports },
+          });
           return { success: true, message: "Fingerprint registered successfully" };
         } else {
           return { success: false, error: "Failed to register fingerprint" };
@@ -54,12 +142,13 @@ export const authRouter = router({
 
   /**
    * Get WebAuthn authentication options
+   * Signed-in users get a challenge bound to their account; anonymous
+   * callers get one bound to a short-lived ceremony cookie.
    */
-  getAuthenticationOptions: publicProcedure.query(async () => {
+  getAuthenticationOptions: publicProcedure.query(async ({ ctx }) => {
     try {
-      // In a real app, you'd get the user ID from the request
-      // For now, we'll use a placeholder
-      const options = createAuthenticationOptions(0);
+      const binding = ctx.user ? { userId: ctx.user.id } : { sessionId: getCeremonySessionId(ctx) };
+      const options = await createAuthenticationOptions("login", binding);
       return { success: true, options };
     } catch (error) {
       console.error("Failed to get authentication options:", error);
@@ -67,6 +156,82 @@ export const authRouter = router({
     }
   }),
 
+  /**
+   * Get assertion options approving one money-moving operation
+   * The returned challenge commits to the operation, so the same fields
+   * must be sent to the mutation being approved.
+   */
+  getStepUpOptions: protectedProcedure
+    .input(stepUpOperationSchema)
+    .query(async ({ ctx, input }) => {
+      try {
+        const options = await createStepUpOptions(ctx.user.id, input);
+        return { success: true, options };
+      } catch (error) {
+        console.error("Failed to get step-up options:", error);
+        return { success: false, error: "Failed to generate verification options" };
+      }
+    }),
+
+  /**
+   * Sign in with a discoverable fingerprint credential
+   * Verifies the assertion against the challenge bound to this browser's
+   * ceremony cookie and issues a regular session cookie for the owner.
+   */
+  signInWithFingerprint: publicProcedure
+    .input(
+      z.object({
+        credentialId: z.string(),
+        clientDataJSON: z.string(),
+        authenticatorData: z.string(),
+        signature: z.string(),
+        userHandle: z.string().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const sessionId = readCeremonySessionId(ctx);
+        if (!sessionId) {
+          return { success: false, error: "Sign-in session expired, please try again" };
+        }
+
+        const result = await verifyAuthenticationResponse(input, {
+          purpose: "login",
+          sessionId,
+          requireUserVerification: true,
+        });
+        if (!result.valid || result.userId === undefined) {
+          return { success: false, error: "Fingerprint verification failed" };
+        }
+
+        const user = await getUserById(result.userId);
+        if (!user) {
+          return { success: false, error: "Fingerprint verification failed" };
+        }
+
+        // Discoverable credentials return the user.id we set at registration
+        if (input.userHandle && input.userHandle !== base64UrlEncode(new TextEncoder().encode(user.id.toString()))) {
+          return { success: false, error: "Fingerprint verification failed" };
+        }
+
+        await upsertUser({ openId: user.openId, lastSignedIn: new Date() });
+
+        const sessionToken = await sdk.startSession(user, ctx.req, {
+          name: user.name || user.email || `user_${user.id}`,
+          expiresInMs: ONE_YEAR_MS,
+        });
+
+        const cookieOptions = getSessionCookieOptions(ctx.req);
+        ctx.res.clearCookie(WEBAUTHN_CEREMONY_COOKIE, { ...cookieOptions, maxAge: -1 });
+        ctx.res.cookie(COOKIE_NAME, sessionToken, { ...cookieOptions, maxAge: ONE_YEAR_MS });
+
+        return { success: true, user };
+      } catch (error) {
+        console.error("Failed to sign in with fingerprint:", error);
+        return { success: false, error: "Sign-in failed" };
+      }
+    }),
+
   /**
    * List all registered fingerprints for the current user
    */
@@ -81,10 +246,88 @@ export const authRouter = router({
   }),
 
   /**
-   * Remove a fingerprint credential
+   * Rename a fingerprint credential
+   */
+  renameFingerprint: protectedProcedure
+    .input(z.object({ fingerprintId: z.number(), nickname: z.string().trim().min(1).max(100) }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const fingerprints = await getUserFingerprints(ctx.user.id);
+        const fingerprint = fingerprints.find(fp => fp.id === input.fingerprintId);
+
+        if (!fingerprint) {
+          return { success: false, error: "Fingerprint not found" };
+        }
+
+        await updateFingerprint(fingerprint.id, { nickname: input.nickname });
+        await recordSecurityEvent(ctx.user.id, {
+          action: "fingerprint_renamed",
+          subject: "Fingerprint renamed",
+          content: `${describeFingerprint(fingerprint)} was renamed to "${input.nickname}".`,
+          details: { fingerprintId: fingerprint.id, from: fingerprint.nickname, to: input.nickname },
+        });
+
+        return { success: true, message: "Fingerprint renamed successfully" };
+      } catch (error) {
+        console.error("Failed to rename fingerprint:", error);
+        return { success: false, error: "Failed to rename fingerprint" };
+      }
+    }),
+
+  /**
+   * Deactivate a fingerprint credential
+   * The credential is kept for the audit trail but can no longer sign in
+   * or approve operations. Like removal, it needs a fresh step-up.
+   */
+  deactivateFingerprint: protectedProcedure
+    .input(retireFingerprintInput)
+    .use(
+      requireStepUp<z.infer<typeof retireFingerprintInput>>({
+        when: "always",
+        operation: input => retireFingerprintOperation("deactivate_fingerprint", input),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const fingerprints = await getUserFingerprints(ctx.user.id);
+        const fingerprint = fingerprints.find(fp => fp.id === input.fingerprintId);
+
+        if (!fingerprint) {
+          return { success: false, error: "Fingerprint not found" };
+        }
+        if (!fingerprint.isActive) {
+          return { success: false, error: "Fingerprint is already deactivated" };
+        }
+        if (!(await canRetireFingerprint(ctx.user.id, fingerprint.id))) {
+          return { success: false, error: "Add another fingerprint or verification method before deactivating your last one" };
+        }
+
+        await updateFingerprint(fingerprint.id, { isActive: false });
+        await recordSecurityEvent(ctx.user.id, {
+          action: "fingerprint_deactivated",
+          subject: "Fingerprint deactivated",
+          content: `${describeFingerprint(fingerprint)} was deactivated and can no longer be used.`,
+          details: { fingerprintId: fingerprint.id },
+        });
+
+        return { success: true, message: "Fingerprint deactivated successfully" };
+      } catch (error) {
+        console.error("Failed to deactivate fingerprint:", error);
+        return { success: false, error: "Failed to deactivate fingerprint" };
+      }
+    }),
+
+  /**
+   * Remove a fingerprint credential, after a fresh step-up
    */
   removeFingerprint: protectedProcedure
-    .input(z.object({ fingerprintId: z.number() }))
+    .input(retireFingerprintInput)
+    .use(
+      requireStepUp<z.infer<typeof retireFingerprintInput>>({
+        when: "always",
+        operation: input => retireFingerprintOperation("remove_fingerprint", input),
+      })
+    )
     .mutation(async ({ ctx, input }) => {
       try {
         const fingerprints = await getUserFingerprints(ctx.user.id);
@@ -93,13 +336,223 @@ export const authRouter = router({
         if (!fingerprint) {
           return { success: false, error: "Fingerprint not found" };
         }
+        if (!(await canRetireFingerprint(ctx.user.id, fingerprint.id))) {
+          return { success: false, error: "Add another fingerprint or verification method before removing your last one" };
+        }
+
+        await deleteFingerprint(fingerprint.id);
+        await recordSecurityEvent(ctx.user.id, {
+          action: "fingerprint_removed",
+          subject: "Fingerprint removed",
+          content: `${describeFingerprint(fingerprint)} was removed from your account.`,
+          details: { fingerprintId: fingerprint.id, credentialId: fingerprint.credentialId, aaguid: fingerprint.aaguid },
+        });
 
-        // In production, you'd delete the fingerprint from the database
-        // For now, we'll just return success
         return { success: true, message: "Fingerprint removed successfully" };
       } catch (error) {
         console.error("Failed to remove fingerprint:", error);
         return { success: false, error: "Failed to remove fingerprint" };
       }
     }),
+
+  /**
+   * Count the current user's unused recovery codes
+   */
+  getRecoveryCodeCount: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const remaining = await getRemainingRecoveryCodes(ctx.user.id);
+      return { success: true, remaining };
+    } catch (error) {
+      console.error("Failed to count recovery codes:", error);
+      return { success: false, error: "Failed to retrieve recovery codes" };
+    }
+  }),
+
+  /**
+   * Generate a new set of recovery codes, invalidating any previous set
+   * The plaintext codes are only returned here and cannot be retrieved later.
+   * A code is redeemed by sending it as `stepUp.recoveryCode` in place of a
+   * fingerprint assertion, so once the user has any factor a step-up with
+   * it is needed to get a new set.
+   */
+  regenerateRecoveryCodes: protectedProcedure
+    .input(z.object({ stepUp: stepUpSchema.optional() }))
+    .use(
+      requireStepUp({
+        when: "enrolled",
+        operation: () => ({
+          action: "regenerate_recovery_codes",
+          wallet: "account",
+          amount: "0",
+          destination: "recovery_codes",
+        }),
+      })
+    )
+    .mutation(async ({ ctx }) => {
+      try {
+        const codes = await regenerateRecoveryCodes(ctx.user.id);
+        return { success: true, codes };
+      } catch (error) {
+        console.error("Failed to regenerate recovery codes:", error);
+        return { success: false, error: "Failed to generate recovery codes" };
+      }
+    }),
+
+  /**
+   * Get the current user's authenticator app (TOTP) status
+   */
+  getTotpStatus: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const status = await getTotpStatus(ctx.user.id);
+      return { success: true, ...status };
+    } catch (error) {
+      console.error("Failed to get TOTP status:", error);
+      return { success: false, error: "Failed to retrieve authenticator status" };
+    }
+  }),
+
+  /**
+   * Start authenticator app enrollment
+   * Returns the otpauth:// URI and a QR code data URL to scan. Restarting
+   * replaces a pending, unconfirmed secret. An enrolled app approves
+   * step-ups, so a user who already has a fingerprint or recovery codes must
+   * approve its enrollment with one of them.
+   */
+  beginTotpEnrollment: protectedProcedure
+    .input(z.object({ stepUp: stepUpSchema.optional() }))
+    .use(
+      requireStepUp({
+        when: "enrolled",
+        operation: () => ({ action: "enroll_totp", wallet: "account", amount: "0", destination: "totp" }),
+      })
+    )
+    .mutation(async ({ ctx }) => {
+      try {
+        const enrollment = await beginTotpEnrollment(ctx.user.id, ctx.user.email || `user_${ctx.user.id}`);
+        if (!enrollment) {
+          return { success: false, error: "Authenticator app is already enabled" };
+        }
+        return { success: true, ...enrollment };
+      } catch (error) {
+        console.error("Failed to begin TOTP enrollment:", error);
+        return { success: false, error: "Failed to start authenticator setup" };
+      }
+    }),
+
+  /**
+   * Confirm authenticator app enrollment with the first generated code
+   */
+  confirmTotpEnrollment: protectedProcedure
+    .input(z.object({ code: z.string().regex(/^\d{6}$/) }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const confirmed = await confirmTotpEnrollment(ctx.user.id, input.code);
+        if (!confirmed) {
+          return { success: false, error: "Invalid verification code" };
+        }
+        return { success: true, message: "Authenticator app enabled" };
+      } catch (error) {
+        console.error("Failed to confirm TOTP enrollment:", error);
+        return { success: false, error: "Failed to confirm authenticator setup" };
+      }
+    }),
+
+  /**
+   * Remove the authenticator app after checking a current code
+   */
+  disableTotp: protectedProcedure
+    .input(z.object({ code: z.string().regex(/^\d{6}$/) }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const disabled = await disableTotp(ctx.user.id, input.code);
+        if (!disabled) {
+          return { success: false, error: "Invalid verification code" };
+        }
+        return { success: true, message: "Authenticator app removed" };
+      } catch (error) {
+        console.error("Failed to disable TOTP:", error);
+        return { success: false, error: "Failed to remove authenticator app" };
+      }
+    }),
+
+  /**
+   * List the current user's active sessions, newest activity first
+   */
+  listSessions: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const sessions = await getUserSessions(ctx.user.id);
+      return {
+        success: true,
+        sessions: sessions.map(session => ({
+          id: session.id,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          firstSeen: session.createdAt,
+          lastSeen: session.lastSeenAt,
+          current: session.sessionId === ctx.sessionId,
+        })),
+      };
+    } catch (error) {
+      console.error("Failed to list sessions:", error);
+      return { success: false, error: "Failed to retrieve sessions" };
+    }
+  }),
+
+  /**
+   * Sign out one of the current user's other sessions
+   */
+  revokeSession: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const sessions = await getUserSessions(ctx.user.id);
+        const session = sessions.find(entry => entry.id === input.id);
+
+        if (!session) {
+          return { success: false, error: "Session not found" };
+        }
+        if (session.sessionId === ctx.sessionId) {
+          return { success: false, error: "Use sign out to end the current session" };
+        }
+
+        await revokeSession(session.id);
+        await recordSecurityEvent(ctx.user.id, {
+          action: "session_revoked",
+          subject: "Session signed out",
+          content: `A session${session.ipAddress ? ` from ${session.ipAddress}` : ""} was signed out of your account.`,
+          details: { sessionId: session.id, userAgent: session.userAgent, ipAddress: session.ipAddress },
+        });
+
+        return { success: true, message: "Session revoked successfully" };
+      } catch (error) {
+        console.error("Failed to revoke session:", error);
+        return { success: false, error: "Failed to revoke session" };
+      }
+    }),
+
+  /**
+   * Sign out every session except the current one
+   */
+  revokeOtherSessions: protectedProcedure.mutation(async ({ ctx }) => {
+    try {
+      if (!ctx.sessionId) {
+        return { success: false, error: "Current session is not tracked" };
+      }
+
+      const revoked = await revokeOtherSessions(ctx.user.id, ctx.sessionId);
+      if (revoked > 0) {
+        await recordSecurityEvent(ctx.user.id, {
+          action: "sessions_revoked",
+          subject: "Other sessions signed out",
+          content: `${revoked} other session(s) were signed out of your account.`,
+          details: { revoked },
+        });
+      }
+
+      return { success: true, revoked };
+    } catch (error) {
+      console.error("Failed to revoke other sessions:", error);
+      return { success: false, error: "Failed to revoke sessions" };
+    }
+  }),
 });
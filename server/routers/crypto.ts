@@ -1,7 +1,24 @@
 import { z } from "zod";
-import { protectedProcedure, router } from "../_core/trpc";
-import { createWallet, getUserWallets, getWalletById, createTransaction } from "../db";
+import { protectedProcedure, requireStepUp, router } from "../_core/trpc";
+import { createWallet, getUserWallets, getWalletById, listCurrencies } from "../db";
 import { InsertTransaction } from "../../drizzle/schema";
+import { stepUpSchema } from "../stepUp";
+import { idempotencyKeySchema, runIdempotent } from "../idempotency";
+import { CurrencyError, currencyCodeSchema, requireCryptoCurrency } from "../currencies";
+import { createHeldTransaction, withAvailableBalances, WITHDRAWAL_HOLD_TTL_MS } from "../holds";
+import { InsufficientBalanceError } from "../ledger";
+import { assertQuotedFee, FeeError, quoteFee } from "../fees";
+import { MoneyError, parseAmount } from "@shared/money";
+
+const withdrawalInput = z.object({
+  cryptocurrency: currencyCodeSchema,
+  amount: z.string(),
+  /** Fee from `transactions.quoteFee`; the withdrawal fails if it has changed */
+  fee: z.string(),
+  destinationAddress: z.string(),
+  stepUp: stepUpSchema.optional(),
+  idempotencyKey: idempotencyKeySchema.optional(),
+});
 
 /**
  * Cryptocurrency integration procedures
@@ -16,11 +33,13 @@ export const cryptoRouter = router({
   generateAddress: protectedProcedure
     .input(
       z.object({
-        cryptocurrency: z.enum(["BTC", "ETH"]),
+        cryptocurrency: currencyCodeSchema,
       })
     )
     .mutation(async ({ ctx, input }) => {
       try {
+        const currency = await requireCryptoCurrency(input.cryptocurrency);
+
         // Check if user already has a wallet for this crypto
         const existingWallets = await getUserWallets(ctx.user.id);
         const exists = existingWallets.some(w => w.currencyCode === input.cryptocurrency);
@@ -35,7 +54,7 @@ export const cryptoRouter = router({
         }
 
         // Generate mock address (in production, call BlockCypher API)
-        const mockAddress = input.cryptocurrency === "BTC"
+        const mockAddress = currency.network === "bitcoin"
           ? "1A1z7agoat4FqCnf4Xy2MQUqLCWCuqq2em"
           : "0x742d35Cc6634C0532925a3b844Bc9e7595f42bE";
 
@@ -48,6 +67,9 @@ export const cryptoRouter = router({
           cryptocurrency: input.cryptocurrency,
         };
       } catch (error) {
+        if (error instanceof CurrencyError) {
+          return { success: false, error: error.message };
+        }
         console.error("Failed to generate address:", error);
         return { success: false, error: "Failed to generate address" };
       }
@@ -59,7 +81,7 @@ export const cryptoRouter = router({
   getDepositAddress: protectedProcedure
     .input(
       z.object({
-        cryptocurrency: z.enum(["BTC", "ETH"]),
+        cryptocurrency: currencyCodeSchema,
       })
     )
     .query(async ({ ctx, input }) => {
@@ -87,54 +109,76 @@ export const cryptoRouter = router({
    * Initiate a cryptocurrency withdrawal
    */
   initiateWithdrawal: protectedProcedure
-    .input(
-      z.object({
-        cryptocurrency: z.enum(["BTC", "ETH"]),
-        amount: z.string(),
-        destinationAddress: z.string(),
+    .input(withdrawalInput)
+    .use(
+      requireStepUp<z.infer<typeof withdrawalInput>>({
+        when: "always",
+        idempotent: "crypto.initiateWithdrawal",
+        operation: input => ({
+          action: "crypto_withdrawal",
+          wallet: input.cryptocurrency,
+          amount: input.amount,
+          destination: input.destinationAddress,
+          fee: input.fee,
+        }),
       })
     )
-    .mutation(async ({ ctx, input }) => {
-      try {
-        const wallets = await getUserWallets(ctx.user.id);
-        const wallet = wallets.find(w => w.currencyCode === input.cryptocurrency);
-
-        if (!wallet) {
-          return { success: false, error: "Wallet not found" };
-        }
+    .mutation(({ ctx, input }) =>
+      runIdempotent(ctx.user.id, "crypto.initiateWithdrawal", input, async () => {
+        try {
+          const wallets = await getUserWallets(ctx.user.id);
+          const wallet = wallets.find(w => w.currencyCode === input.cryptocurrency);
 
-        const balance = parseFloat(wallet.balance);
-        const amount = parseFloat(input.amount);
+          if (!wallet) {
+            return { success: false, error: "Wallet not found" };
+          }
 
-        if (balance < amount) {
-          return { success: false, error: "Insufficient balance" };
-        }
+          const currency = await requireCryptoCurrency(wallet.currencyCode, { allowDisabled: true });
+          const amount = parseAmount(input.amount, currency);
+          const { fee } = await quoteFee(ctx.user.id, "withdrawal", currency, amount);
+          assertQuotedFee(input.fee, fee);
 
-        // Create withdrawal transaction
-        const transactionData: InsertTransaction = {
-          fromUserId: ctx.user.id,
-          fromWalletId: wallet.id,
-          toWalletId: wallet.id,
-          amount: input.amount,
-          fee: "0.0005", // Mock fee
-          transactionType: "withdrawal",
-          status: "pending",
-          description: `Withdrawal to ${input.destinationAddress.substring(0, 10)}...`,
-        };
+          // Create the pending withdrawal and reserve its amount plus fee
+          const transactionData: InsertTransaction = {
+            fromUserId: ctx.user.id,
+            fromWalletId: wallet.id,
+            toWalletId: wallet.id,
+            amount,
+            fee,
+            transactionType: "withdrawal",
+            status: "pending",
+            description: `Withdrawal to ${input.destinationAddress.substring(0, 10)}...`,
+          };
 
-        await createTransaction(transactionData);
+          const { transactionId, holdId } = await createHeldTransaction(transactionData, {
+            walletId: wallet.id,
+            userId: ctx.user.id,
+            currencyCode: wallet.currencyCode,
+            reason: "Pending withdrawal",
+            expiresAt: new Date(Date.now() + WITHDRAWAL_HOLD_TTL_MS),
+          });
 
-        return {
-          success: true,
-          message: "Withdrawal initiated successfully",
-          status: "pending",
-          cryptocurrency: input.cryptocurrency,
-        };
-      } catch (error) {
-        console.error("Failed to initiate withdrawal:", error);
-        return { success: false, error: "Failed to initiate withdrawal" };
-      }
-    }),
+          return {
+            success: true,
+            message: "Withdrawal initiated successfully",
+            status: "pending",
+            cryptocurrency: input.cryptocurrency,
+            transactionId,
+            holdId,
+            fee,
+          };
+        } catch (error) {
+          if (error instanceof InsufficientBalanceError) {
+            return { success: false, error: "Insufficient balance" };
+          }
+          if (error instanceof FeeError || error instanceof MoneyError || error instanceof CurrencyError) {
+            return { success: false, error: error.message };
+          }
+          console.error("Failed to initiate withdrawal:", error);
+          return { success: false, error: "Failed to initiate withdrawal" };
+        }
+      })
+    ),
 
   /**
    * Get cryptocurrency price in USD
@@ -143,7 +187,7 @@ export const cryptoRouter = router({
   getPrice: protectedProcedure
     .input(
       z.object({
-        cryptocurrency: z.enum(["BTC", "ETH"]),
+        cryptocurrency: currencyCodeSchema,
       })
     )
     .query(async ({ ctx, input }) => {
@@ -175,7 +219,7 @@ export const cryptoRouter = router({
   getTransactionHistory: protectedProcedure
     .input(
       z.object({
-        cryptocurrency: z.enum(["BTC", "ETH"]),
+        cryptocurrency: currencyCodeSchema,
         limit: z.number().default(20),
       })
     )
@@ -207,7 +251,7 @@ export const cryptoRouter = router({
   getBalance: protectedProcedure
     .input(
       z.object({
-        cryptocurrency: z.enum(["BTC", "ETH"]),
+        cryptocurrency: currencyCodeSchema,
       })
     )
     .query(async ({ ctx, input }) => {
@@ -219,10 +263,13 @@ export const cryptoRouter = router({
           return { success: false, error: "Wallet not found" };
         }
 
+        const [{ ledgerBalance, availableBalance }] = await withAvailableBalances([wallet]);
         return {
           success: true,
           cryptocurrency: input.cryptocurrency,
-          balance: wallet.balance,
+          balance: ledgerBalance,
+          ledgerBalance,
+          availableBalance,
           address: wallet.address,
         };
       } catch (error) {
@@ -237,7 +284,8 @@ export const cryptoRouter = router({
   listCryptoWallets: protectedProcedure.query(async ({ ctx }) => {
     try {
       const wallets = await getUserWallets(ctx.user.id);
-      const cryptoWallets = wallets.filter(w => ["BTC", "ETH", "LTC", "XRP"].includes(w.currencyCode));
+      const cryptoCodes = new Set((await listCurrencies()).filter(c => c.kind !== "fiat").map(c => c.code));
+      const cryptoWallets = wallets.filter(w => cryptoCodes.has(w.currencyCode));
 
       return {
         success: true,
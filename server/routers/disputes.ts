@@ -0,0 +1,113 @@
+import { z } from "zod";
+import { protectedProcedure, router } from "../_core/trpc";
+import { getUserDisputes } from "../db";
+import { RefundError } from "../refunds";
+import {
+  DisputeError,
+  evidenceSchema,
+  openDispute,
+  openDisputeSchema,
+  requireOwnDispute,
+  respondToDispute,
+  withdrawDispute,
+} from "../disputes";
+
+/**
+ * Dispute procedures
+ * Payers contest transfers and payees respond; admins resolve them through
+ * `admin.resolveDispute`
+ */
+
+export const disputesRouter = router({
+  /**
+   * Dispute a completed transfer the current user paid
+   * The disputed amount is held in the payee's wallet until the dispute ends.
+   */
+  open: protectedProcedure
+    .input(openDisputeSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const dispute = await openDispute(ctx.user.id, input);
+        return { success: true, disputeId: dispute.id, amount: dispute.amount, held: dispute.held };
+      } catch (error) {
+        if (error instanceof DisputeError || error instanceof RefundError) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to open dispute:", error);
+        return { success: false, error: "Failed to open dispute" };
+      }
+    }),
+
+  /**
+   * Answer a dispute on a transfer the current user received
+   */
+  respond: protectedProcedure
+    .input(
+      z.object({
+        disputeId: z.number().int().positive(),
+        response: z.string().trim().min(1).max(5000),
+        evidence: evidenceSchema.default([]),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await respondToDispute(ctx.user.id, input.disputeId, input);
+        return { success: true };
+      } catch (error) {
+        if (error instanceof DisputeError) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to respond to dispute:", error);
+        return { success: false, error: "Failed to respond to dispute" };
+      }
+    }),
+
+  /**
+   * Withdraw a dispute the current user opened
+   */
+  withdraw: protectedProcedure
+    .input(z.object({ disputeId: z.number().int().positive() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await withdrawDispute(ctx.user.id, input.disputeId);
+        return { success: true };
+      } catch (error) {
+        if (error instanceof DisputeError) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to withdraw dispute:", error);
+        return { success: false, error: "Failed to withdraw dispute" };
+      }
+    }),
+
+  /**
+   * List disputes the current user opened or must answer, newest first
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const disputes = await getUserDisputes(ctx.user.id);
+      return { success: true, disputes };
+    } catch (error) {
+      console.error("Failed to get disputes:", error);
+      return { success: false, error: "Failed to get disputes", disputes: [] };
+    }
+  }),
+
+  /**
+   * Get a dispute the current user is a party to
+   */
+  getById: protectedProcedure
+    .input(z.object({ disputeId: z.number().int().positive() }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const dispute = await requireOwnDispute(ctx.user.id, input.disputeId);
+        return { success: true, dispute };
+      } catch (error) {
+        if (error instanceof DisputeError) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to get dispute:", error);
+        return { success: false, error: "Failed to get dispute" };
+      }
+    }),
+});
@@ -1,6 +1,8 @@
 import { z } from "zod";
-import { publicProcedure, router } from "../_core/trpc";
-import { getExchangeRate, upsertExchangeRate } from "../db";
+import { adminProcedure, publicProcedure, router } from "../_core/trpc";
+import { createAuditLog, getExchangeRate, listCurrencies, upsertExchangeRate } from "../db";
+import { CurrencyError, currencyCodeSchema, requireCurrency } from "../currencies";
+import { compareDecimals, isDecimal, MoneyError, multiplyDecimals, parseAmount } from "@shared/money";
 
 /**
  * Exchange rate procedures
@@ -61,6 +63,9 @@ export const exchangeRouter = router({
     )
     .query(async ({ input }) => {
       try {
+        const fromCurrency = await requireCurrency(input.from, { allowDisabled: true });
+        const toCurrency = await requireCurrency(input.to, { allowDisabled: true });
+        const amount = parseAmount(input.amount, fromCurrency);
         const rate = await getExchangeRate(input.from, input.to);
 
         if (!rate) {
@@ -70,14 +75,12 @@ export const exchangeRouter = router({
             amount: input.amount,
             from: input.from,
             to: input.to,
-            convertedAmount: input.amount,
+            convertedAmount: amount,
             rate: "1.0",
           };
         }
 
-        const amount = parseFloat(input.amount);
-        const rateValue = parseFloat(rate.rate);
-        const convertedAmount = (amount * rateValue).toFixed(8);
+        const convertedAmount = multiplyDecimals(amount, rate.rate, toCurrency.decimals);
 
         return {
           success: true,
@@ -88,6 +91,9 @@ export const exchangeRouter = router({
           rate: rate.rate,
         };
       } catch (error) {
+        if (error instanceof MoneyError || error instanceof CurrencyError) {
+          return { success: false, error: error.message };
+        }
         console.error("Failed to convert currency:", error);
         return { success: false, error: "Failed to convert currency" };
       }
@@ -98,9 +104,10 @@ export const exchangeRouter = router({
    */
   getSupportedPairs: publicProcedure.query(async () => {
     try {
-      // Return list of supported currency pairs
-      const fiatCurrencies = ["USD", "EUR", "GBP", "JPY", "CAD", "AUD"];
-      const cryptoCurrencies = ["BTC", "ETH", "LTC", "XRP"];
+      // Pair every enabled fiat currency with every other enabled currency
+      const currencies = await listCurrencies(true);
+      const fiatCurrencies = currencies.filter(c => c.kind === "fiat").map(c => c.code);
+      const cryptoCurrencies = currencies.filter(c => c.kind !== "fiat").map(c => c.code);
 
       const pairs = [];
       for (const fiat of fiatCurrencies) {
@@ -131,31 +138,46 @@ export const exchangeRouter = router({
 
   /**
    * Update exchange rate (admin only)
+   * Quotes and conversions post ledger lines at these rates, so every
+   * change is audited.
    */
-  updateRate: publicProcedure
+  updateRate: adminProcedure
     .input(
       z.object({
-        from: z.string(),
-        to: z.string(),
+        from: currencyCodeSchema,
+        to: currencyCodeSchema,
         rate: z.string(),
         source: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
-        // In production, this should be protected with admin role check
-        await upsertExchangeRate(
-          input.from,
-          input.to,
-          input.rate,
-          input.source || "manual"
-        );
+        if (!isDecimal(input.rate) || compareDecimals(input.rate, "0") <= 0) {
+          return { success: false, error: "Rate must be a positive decimal" };
+        }
+        if (input.from === input.to) {
+          return { success: false, error: "Rates are between two different currencies" };
+        }
+        await requireCurrency(input.from, { allowDisabled: true });
+        await requireCurrency(input.to, { allowDisabled: true });
+
+        const previous = await getExchangeRate(input.from, input.to);
+        const source = input.source || "manual";
+        await upsertExchangeRate(input.from, input.to, input.rate, source);
+        await createAuditLog({
+          adminId: ctx.user.id,
+          action: "exchange_rate_updated",
+          details: { from: input.from, to: input.to, rate: input.rate, previousRate: previous?.rate ?? null, source },
+        });
 
         return {
           success: true,
           message: "Exchange rate updated successfully",
         };
       } catch (error) {
+        if (error instanceof CurrencyError) {
+          return { success: false, error: error.message };
+        }
         console.error("Failed to update exchange rate:", error);
         return { success: false, error: "Failed to update exchange rate" };
       }
@@ -0,0 +1,158 @@
+import { z } from "zod";
+import { protectedProcedure, requireStepUp, router } from "../_core/trpc";
+import { cancelPaymentRequest, getUserPaymentRequests } from "../db";
+import { CurrencyError } from "../currencies";
+import { InsufficientBalanceError } from "../ledger";
+import { MoneyError } from "@shared/money";
+import { stepUpSchema } from "../stepUp";
+import { idempotencyKeySchema, runIdempotent } from "../idempotency";
+import { RecipientError } from "../recipients";
+import {
+  createPaymentRequestSchema,
+  PaymentRequestError,
+  paymentRequestPath,
+  paymentRequestStatus,
+  paymentRequestTokenSchema,
+  payPaymentRequest,
+  requestPayment,
+  requireOwnPaymentRequest,
+  viewPaymentRequest,
+} from "../paymentRequests";
+
+const payInput = z.object({
+  token: paymentRequestTokenSchema,
+  fromWalletId: z.number(),
+  /** The amount shown to the payer, bound into the step-up approval */
+  amount: z.string(),
+  stepUp: stepUpSchema.optional(),
+  idempotencyKey: idempotencyKeySchema.optional(),
+});
+
+/**
+ * Payment request procedures
+ * Ask other users for money through a shareable link
+ */
+
+export const paymentRequestsRouter = router({
+  /**
+   * Create a payment request and get its link
+   */
+  create: protectedProcedure
+    .input(createPaymentRequestSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const request = await requestPayment(ctx.user.id, input);
+        return { success: true, request };
+      } catch (error) {
+        if (error instanceof PaymentRequestError || error instanceof MoneyError || error instanceof CurrencyError) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to create payment request:", error);
+        return { success: false, error: "Failed to create payment request" };
+      }
+    }),
+
+  /**
+   * List the current user's payment requests, newest first
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const now = new Date();
+      const requests = (await getUserPaymentRequests(ctx.user.id)).map(request => ({
+        ...request,
+        status: paymentRequestStatus(request, now),
+        path: paymentRequestPath(request.token),
+      }));
+      return { success: true, requests };
+    } catch (error) {
+      console.error("Failed to get payment requests:", error);
+      return { success: false, error: "Failed to get payment requests", requests: [] };
+    }
+  }),
+
+  /**
+   * Open a payment request link
+   */
+  getByToken: protectedProcedure
+    .input(z.object({ token: paymentRequestTokenSchema }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const request = await viewPaymentRequest(ctx.user.id, input.token);
+        return { success: true, request };
+      } catch (error) {
+        if (error instanceof PaymentRequestError) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to get payment request:", error);
+        return { success: false, error: "Failed to get payment request" };
+      }
+    }),
+
+  /**
+   * Pay a request with a transfer to the requester
+   */
+  pay: protectedProcedure
+    .input(payInput)
+    .use(
+      requireStepUp<z.infer<typeof payInput>>({
+        when: "always",
+        idempotent: "paymentRequests.pay",
+        operation: input => ({
+          action: "transfer",
+          wallet: String(input.fromWalletId),
+          amount: input.amount,
+          destination: `paymentRequest:${input.token}`,
+        }),
+      })
+    )
+    .mutation(({ ctx, input }) =>
+      runIdempotent(ctx.user.id, "paymentRequests.pay", input, async () => {
+        try {
+          const paid = await payPaymentRequest(ctx.user.id, input.token, {
+            fromWalletId: input.fromWalletId,
+            expectedAmount: input.amount,
+          });
+          return {
+            success: true,
+            transactionId: paid.transactionId,
+            message: `Paid ${paid.amount} ${paid.currencyCode} to ${paid.requester}`,
+          };
+        } catch (error) {
+          if (error instanceof InsufficientBalanceError) {
+            return { success: false, error: "Insufficient balance" };
+          }
+          if (
+            error instanceof PaymentRequestError ||
+            error instanceof RecipientError ||
+            error instanceof MoneyError ||
+            error instanceof CurrencyError
+          ) {
+            return { success: false, error: error.message };
+          }
+          console.error("Failed to pay payment request:", error);
+          return { success: false, error: "Payment failed" };
+        }
+      })
+    ),
+
+  /**
+   * Cancel one of the current user's open requests
+   */
+  cancel: protectedProcedure
+    .input(z.object({ id: z.number().int().positive() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const request = await requireOwnPaymentRequest(ctx.user.id, input.id);
+        if (!(await cancelPaymentRequest(request.id))) {
+          return { success: false, error: `This request is ${paymentRequestStatus(request)}` };
+        }
+        return { success: true };
+      } catch (error) {
+        if (error instanceof PaymentRequestError) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to cancel payment request:", error);
+        return { success: false, error: "Failed to cancel payment request" };
+      }
+    }),
+});
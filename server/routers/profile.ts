@@ -0,0 +1,51 @@
+import { z } from "zod";
+import QRCode from "qrcode";
+import { protectedProcedure, router } from "../_core/trpc";
+import { getUserByHandle, setUserHandle } from "../db";
+import { currencyCodeSchema } from "../currencies";
+import { encodePaymentQr, handleSchema, recipientDisplayName } from "../recipients";
+
+/**
+ * Profile procedures
+ * How other users find the current user when sending money
+ */
+
+export const profileRouter = router({
+  /**
+   * Claim or clear the current user's handle
+   */
+  setHandle: protectedProcedure
+    .input(z.object({ handle: handleSchema.nullable() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        if (input.handle) {
+          const owner = await getUserByHandle(input.handle);
+          if (owner && owner.id !== ctx.user.id) {
+            return { success: false, error: `@${input.handle} is already taken` };
+          }
+        }
+
+        await setUserHandle(ctx.user.id, input.handle);
+        return { success: true, handle: input.handle };
+      } catch (error) {
+        console.error("Failed to set handle:", error);
+        return { success: false, error: "Failed to update handle" };
+      }
+    }),
+
+  /**
+   * Get a payment QR code others can scan to send money to the current user
+   */
+  getPaymentCode: protectedProcedure
+    .input(z.object({ currencyCode: currencyCodeSchema.optional() }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const payload = encodePaymentQr({ userId: ctx.user.id, currencyCode: input.currencyCode });
+        const qrCode = await QRCode.toDataURL(payload);
+        return { success: true, payload, qrCode, displayName: recipientDisplayName(ctx.user) };
+      } catch (error) {
+        console.error("Failed to create payment code:", error);
+        return { success: false, error: "Failed to create payment code" };
+      }
+    }),
+});
@@ -0,0 +1,149 @@
+import { z } from "zod";
+import { protectedProcedure, requireStepUp, router } from "../_core/trpc";
+import { getUserScheduledTransfers } from "../db";
+import { CurrencyError, currencyCodeSchema } from "../currencies";
+import { MoneyError } from "@shared/money";
+import { stepUpSchema } from "../stepUp";
+import { idempotencyKeySchema, runIdempotent } from "../idempotency";
+import { describeRecipient, RecipientError, recipientSchema } from "../recipients";
+import {
+  cancelScheduledTransfer,
+  pauseScheduledTransfer,
+  resumeScheduledTransfer,
+  ScheduleError,
+  scheduleSchema,
+  scheduleTransfer,
+  skipScheduledTransfer,
+} from "../scheduledTransfers";
+
+const createInput = z.object({
+  fromWalletId: z.number(),
+  recipient: recipientSchema,
+  amount: z.string(),
+  /** Currency to credit the recipient in; converted at the rate quoted when each run is made */
+  toCurrencyCode: currencyCodeSchema.optional(),
+  description: z.string().optional(),
+  schedule: scheduleSchema,
+  stepUp: stepUpSchema.optional(),
+  idempotencyKey: idempotencyKeySchema.optional(),
+});
+
+const scheduleIdInput = z.object({ id: z.number().int().positive() });
+
+const resumeInput = scheduleIdInput.extend({ stepUp: stepUpSchema.optional() });
+
+function scheduleOperation(input: z.infer<typeof createInput>) {
+  return {
+    action: "transfer" as const,
+    wallet: String(input.fromWalletId),
+    amount: input.amount,
+    destination: `${describeRecipient(input.recipient)};schedule:${input.schedule.frequency}`,
+  };
+}
+
+/**
+ * Run a schedule change, returning ScheduleError messages to the client
+ */
+async function changeSchedule(action: string, change: () => Promise<unknown>) {
+  try {
+    const schedule = await change();
+    return { success: true, schedule };
+  } catch (error) {
+    if (error instanceof ScheduleError) {
+      return { success: false, error: error.message };
+    }
+    console.error(`Failed to ${action} scheduled transfer:`, error);
+    return { success: false, error: `Failed to ${action} scheduled transfer` };
+  }
+}
+
+/**
+ * Scheduled transfers procedures
+ * One-off and recurring transfers made by the job runner
+ */
+
+export const scheduledTransfersRouter = router({
+  /**
+   * Schedule a one-off or recurring transfer
+   * The user approves the whole series up front; each run is sent without
+   * another prompt and the user is notified of the outcome.
+   */
+  create: protectedProcedure
+    .input(createInput)
+    .use(
+      requireStepUp<z.infer<typeof createInput>>({
+        when: "always",
+        idempotent: "scheduledTransfers.create",
+        operation: scheduleOperation,
+      })
+    )
+    .mutation(({ ctx, input }) =>
+      runIdempotent(ctx.user.id, "scheduledTransfers.create", input, async () => {
+        try {
+          const { schedule, ...transfer } = input;
+          const created = await scheduleTransfer(ctx.user.id, transfer, schedule);
+          return { success: true, ...created };
+        } catch (error) {
+          if (
+            error instanceof ScheduleError ||
+            error instanceof RecipientError ||
+            error instanceof MoneyError ||
+            error instanceof CurrencyError
+          ) {
+            return { success: false, error: error.message };
+          }
+          console.error("Failed to schedule transfer:", error);
+          return { success: false, error: "Failed to schedule transfer" };
+        }
+      })
+    ),
+
+  /**
+   * List the current user's scheduled transfers, newest first
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const schedules = await getUserScheduledTransfers(ctx.user.id);
+      return { success: true, schedules };
+    } catch (error) {
+      console.error("Failed to get scheduled transfers:", error);
+      return { success: false, error: "Failed to get scheduled transfers", schedules: [] };
+    }
+  }),
+
+  /**
+   * Skip the next run; the schedule continues with the one after
+   */
+  skip: protectedProcedure
+    .input(scheduleIdInput)
+    .mutation(({ ctx, input }) => changeSchedule("skip", () => skipScheduledTransfer(ctx.user.id, input.id))),
+
+  /**
+   * Pause a schedule; no runs are made until it is resumed
+   */
+  pause: protectedProcedure
+    .input(scheduleIdInput)
+    .mutation(({ ctx, input }) => changeSchedule("pause", () => pauseScheduledTransfer(ctx.user.id, input.id))),
+
+  /**
+   * Resume a paused schedule from its next due run
+   * Runs start moving money again, so this is approved like `create`.
+   * Schedules cannot be edited, so the approval names the schedule only.
+   */
+  resume: protectedProcedure
+    .input(resumeInput)
+    .use(
+      requireStepUp<z.infer<typeof resumeInput>>({
+        when: "always",
+        operation: input => ({ action: "resume_schedule", wallet: `schedule:${input.id}`, amount: "0", destination: "" }),
+      })
+    )
+    .mutation(({ ctx, input }) => changeSchedule("resume", () => resumeScheduledTransfer(ctx.user.id, input.id))),
+
+  /**
+   * Cancel a schedule for good
+   */
+  cancel: protectedProcedure
+    .input(scheduleIdInput)
+    .mutation(({ ctx, input }) => changeSchedule("cancel", () => cancelScheduledTransfer(ctx.user.id, input.id))),
+});
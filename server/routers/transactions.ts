@@ -1,102 +1,237 @@
 import { z } from "zod";
-import { protectedProcedure, router } from "../_core/trpc";
-import { createTransaction, getUserTransactions, getWalletById, updateWalletBalance, getUserWallets } from "../db";
+import { protectedProcedure, requireStepUp, router } from "../_core/trpc";
+import { countUserTransactions, getTransactionById, getTransactionEvents, getUserTransactions, getWalletById } from "../db";
 import { InsertTransaction } from "../../drizzle/schema";
+import {
+  depositLines,
+  feeLines,
+  InsufficientBalanceError,
+  postTransaction,
+  withdrawalLines,
+} from "../ledger";
+import { CurrencyError, currencyCodeSchema, requireCurrency } from "../currencies";
+import { QuoteError, quoteConversion } from "../quotes";
+import { sendTransfer } from "../transfers";
+import { MoneyError, parseAmount } from "@shared/money";
+import { stepUpSchema } from "../stepUp";
+import { idempotencyKeySchema, runIdempotent } from "../idempotency";
+import {
+  describeRecipient,
+  planTransfer,
+  RecipientError,
+  recipientDisplayName,
+  recipientSchema,
+} from "../recipients";
+import { decodeCursor, encodeCursor, transactionFiltersSchema } from "../transactionSearch";
+import { cancelPendingTransaction, refundTransfer, RefundError } from "../refunds";
+import { HoldError } from "../holds";
+import { TransactionStateError } from "../transactionStates";
+import { assertQuotedFee, FeeError, feeTransactionTypeSchema, quoteFee } from "../fees";
+
+const transferInput = z.object({
+  fromWalletId: z.number(),
+  recipient: recipientSchema,
+  amount: z.string(),
+  /** Currency to credit the recipient in; converted at `quoteId`'s price when it differs */
+  toCurrencyCode: currencyCodeSchema.optional(),
+  quoteId: z.number().int().positive().optional(),
+  /** Fee from `previewTransfer`; the transfer fails if it has changed */
+  fee: z.string(),
+  description: z.string().optional(),
+  stepUp: stepUpSchema.optional(),
+  idempotencyKey: idempotencyKeySchema.optional(),
+});
+
+const withdrawalInput = z.object({
+  walletId: z.number(),
+  amount: z.string(),
+  /** Fee from `quoteFee`; the withdrawal fails if it has changed */
+  fee: z.string(),
+  blockchainTxHash: z.string().optional(),
+  description: z.string().optional(),
+  stepUp: stepUpSchema.optional(),
+  idempotencyKey: idempotencyKeySchema.optional(),
+});
 
+const refundInput = z.object({
+  transactionId: z.number().int().positive(),
+  /** Leave out to refund everything not yet refunded */
+  amount: z.string().optional(),
+  reason: z.string().trim().max(500).optional(),
+  stepUp: stepUpSchema.optional(),
+  idempotencyKey: idempotencyKeySchema.optional(),
+});
+
+function transferOperation(
+  input: Pick<z.infer<typeof transferInput>, "fromWalletId" | "recipient" | "amount" | "quoteId" | "fee">
+) {
+  const recipient = describeRecipient(input.recipient);
+  return {
+    action: "transfer" as const,
+    wallet: String(input.fromWalletId),
+    amount: input.amount,
+    destination: input.quoteId ? `${recipient};quote:${input.quoteId}` : recipient,
+    fee: input.fee,
+  };
+}
 
 export const transactionsRouter = router({
   /**
-   * Create a peer-to-peer transfer between users
+   * Preview a transfer before confirming it
+   * Resolves the recipient and returns their display name, the amount at
+   * the currency's precision, the fee and the step-up operation to approve.
+   * When the recipient is credited in another currency, it also issues the
+   * quote the transfer must be sent with.
    */
-  transfer: protectedProcedure
+  previewTransfer: protectedProcedure
+    .input(transferInput.pick({ fromWalletId: true, recipient: true, amount: true, toCurrencyCode: true }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const plan = await planTransfer(ctx.user.id, input);
+        const quote =
+          plan.toCurrencyCode === plan.fromWallet.currencyCode
+            ? undefined
+            : await quoteConversion(ctx.user.id, {
+                fromCurrency: plan.fromWallet.currencyCode,
+                toCurrency: plan.toCurrencyCode,
+                amount: plan.amount,
+              });
+        const fee = quote ? quote.fee : (await quoteFee(ctx.user.id, "transfer", plan.fromCurrency, plan.amount)).fee;
+
+        return {
+          success: true,
+          preview: {
+            recipient: {
+              displayName: recipientDisplayName(plan.recipient),
+              handle: plan.recipient.handle,
+            },
+            currencyCode: plan.fromWallet.currencyCode,
+            amount: plan.amount,
+            fee,
+            opensWallet: !plan.toWallet,
+            conversion: quote
+              ? {
+                  quoteId: quote.id,
+                  toCurrencyCode: quote.toCurrency,
+                  rate: quote.rate,
+                  convertedAmount: quote.convertedAmount,
+                  expiresAt: quote.expiresAt,
+                }
+              : null,
+          },
+          stepUpOperation: transferOperation({ ...input, quoteId: quote?.id, fee }),
+        };
+      } catch (error) {
+        if (
+          error instanceof RecipientError ||
+          error instanceof QuoteError ||
+          error instanceof MoneyError ||
+          error instanceof CurrencyError
+        ) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to preview transfer:", error);
+        return { success: false, error: "Failed to preview transfer" };
+      }
+    }),
+
+  /**
+   * Show the fee the current user would pay, before they confirm
+   */
+  quoteFee: protectedProcedure
     .input(
       z.object({
-        toUserId: z.number(),
-        fromWalletId: z.number(),
-        toWalletId: z.number(),
+        transactionType: feeTransactionTypeSchema,
+        currencyCode: currencyCodeSchema,
         amount: z.string(),
-        description: z.string().optional(),
       })
     )
-    .mutation(async ({ ctx, input }) => {
+    .query(async ({ ctx, input }) => {
       try {
-        // Validate sender's wallet
-        const fromWallet = await getWalletById(input.fromWalletId);
-        if (!fromWallet || fromWallet.userId !== ctx.user.id) {
-          return { success: false, error: "Invalid source wallet" };
+        const currency = await requireCurrency(input.currencyCode, { allowDisabled: true });
+        const amount = parseAmount(input.amount, currency);
+        const { fee, total } = await quoteFee(ctx.user.id, input.transactionType, currency, amount);
+        return { success: true, quote: { ...input, currencyCode: currency.code, amount, fee, total } };
+      } catch (error) {
+        if (error instanceof MoneyError || error instanceof CurrencyError) {
+          return { success: false, error: error.message };
         }
+        console.error("Failed to quote fee:", error);
+        return { success: false, error: "Failed to quote fee" };
+      }
+    }),
 
-        // Validate receiver's wallet
-        const toWallet = await getWalletById(input.toWalletId);
-        if (!toWallet) {
-          return { success: false, error: "Invalid destination wallet" };
-        }
+  /**
+   * Send money to another user by email, handle or payment QR code
+   * Credits the recipient's wallet in the destination currency, opening one
+   * if they have none. Cross-currency transfers post at the price of the
+   * quote from `previewTransfer`.
+   */
+  transfer: protectedProcedure
+    .input(transferInput)
+    .use(
+      requireStepUp<z.infer<typeof transferInput>>({
+        when: "always",
+        idempotent: "transactions.transfer",
+        operation: transferOperation,
+      })
+    )
+    .mutation(({ ctx, input }) =>
+      runIdempotent(ctx.user.id, "transactions.transfer", input, async () => {
+        try {
+          const { plan, credited } = await sendTransfer(ctx.user.id, input);
 
-        // Check sufficient balance
-        const balance = parseFloat(fromWallet.balance);
-        const amount = parseFloat(input.amount);
-        if (balance < amount) {
-          return { success: false, error: "Insufficient balance" };
+          return {
+            success: true,
+            message: `Sent ${credited.amount} ${credited.currencyCode} to ${recipientDisplayName(plan.recipient)}`,
+          };
+        } catch (error) {
+          if (error instanceof InsufficientBalanceError) {
+            return { success: false, error: "Insufficient balance" };
+          }
+          if (
+            error instanceof RecipientError ||
+            error instanceof QuoteError ||
+            error instanceof FeeError ||
+            error instanceof MoneyError ||
+            error instanceof CurrencyError
+          ) {
+            return { success: false, error: error.message };
+          }
+          console.error("Failed to create transfer:", error);
+          return { success: false, error: "Transfer failed" };
         }
-
-        // Create transaction record
-        const transactionData: InsertTransaction = {
-          fromUserId: ctx.user.id,
-          toUserId: input.toUserId,
-          fromWalletId: input.fromWalletId,
-          toWalletId: input.toWalletId,
-          amount: input.amount,
-          fee: "0",
-          transactionType: "transfer",
-          status: "completed",
-          description: input.description,
-        };
-
-        await createTransaction(transactionData);
-
-        // Update balances
-        const newFromBalance = (balance - amount).toString();
-        const toBalance = parseFloat(toWallet.balance);
-        const newToBalance = (toBalance + amount).toString();
-
-        await updateWalletBalance(input.fromWalletId, newFromBalance);
-        await updateWalletBalance(input.toWalletId, newToBalance);
-
-        return { success: true, message: "Transfer completed successfully" };
-      } catch (error) {
-        console.error("Failed to create transfer:", error);
-        return { success: false, error: "Transfer failed" };
-      }
-    }),
+      })
+    ),
 
   /**
-   * List transactions for the current user
+   * Search the current user's transactions, newest first
+   * `total` counts every match; pass `nextCursor` back as `cursor` for the
+   * next page.
    */
   list: protectedProcedure
     .input(
       z.object({
-        limit: z.number().default(50),
-        offset: z.number().default(0),
-        type: z.enum(["transfer", "deposit", "withdrawal", "exchange"]).optional(),
-        status: z.enum(["pending", "completed", "failed", "cancelled"]).optional(),
+        limit: z.number().int().min(1).max(100).default(50),
+        cursor: z.string().optional(),
+        filters: transactionFiltersSchema.optional(),
       })
     )
     .query(async ({ ctx, input }) => {
       try {
-        const transactions = await getUserTransactions(ctx.user.id, input.limit, input.offset);
-
-        // Filter by type if specified
-        let filtered = transactions;
-        if (input.type) {
-          filtered = filtered.filter(t => t.transactionType === input.type);
+        const cursor = input.cursor ? decodeCursor(input.cursor) : undefined;
+        if (input.cursor && !cursor) {
+          return { success: false, error: "Invalid cursor" };
         }
 
-        // Filter by status if specified
-        if (input.status) {
-          filtered = filtered.filter(t => t.status === input.status);
-        }
+        const [rows, total] = await Promise.all([
+          getUserTransactions(ctx.user.id, { filters: input.filters, limit: input.limit + 1, cursor }),
+          countUserTransactions(ctx.user.id, input.filters),
+        ]);
+        const transactions = rows.slice(0, input.limit);
+        const nextCursor = rows.length > input.limit ? encodeCursor(transactions[transactions.length - 1]) : null;
 
-        return { success: true, transactions: filtered, total: filtered.length };
+        return { success: true, transactions, total, nextCursor };
       } catch (error) {
         console.error("Failed to list transactions:", error);
         return { success: false, error: "Failed to retrieve transactions" };
@@ -104,20 +239,20 @@ export const transactionsRouter = router({
     }),
 
   /**
-   * Get transaction details
+   * Get transaction details and its status timeline
    */
   getById: protectedProcedure
     .input(z.object({ transactionId: z.number() }))
     .query(async ({ ctx, input }) => {
       try {
-        const transactions = await getUserTransactions(ctx.user.id, 1000, 0);
-        const transaction = transactions.find(t => t.id === input.transactionId);
+        const transaction = await getTransactionById(input.transactionId);
 
-        if (!transaction) {
+        if (!transaction || (transaction.fromUserId !== ctx.user.id && transaction.toUserId !== ctx.user.id)) {
           return { success: false, error: "Transaction not found" };
         }
 
-        return { success: true, transaction };
+        const timeline = await getTransactionEvents(transaction.id);
+        return { success: true, transaction, timeline };
       } catch (error) {
         console.error("Failed to get transaction:", error);
         return { success: false, error: "Failed to retrieve transaction" };
@@ -125,107 +260,188 @@ export const transactionsRouter = router({
     }),
 
   /**
-   * Record a deposit transaction
+   * Refund all or part of a transfer the current user received
+   * The money goes back from the wallet it landed in to the payer's wallet.
    */
-  recordDeposit: protectedProcedure
-    .input(
-      z.object({
-        walletId: z.number(),
-        amount: z.string(),
-        blockchainTxHash: z.string().optional(),
-        description: z.string().optional(),
+  refund: protectedProcedure
+    .input(refundInput)
+    .use(
+      requireStepUp<z.infer<typeof refundInput>>({
+        when: "always",
+        idempotent: "transactions.refund",
+        operation: input => ({
+          action: "refund",
+          wallet: `transaction:${input.transactionId}`,
+          amount: input.amount ?? "full",
+          destination: "payer",
+        }),
       })
     )
-    .mutation(async ({ ctx, input }) => {
-      try {
-        const wallet = await getWalletById(input.walletId);
-        if (!wallet || wallet.userId !== ctx.user.id) {
-          return { success: false, error: "Invalid wallet" };
+    .mutation(({ ctx, input }) =>
+      runIdempotent(ctx.user.id, "transactions.refund", input, async () => {
+        try {
+          const refund = await refundTransfer(ctx.user.id, input.transactionId, input.amount, input.reason);
+          return {
+            success: true,
+            transactionId: refund.refundId,
+            message: `Refunded ${refund.amount} ${refund.currencyCode}`,
+          };
+        } catch (error) {
+          if (error instanceof InsufficientBalanceError) {
+            return { success: false, error: "Insufficient balance" };
+          }
+          if (error instanceof RefundError || error instanceof MoneyError || error instanceof CurrencyError) {
+            return { success: false, error: error.message };
+          }
+          console.error("Failed to refund transaction:", error);
+          return { success: false, error: "Refund failed" };
         }
+      })
+    ),
 
-        const transactionData: InsertTransaction = {
-          toUserId: ctx.user.id,
-          fromWalletId: input.walletId,
-          toWalletId: input.walletId,
-          amount: input.amount,
-          fee: "0",
-          transactionType: "deposit",
-          status: "completed",
-          blockchainTxHash: input.blockchainTxHash,
-          description: input.description || "Deposit",
-        };
-
-        await createTransaction(transactionData);
-
-        // Update wallet balance
-        const newBalance = (parseFloat(wallet.balance) + parseFloat(input.amount)).toString();
-        await updateWalletBalance(input.walletId, newBalance);
-
-        return { success: true, message: "Deposit recorded successfully" };
+  /**
+   * Cancel a pending transaction the current user started, within 30 minutes
+   */
+  cancel: protectedProcedure
+    .input(z.object({ transactionId: z.number().int().positive() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await cancelPendingTransaction(ctx.user.id, input.transactionId);
+        return { success: true, message: "Transaction cancelled" };
       } catch (error) {
-        console.error("Failed to record deposit:", error);
-        return { success: false, error: "Failed to record deposit" };
+        if (error instanceof RefundError || error instanceof HoldError || error instanceof TransactionStateError) {
+          return { success: false, error: error.message };
+        }
+        console.error("Failed to cancel transaction:", error);
+        return { success: false, error: "Failed to cancel transaction" };
       }
     }),
 
   /**
-   * Record a withdrawal transaction
+   * Record a deposit transaction
    */
-  recordWithdrawal: protectedProcedure
+  recordDeposit: protectedProcedure
     .input(
       z.object({
         walletId: z.number(),
         amount: z.string(),
         blockchainTxHash: z.string().optional(),
         description: z.string().optional(),
+        idempotencyKey: idempotencyKeySchema.optional(),
       })
     )
-    .mutation(async ({ ctx, input }) => {
-      try {
-        const wallet = await getWalletById(input.walletId);
-        if (!wallet || wallet.userId !== ctx.user.id) {
-          return { success: false, error: "Invalid wallet" };
-        }
+    .mutation(({ ctx, input }) =>
+      runIdempotent(ctx.user.id, "transactions.recordDeposit", input, async () => {
+        try {
+          const wallet = await getWalletById(input.walletId);
+          if (!wallet || wallet.userId !== ctx.user.id) {
+            return { success: false, error: "Invalid wallet" };
+          }
+
+          const currency = await requireCurrency(wallet.currencyCode);
+          const amount = parseAmount(input.amount, currency);
+
+          const transactionData: InsertTransaction = {
+            toUserId: ctx.user.id,
+            fromWalletId: input.walletId,
+            toWalletId: input.walletId,
+            amount,
+            fee: "0",
+            transactionType: "deposit",
+            status: "completed",
+            blockchainTxHash: input.blockchainTxHash,
+            description: input.description || "Deposit",
+          };
 
-        const balance = parseFloat(wallet.balance);
-        const amount = parseFloat(input.amount);
-        if (balance < amount) {
-          return { success: false, error: "Insufficient balance" };
+          await postTransaction(transactionData, depositLines(wallet.id, wallet.currencyCode, amount));
+
+          return { success: true, message: "Deposit recorded successfully" };
+        } catch (error) {
+          if (error instanceof MoneyError || error instanceof CurrencyError) {
+            return { success: false, error: error.message };
+          }
+          console.error("Failed to record deposit:", error);
+          return { success: false, error: "Failed to record deposit" };
         }
+      })
+    ),
 
-        const transactionData: InsertTransaction = {
-          fromUserId: ctx.user.id,
-          fromWalletId: input.walletId,
-          toWalletId: input.walletId,
+  /**
+   * Record a withdrawal transaction
+   */
+  recordWithdrawal: protectedProcedure
+    .input(withdrawalInput)
+    .use(
+      requireStepUp<z.infer<typeof withdrawalInput>>({
+        when: "always",
+        idempotent: "transactions.recordWithdrawal",
+        operation: input => ({
+          action: "withdrawal",
+          wallet: String(input.walletId),
           amount: input.amount,
-          fee: "0",
-          transactionType: "withdrawal",
-          status: "completed",
-          blockchainTxHash: input.blockchainTxHash,
-          description: input.description || "Withdrawal",
-        };
-
-        await createTransaction(transactionData);
-
-        // Update wallet balance
-        const newBalance = (balance - amount).toString();
-        await updateWalletBalance(input.walletId, newBalance);
+          destination: input.blockchainTxHash ?? "",
+          fee: input.fee,
+        }),
+      })
+    )
+    .mutation(({ ctx, input }) =>
+      runIdempotent(ctx.user.id, "transactions.recordWithdrawal", input, async () => {
+        try {
+          const wallet = await getWalletById(input.walletId);
+          if (!wallet || wallet.userId !== ctx.user.id) {
+            return { success: false, error: "Invalid wallet" };
+          }
+
+          // Funds may always leave a disabled currency
+          const currency = await requireCurrency(wallet.currencyCode, { allowDisabled: true });
+          const amount = parseAmount(input.amount, currency);
+          const { fee } = await quoteFee(ctx.user.id, "withdrawal", currency, amount);
+          assertQuotedFee(input.fee, fee);
+
+          const transactionData: InsertTransaction = {
+            fromUserId: ctx.user.id,
+            fromWalletId: input.walletId,
+            toWalletId: input.walletId,
+            amount,
+            fee,
+            transactionType: "withdrawal",
+            status: "completed",
+            blockchainTxHash: input.blockchainTxHash,
+            description: input.description || "Withdrawal",
+          };
 
-        return { success: true, message: "Withdrawal recorded successfully" };
-      } catch (error) {
-        console.error("Failed to record withdrawal:", error);
-        return { success: false, error: "Failed to record withdrawal" };
-      }
-    }),
+          await postTransaction(transactionData, [
+            ...withdrawalLines(wallet.id, wallet.currencyCode, amount),
+            ...feeLines(wallet.id, currency, fee),
+          ]);
+
+          return { success: true, message: "Withdrawal recorded successfully" };
+        } catch (error) {
+          if (error instanceof InsufficientBalanceError) {
+            return { success: false, error: "Insufficient balance" };
+          }
+          if (error instanceof FeeError || error instanceof MoneyError || error instanceof CurrencyError) {
+            return { success: false, error: error.message };
+          }
+          console.error("Failed to record withdrawal:", error);
+          return { success: false, error: "Failed to record withdrawal" };
+        }
+      })
+    ),
 
   /**
    * Export transactions as CSV
    */
   export: protectedProcedure
-    .input(z.object({ format: z.enum(["csv", "json"]).default("csv") }))
+    .input(
+      z.object({
+        format: z.enum(["csv", "json"]).default("csv"),
+        filters: transactionFiltersSchema.optional(),
+      })
+    )
     .query(async ({ ctx, input }) => {
       try {
-        const transactions = await getUserTransactions(ctx.user.id, 10000, 0);
+        const transactions = await getUserTransactions(ctx.user.id, { filters: input.filters, limit: 10000 });
 
         if (input.format === "json") {
           return {
@@ -1,6 +1,10 @@
 import { z } from "zod";
 import { protectedProcedure, router } from "../_core/trpc";
-import { createWallet, getUserWallets, getWalletById, updateWalletBalance } from "../db";
+import { createWallet, getUserWallets, getWalletById, getWalletHolds, listCurrencies } from "../db";
+import { withAvailableBalances } from "../holds";
+import { percentageOf, valuePortfolio } from "../portfolio";
+import { CurrencyError, requireCurrency } from "../currencies";
+import { compareDecimals } from "@shared/money";
 
 export const walletsRouter = router({
   /**
@@ -15,6 +19,8 @@ export const walletsRouter = router({
     )
     .mutation(async ({ ctx, input }) => {
       try {
+        await requireCurrency(input.currencyCode);
+
         // Check if user already has a wallet for this currency
         const existingWallets = await getUserWallets(ctx.user.id);
         const exists = existingWallets.some(w => w.currencyCode === input.currencyCode);
@@ -26,17 +32,33 @@ export const walletsRouter = router({
         await createWallet(ctx.user.id, input.currencyCode, input.address);
         return { success: true, message: `${input.currencyCode} wallet created successfully` };
       } catch (error) {
+        if (error instanceof CurrencyError) {
+          return { success: false, error: error.message };
+        }
         console.error("Failed to create wallet:", error);
         return { success: false, error: "Failed to create wallet" };
       }
     }),
 
   /**
-   * List all wallets for the current user
+   * List the currencies new wallets can be opened in
+   */
+  listCurrencies: protectedProcedure.query(async () => {
+    try {
+      const currencies = await listCurrencies(true);
+      return { success: true, currencies };
+    } catch (error) {
+      console.error("Failed to list currencies:", error);
+      return { success: false, error: "Failed to retrieve currencies" };
+    }
+  }),
+
+  /**
+   * List all wallets for the current user with ledger and available balances
    */
   list: protectedProcedure.query(async ({ ctx }) => {
     try {
-      const wallets = await getUserWallets(ctx.user.id);
+      const wallets = await withAvailableBalances(await getUserWallets(ctx.user.id));
       return { success: true, wallets };
     } catch (error) {
       console.error("Failed to list wallets:", error);
@@ -57,7 +79,8 @@ export const walletsRouter = router({
           return { success: false, error: "Wallet not found" };
         }
 
-        return { success: true, wallet };
+        const [withBalances] = await withAvailableBalances([wallet]);
+        return { success: true, wallet: withBalances };
       } catch (error) {
         console.error("Failed to get wallet:", error);
         return { success: false, error: "Failed to retrieve wallet" };
@@ -65,7 +88,9 @@ export const walletsRouter = router({
     }),
 
   /**
-   * Get balance for a specific wallet
+   * Get balances for a specific wallet
+   * `balance` and `ledgerBalance` are the posted balance; `availableBalance`
+   * excludes funds reserved by active holds.
    */
   getBalance: protectedProcedure
     .input(z.object({ walletId: z.number() }))
@@ -77,29 +102,61 @@ export const walletsRouter = router({
           return { success: false, error: "Wallet not found" };
         }
 
-        return { success: true, balance: wallet.balance, currency: wallet.currencyCode };
+        const [{ ledgerBalance, availableBalance }] = await withAvailableBalances([wallet]);
+        return {
+          success: true,
+          balance: ledgerBalance,
+          ledgerBalance,
+          availableBalance,
+          currency: wallet.currencyCode,
+        };
       } catch (error) {
         console.error("Failed to get balance:", error);
         return { success: false, error: "Failed to retrieve balance" };
       }
     }),
 
+  /**
+   * List the holds reserving funds in a wallet, newest first
+   */
+  listHolds: protectedProcedure
+    .input(z.object({ walletId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const wallet = await getWalletById(input.walletId);
+
+        if (!wallet || wallet.userId !== ctx.user.id) {
+          return { success: false, error: "Wallet not found" };
+        }
+
+        const holds = await getWalletHolds(wallet.id);
+        return { success: true, holds };
+      } catch (error) {
+        console.error("Failed to list holds:", error);
+        return { success: false, error: "Failed to retrieve holds" };
+      }
+    }),
+
   /**
    * Get total portfolio value in a specific currency
+   * Each wallet is converted with the cached exchange rate; wallets without
+   * a rate are flagged and left out of the total.
    */
   getPortfolioValue: protectedProcedure
     .input(z.object({ baseCurrency: z.string().default("USD") }))
     .query(async ({ ctx, input }) => {
       try {
         const wallets = await getUserWallets(ctx.user.id);
-
-        // Calculate total value (simplified - in production you'd use exchange rates)
-        const totalValue = wallets.reduce((sum, wallet) => {
-          const balance = parseFloat(wallet.balance);
-          return sum + balance;
-        }, 0);
-
-        return { success: true, totalValue, currency: input.baseCurrency };
+        const valuation = await valuePortfolio(wallets, input.baseCurrency);
+
+        return {
+          success: true,
+          totalValue: valuation.totalValue,
+          currency: valuation.baseCurrency,
+          wallets: valuation.wallets,
+          incomplete: valuation.incomplete,
+          stale: valuation.stale,
+        };
       } catch (error) {
         console.error("Failed to get portfolio value:", error);
         return { success: false, error: "Failed to calculate portfolio value" };
@@ -107,30 +164,34 @@ export const walletsRouter = router({
     }),
 
   /**
-   * Get wallet distribution (percentage breakdown)
+   * Get wallet distribution (percentage breakdown by value in the base currency)
    */
-  getDistribution: protectedProcedure.query(async ({ ctx }) => {
-    try {
-      const wallets = await getUserWallets(ctx.user.id);
+  getDistribution: protectedProcedure
+    .input(z.object({ baseCurrency: z.string().default("USD") }).default({ baseCurrency: "USD" }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const wallets = await getUserWallets(ctx.user.id);
+        const valuation = await valuePortfolio(wallets, input.baseCurrency);
+        const unvalued = valuation.wallets.filter(wallet => wallet.rateMissing).map(wallet => wallet.currency);
 
-      const totalValue = wallets.reduce((sum, wallet) => {
-        return sum + parseFloat(wallet.balance);
-      }, 0);
+        if (compareDecimals(valuation.totalValue, "0") === 0) {
+          return { success: true, distribution: [], currency: valuation.baseCurrency, unvalued };
+        }
 
-      if (totalValue === 0) {
-        return { success: true, distribution: [] };
+        const distribution = valuation.wallets
+          .filter(wallet => wallet.value !== null)
+          .map(wallet => ({
+            currency: wallet.currency,
+            balance: wallet.balance,
+            value: wallet.value!,
+            percentage: percentageOf(wallet.value!, valuation.totalValue),
+            rateStale: wallet.rateStale,
+          }));
+
+        return { success: true, distribution, currency: valuation.baseCurrency, unvalued };
+      } catch (error) {
+        console.error("Failed to get distribution:", error);
+        return { success: false, error: "Failed to calculate distribution" };
       }
-
-      const distribution = wallets.map(wallet => ({
-        currency: wallet.currencyCode,
-        balance: wallet.balance,
-        percentage: (parseFloat(wallet.balance) / totalValue) * 100,
-      }));
-
-      return { success: true, distribution };
-    } catch (error) {
-      console.error("Failed to get distribution:", error);
-      return { success: false, error: "Failed to calculate distribution" };
-    }
-  }),
+    }),
 });
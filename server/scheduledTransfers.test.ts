@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const updates: Array<{ id: number; changes: Record<string, unknown>; expectedOccurrence?: number }> = [];
+const queued: Array<{ type: string; payload: unknown; runAt?: Date; dedupeKey?: string }> = [];
+const notifications: Array<{ subject: string }> = [];
+let schedule: Record<string, unknown> | undefined;
+
+vi.mock("./db", () => ({
+  createNotification: vi.fn(async (data: { subject: string }) => notifications.push(data)),
+  getScheduledTransferById: vi.fn(async () => schedule),
+  updateScheduledTransfer: vi.fn(async (id: number, changes: Record<string, unknown>, expectedOccurrence?: number) => {
+    updates.push({ id, changes, expectedOccurrence });
+    return true;
+  }),
+}));
+
+vi.mock("./jobs", async () => {
+  const actual = await vi.importActual<typeof import("./jobs")>("./jobs");
+  return {
+    RetryJobError: actual.RetryJobError,
+    registerJobHandler: vi.fn(),
+    enqueueJob: vi.fn(async (job: (typeof queued)[number]) => queued.push(job)),
+  };
+});
+
+const sendTransfer = vi.fn();
+vi.mock("./transfers", () => ({ sendTransfer }));
+vi.mock("./idempotency", () => ({ runIdempotent: (_u: number, _p: string, _i: object, run: () => unknown) => run() }));
+
+const { InsufficientBalanceError } = await import("./ledger");
+const { RetryJobError } = await import("./jobs");
+const { nextOccurrence, runScheduledTransfer } = await import("./scheduledTransfers");
+
+const at = (iso: string) => new Date(iso);
+
+describe("schedule timing", () => {
+  it("runs daily and weekly schedules on the start time's cadence", () => {
+    const daily = { frequency: "daily" as const, cronExpression: null, startAt: at("2025-01-01T09:00:00Z"), endAt: null };
+    expect(nextOccurrence(daily, at("2024-12-01T00:00:00Z"))).toEqual(at("2025-01-01T09:00:00Z"));
+    expect(nextOccurrence(daily, at("2025-01-05T09:00:00.001Z"))).toEqual(at("2025-01-06T09:00:00Z"));
+
+    const weekly = { ...daily, frequency: "weekly" as const };
+    expect(nextOccurrence(weekly, at("2025-01-02T00:00:00Z"))).toEqual(at("2025-01-08T09:00:00Z"));
+  });
+
+  it("keeps the day of month, clamping to shorter months", () => {
+    const monthly = { frequency: "monthly" as const, cronExpression: null, startAt: at("2025-01-31T09:00:00Z"), endAt: null };
+    expect(nextOccurrence(monthly, at("2025-02-01T00:00:00Z"))).toEqual(at("2025-02-28T09:00:00Z"));
+    expect(nextOccurrence(monthly, at("2025-03-01T00:00:00Z"))).toEqual(at("2025-03-31T09:00:00Z"));
+  });
+
+  it("ends one-off schedules after their run and others at their end date", () => {
+    const once = { frequency: "once" as const, cronExpression: null, startAt: at("2025-01-01T09:00:00Z"), endAt: null };
+    expect(nextOccurrence(once, at("2025-01-01T09:00:00.001Z"))).toBeNull();
+
+    const cron = { frequency: "cron" as const, cronExpression: "0 12 * * *", startAt: at("2025-01-01T00:00:00Z"), endAt: at("2025-01-02T00:00:00Z") };
+    expect(nextOccurrence(cron, at("2024-12-01T00:00:00Z"))).toEqual(at("2025-01-01T12:00:00Z"));
+    expect(nextOccurrence(cron, at("2025-01-01T12:00:00.001Z"))).toBeNull();
+  });
+});
+
+describe("scheduled transfer runs", () => {
+  const now = at("2025-01-01T09:00:05Z");
+  const job = { attempts: 1, maxAttempts: 4 };
+
+  beforeEach(() => {
+    updates.length = 0;
+    queued.length = 0;
+    notifications.length = 0;
+    sendTransfer.mockReset();
+    schedule = {
+      id: 3,
+      userId: 7,
+      fromWalletId: 1,
+      recipient: { type: "handle", handle: "bob" },
+      amount: "10.00",
+      toCurrencyCode: null,
+      description: null,
+      frequency: "daily",
+      cronExpression: null,
+      startAt: at("2025-01-01T09:00:00Z"),
+      endAt: null,
+      status: "active",
+      occurrence: 0,
+      nextRunAt: at("2025-01-01T09:00:00Z"),
+    };
+  });
+
+  it("sends the transfer, notifies the owner and queues the next run", async () => {
+    sendTransfer.mockResolvedValue({
+      transactionId: 42,
+      plan: { recipient: { id: 8, name: "Bob", handle: "bob" } },
+      credited: { amount: "10.00", currencyCode: "USD" },
+    });
+
+    await runScheduledTransfer({ scheduleId: 3, occurrence: 0 }, job, now);
+
+    expect(sendTransfer).toHaveBeenCalledWith(7, expect.objectContaining({ amount: "10.00" }), { autoQuote: true });
+    expect(notifications[0].subject).toBe("Scheduled transfer #3 sent");
+    expect(updates[0]).toMatchObject({
+      expectedOccurrence: 0,
+      changes: { occurrence: 1, nextRunAt: at("2025-01-02T09:00:00Z"), lastRunStatus: "completed", lastTransactionId: 42 },
+    });
+    expect(queued[0]).toMatchObject({ payload: { scheduleId: 3, occurrence: 1 }, dedupeKey: "scheduledTransfer.run:3:1" });
+  });
+
+  it("retries short of funds, then fails the run and moves on", async () => {
+    sendTransfer.mockRejectedValue(new InsufficientBalanceError(1));
+
+    await expect(runScheduledTransfer({ scheduleId: 3, occurrence: 0 }, job, now)).rejects.toBeInstanceOf(RetryJobError);
+    expect(updates).toHaveLength(0);
+    expect(notifications[0].subject).toBe("Scheduled transfer #3 delayed");
+
+    await runScheduledTransfer({ scheduleId: 3, occurrence: 0 }, { attempts: 4, maxAttempts: 4 }, now);
+    expect(notifications[1].subject).toBe("Scheduled transfer #3 failed");
+    expect(updates[0].changes).toMatchObject({ occurrence: 1, lastRunStatus: "failed", lastError: "Insufficient balance" });
+  });
+
+  it("ignores runs for a skipped occurrence or a paused schedule", async () => {
+    await runScheduledTransfer({ scheduleId: 3, occurrence: 1 }, job, now);
+    schedule = { ...schedule, status: "paused" };
+    await runScheduledTransfer({ scheduleId: 3, occurrence: 0 }, job, now);
+
+    expect(sendTransfer).not.toHaveBeenCalled();
+    expect(updates).toHaveLength(0);
+  });
+});
@@ -0,0 +1,358 @@
+import { z } from "zod";
+import {
+  createNotification,
+  createScheduledTransfer,
+  getScheduledTransferById,
+  updateScheduledTransfer,
+} from "./db";
+import type { InsertScheduledTransfer, ScheduledTransfer } from "../drizzle/schema";
+import { nextCronRun, parseCron } from "./cron";
+import { enqueueJob, registerJobHandler, RetryJobError } from "./jobs";
+import { runIdempotent } from "./idempotency";
+import { InsufficientBalanceError } from "./ledger";
+import { planTransfer, RecipientError, recipientDisplayName, type Recipient } from "./recipients";
+import { QuoteError } from "./quotes";
+import { CurrencyError } from "./currencies";
+import { MoneyError } from "@shared/money";
+import { sendTransfer, type TransferRequest } from "./transfers";
+
+/**
+ * Scheduled transfers
+ * One-off and recurring transfers run by the job runner. Each due run is a
+ * job tagged with the schedule's occurrence number; skipping, pausing or
+ * resuming moves the schedule to a new occurrence, so jobs queued for the
+ * old one do nothing when they fire.
+ */
+
+export const SCHEDULED_TRANSFER_JOB = "scheduledTransfer.run";
+
+/** Runs short of funds are retried this many times before the run fails */
+export const SCHEDULED_TRANSFER_RETRIES = 3;
+
+export const SCHEDULED_TRANSFER_RETRY_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduleError";
+  }
+}
+
+export const scheduleSchema = z
+  .object({
+    frequency: z.enum(["once", "daily", "weekly", "monthly", "cron"]),
+    /** Five-field cron expression in UTC; required for the cron frequency */
+    cronExpression: z.string().trim().max(100).optional(),
+    startAt: z.coerce.date().optional(),
+    endAt: z.coerce.date().optional(),
+  })
+  .refine(schedule => (schedule.frequency === "cron") === Boolean(schedule.cronExpression), {
+    message: "A cron expression is required for cron schedules and only allowed for them",
+    path: ["cronExpression"],
+  })
+  .refine(
+    schedule => {
+      if (!schedule.cronExpression) return true;
+      try {
+        parseCron(schedule.cronExpression);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: "Invalid cron expression", path: ["cronExpression"] }
+  )
+  .refine(schedule => !schedule.endAt || !schedule.startAt || schedule.endAt > schedule.startAt, {
+    message: "End must be after start",
+    path: ["endAt"],
+  });
+
+type Timing = Pick<ScheduledTransfer, "frequency" | "cronExpression" | "startAt" | "endAt">;
+
+function addMonthsClamped(date: Date, months: number) {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const result = new Date(date.getTime());
+  result.setUTCFullYear(year, month, Math.min(date.getUTCDate(), lastDay));
+  return result;
+}
+
+/**
+ * First run time at or after `notBefore`, or null once the schedule is over
+ * Monthly runs keep the start date's day, falling back to the month's last
+ * day when it is shorter.
+ */
+export function nextOccurrence(timing: Timing, notBefore: Date): Date | null {
+  const { startAt } = timing;
+  let next: Date | null;
+
+  if (notBefore <= startAt && timing.frequency !== "cron") {
+    next = startAt;
+  } else {
+    switch (timing.frequency) {
+      case "once":
+        next = null;
+        break;
+      case "daily":
+      case "weekly": {
+        const period = timing.frequency === "daily" ? DAY_MS : 7 * DAY_MS;
+        next = new Date(startAt.getTime() + Math.ceil((notBefore.getTime() - startAt.getTime()) / period) * period);
+        break;
+      }
+      case "monthly": {
+        // Start from the run in notBefore's month; it is at most one month short
+        let months =
+          (notBefore.getUTCFullYear() - startAt.getUTCFullYear()) * 12 + notBefore.getUTCMonth() - startAt.getUTCMonth();
+        next = addMonthsClamped(startAt, months);
+        while (next < notBefore) {
+          next = addMonthsClamped(startAt, ++months);
+        }
+        break;
+      }
+      case "cron": {
+        const from = notBefore > startAt ? notBefore : startAt;
+        next = nextCronRun(timing.cronExpression ?? "", new Date(from.getTime() - 1));
+        break;
+      }
+    }
+  }
+
+  return next && timing.endAt && next > timing.endAt ? null : next;
+}
+
+function queueRun(scheduleId: number, occurrence: number, runAt: Date) {
+  return enqueueJob({
+    type: SCHEDULED_TRANSFER_JOB,
+    payload: { scheduleId, occurrence },
+    runAt,
+    maxAttempts: SCHEDULED_TRANSFER_RETRIES + 1,
+    dedupeKey: `${SCHEDULED_TRANSFER_JOB}:${scheduleId}:${occurrence}`,
+  });
+}
+
+/**
+ * Create a schedule and queue its first run
+ * The transfer is validated now, so a bad recipient or amount fails here
+ * rather than at run time.
+ */
+export async function scheduleTransfer(
+  userId: number,
+  transfer: Omit<TransferRequest, "quoteId">,
+  schedule: z.infer<typeof scheduleSchema>,
+  now = new Date()
+) {
+  const plan = await planTransfer(userId, transfer);
+  const timing: Timing = {
+    frequency: schedule.frequency,
+    cronExpression: schedule.cronExpression ?? null,
+    startAt: schedule.startAt ?? now,
+    endAt: schedule.endAt ?? null,
+  };
+
+  const nextRunAt = nextOccurrence(timing, timing.startAt);
+  if (!nextRunAt) {
+    throw new ScheduleError("This schedule never runs");
+  }
+
+  const data: InsertScheduledTransfer = {
+    ...timing,
+    userId,
+    fromWalletId: plan.fromWallet.id,
+    recipient: transfer.recipient,
+    amount: plan.amount,
+    toCurrencyCode: plan.toCurrencyCode === plan.fromWallet.currencyCode ? null : plan.toCurrencyCode,
+    description: transfer.description ?? null,
+    nextRunAt,
+  };
+  const id = await createScheduledTransfer(data);
+  await queueRun(id, 0, nextRunAt);
+  return { id, nextRunAt, recipient: recipientDisplayName(plan.recipient) };
+}
+
+async function requireOwnSchedule(userId: number, scheduleId: number) {
+  const schedule = await getScheduledTransferById(scheduleId);
+  if (!schedule || schedule.userId !== userId) {
+    throw new ScheduleError("Scheduled transfer not found");
+  }
+  return schedule;
+}
+
+/**
+ * Move a schedule to its next occurrence at or after `notBefore`
+ * Only applies if nobody else moved it first; queues the next run.
+ */
+async function advance(
+  schedule: ScheduledTransfer,
+  notBefore: Date,
+  changes: Partial<InsertScheduledTransfer> = {}
+) {
+  const occurrence = schedule.occurrence + 1;
+  const nextRunAt = nextOccurrence(schedule, notBefore);
+  const status = nextRunAt ? changes.status ?? schedule.status : "completed";
+
+  const updated = await updateScheduledTransfer(
+    schedule.id,
+    { ...changes, status, occurrence, nextRunAt },
+    schedule.occurrence
+  );
+  if (updated && nextRunAt && status === "active") {
+    await queueRun(schedule.id, occurrence, nextRunAt);
+  }
+  return updated ? { ...schedule, ...changes, status, occurrence, nextRunAt } : undefined;
+}
+
+/**
+ * Skip the next run
+ */
+export async function skipScheduledTransfer(userId: number, scheduleId: number) {
+  const schedule = await requireOwnSchedule(userId, scheduleId);
+  if (schedule.status !== "active" || !schedule.nextRunAt) {
+    throw new ScheduleError(`Cannot skip a ${schedule.status} schedule`);
+  }
+
+  const skipped = await advance(schedule, new Date(schedule.nextRunAt.getTime() + 1));
+  if (!skipped) {
+    throw new ScheduleError("The run is already in progress");
+  }
+  return skipped;
+}
+
+/**
+ * Stop runs until the schedule is resumed
+ */
+export async function pauseScheduledTransfer(userId: number, scheduleId: number) {
+  const schedule = await requireOwnSchedule(userId, scheduleId);
+  if (schedule.status !== "active") {
+    throw new ScheduleError(`Cannot pause a ${schedule.status} schedule`);
+  }
+
+  await updateScheduledTransfer(schedule.id, { status: "paused" });
+  return { ...schedule, status: "paused" as const };
+}
+
+/**
+ * Resume a paused schedule from its next occurrence; runs missed while paused are not made up
+ */
+export async function resumeScheduledTransfer(userId: number, scheduleId: number, now = new Date()) {
+  const schedule = await requireOwnSchedule(userId, scheduleId);
+  if (schedule.status !== "paused") {
+    throw new ScheduleError(`Cannot resume a ${schedule.status} schedule`);
+  }
+
+  const resumed = await advance(schedule, now, { status: "active" });
+  if (!resumed) {
+    throw new ScheduleError("The schedule changed; try again");
+  }
+  return resumed;
+}
+
+/**
+ * Stop a schedule for good
+ */
+export async function cancelScheduledTransfer(userId: number, scheduleId: number) {
+  const schedule = await requireOwnSchedule(userId, scheduleId);
+  if (schedule.status !== "active" && schedule.status !== "paused") {
+    throw new ScheduleError(`Cannot cancel a ${schedule.status} schedule`);
+  }
+
+  await updateScheduledTransfer(schedule.id, { status: "cancelled", nextRunAt: null });
+  return { ...schedule, status: "cancelled" as const, nextRunAt: null };
+}
+
+function notify(userId: number, subject: string, content: string) {
+  return createNotification({ userId, type: "transfer", subject, content });
+}
+
+/**
+ * Job handler: make one scheduled transfer
+ * Short of funds, the run is retried a few times before it fails. Either
+ * way the owner is notified and the schedule moves on to its next run.
+ */
+export async function runScheduledTransfer(
+  payload: { scheduleId: number; occurrence: number },
+  job: { attempts: number; maxAttempts: number },
+  now = new Date()
+) {
+  const schedule = await getScheduledTransferById(payload.scheduleId);
+  if (!schedule || schedule.status !== "active" || schedule.occurrence !== payload.occurrence) {
+    return;
+  }
+
+  const request: TransferRequest = {
+    fromWalletId: schedule.fromWalletId,
+    recipient: schedule.recipient as Recipient,
+    amount: schedule.amount,
+    toCurrencyCode: schedule.toCurrencyCode ?? undefined,
+    description: schedule.description ?? undefined,
+  };
+  const label = `Scheduled transfer #${schedule.id}`;
+  const notBefore = new Date(Math.max(now.getTime(), (schedule.nextRunAt ?? now).getTime() + 1));
+
+  try {
+    // A run retried after a crash finds the stored result instead of sending twice
+    const result = await runIdempotent(
+      schedule.userId,
+      SCHEDULED_TRANSFER_JOB,
+      { scheduleId: schedule.id, occurrence: schedule.occurrence, idempotencyKey: `scheduled-${schedule.id}-${schedule.occurrence}` },
+      async () => {
+        const sent = await sendTransfer(schedule.userId, request, { autoQuote: true });
+        return {
+          success: true,
+          transactionId: sent.transactionId,
+          credited: sent.credited,
+          recipient: recipientDisplayName(sent.plan.recipient),
+        };
+      }
+    );
+
+    await notify(
+      schedule.userId,
+      `${label} sent`,
+      `Sent ${result.credited.amount} ${result.credited.currencyCode} to ${result.recipient}.`
+    );
+    await advance(schedule, notBefore, {
+      lastRunAt: now,
+      lastRunStatus: "completed",
+      lastError: null,
+      lastTransactionId: result.transactionId,
+    });
+  } catch (error) {
+    if (error instanceof InsufficientBalanceError && job.attempts < job.maxAttempts) {
+      const retryAt = new Date(now.getTime() + SCHEDULED_TRANSFER_RETRY_MS);
+      await notify(
+        schedule.userId,
+        `${label} delayed`,
+        `Your wallet did not have enough funds. We will try again at ${retryAt.toISOString()}.`
+      );
+      throw new RetryJobError("Insufficient balance", retryAt);
+    }
+
+    let reason = "Transfer failed";
+    if (error instanceof InsufficientBalanceError) {
+      reason = "Insufficient balance";
+    } else if (
+      error instanceof RecipientError ||
+      error instanceof QuoteError ||
+      error instanceof MoneyError ||
+      error instanceof CurrencyError
+    ) {
+      reason = error.message;
+    } else {
+      console.error(`[Jobs] Scheduled transfer ${schedule.id} failed:`, error);
+    }
+    await notify(schedule.userId, `${label} failed`, `This run was not sent: ${reason}.`);
+    await advance(schedule, notBefore, { lastRunAt: now, lastRunStatus: "failed", lastError: reason });
+  }
+}
+
+/**
+ * Register the scheduled transfer job handler with the runner
+ */
+export function registerScheduledTransferJobs() {
+  registerJobHandler<{ scheduleId: number; occurrence: number }>(SCHEDULED_TRANSFER_JOB, (payload, job) =>
+    runScheduledTransfer(payload, job)
+  );
+}
@@ -0,0 +1,36 @@
+import { createAuditLog, createNotification } from "./db";
+
+/**
+ * Security event recording
+ * Every security-relevant change is written to the audit log and surfaced
+ * to the account owner as a `security` notification.
+ */
+
+export type SecurityEvent = {
+  /** Audit log action name, e.g. "fingerprint_removed" */
+  action: string;
+  subject: string;
+  content: string;
+  details?: Record<string, unknown>;
+  /** User who performed the action; defaults to the account owner */
+  actorId?: number;
+};
+
+export async function recordSecurityEvent(userId: number, event: SecurityEvent): Promise<void> {
+  await createAuditLog({
+    adminId: event.actorId ?? userId,
+    action: event.action,
+    targetUserId: userId,
+    details: event.details,
+  });
+
+  await createNotification({
+    userId,
+    type: "security",
+    subject: event.subject,
+    content: event.content,
+  });
+
+  // In production, send actual email here with high priority
+  console.log(`Email sent to user ${userId}: ${event.subject}`);
+}
@@ -0,0 +1,28 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Request } from "express";
+import { COOKIE_NAME } from "../shared/const";
+import { ENV } from "./_core/env";
+import { sdk } from "./_core/sdk";
+
+function requestWithCookie(token: string) {
+  return { headers: { cookie: `${COOKIE_NAME}=${token}` } } as Request;
+}
+
+describe("session tracking", () => {
+  beforeAll(() => {
+    ENV.cookieSecret ||= "test-session-secret";
+    ENV.appId ||= "test-app";
+  });
+
+  it("embeds the session ID in the token", async () => {
+    const token = await sdk.createSessionToken("sample-user", { name: "Sample User", sessionId: "session-abc" });
+
+    expect(await sdk.verifySession(token)).toMatchObject({ openId: "sample-user", sessionId: "session-abc" });
+  });
+
+  it("rejects tokens that do not carry a session ID", async () => {
+    const token = await sdk.createSessionToken("sample-user", { name: "Sample User" });
+
+    await expect(sdk.authenticateRequest(requestWithCookie(token))).rejects.toThrow("Untracked session");
+  });
+});
@@ -0,0 +1,32 @@
+import { getSessionBySessionId, hasEarlierSessionFromUserAgent } from "./db";
+
+/**
+ * Device signals derived from the sessions table
+ */
+
+/** Sessions first seen within this window can count as a new device */
+const NEW_DEVICE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the session comes from a device the user had not signed in from
+ * before. A device is identified by its user agent; sessions older than a
+ * week are treated as established.
+ */
+export async function isNewDevice(userId: number, sessionId: string | undefined): Promise<boolean> {
+  if (!sessionId) {
+    return false;
+  }
+
+  const session = await getSessionBySessionId(sessionId);
+  if (!session || session.userId !== userId) {
+    return false;
+  }
+  if (Date.now() - session.createdAt.getTime() > NEW_DEVICE_WINDOW_MS) {
+    return false;
+  }
+  if (!session.userAgent) {
+    return true;
+  }
+
+  return !(await hasEarlierSessionFromUserAgent(userId, session.userAgent, session.createdAt));
+}
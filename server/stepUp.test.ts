@@ -0,0 +1,159 @@
+import { randomBytes } from "crypto";
+import { describe, expect, it, vi } from "vitest";
+
+let storedKey: Record<string, unknown> | undefined;
+let activeFingerprints = 0;
+
+vi.mock("./db", async () => {
+  const actual = await vi.importActual<typeof import("./db")>("./db");
+  return {
+    ...actual,
+    claimIdempotencyKey: vi.fn(async () => null),
+    getIdempotencyKey: vi.fn(async () => storedKey),
+    getUserFingerprints: vi.fn(async () => Array.from({ length: activeFingerprints }, (_, id) => ({ id, isActive: true }))),
+    getTotpFactor: vi.fn(async () => undefined),
+    countUnusedRecoveryCodes: vi.fn(async () => 0),
+    replaceRecoveryCodes: vi.fn(async () => undefined),
+    createAuditLog: vi.fn(async () => undefined),
+    createNotification: vi.fn(async () => undefined),
+  };
+});
+
+const { appRouter } = await import("./routers");
+const { hashRequest } = await import("./idempotency");
+import { STEP_UP_FAILED_ERR_MSG, STEP_UP_REQUIRED_ERR_MSG } from "../shared/const";
+import type { TrpcContext } from "./_core/context";
+import { digestOperation, type StepUpOperation } from "./stepUp";
+
+function createAuthContext(): TrpcContext {
+  return {
+    user: {
+      id: 1,
+      openId: "sample-user",
+      email: "sample@example.com",
+      handle: null,
+      name: "Sample User",
+      loginMethod: "manus",
+      role: "user",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+function assertionFor(operation: StepUpOperation) {
+  const challenge = Buffer.concat([randomBytes(32), digestOperation(operation)]).toString("base64url");
+  const clientData = { type: "webauthn.get", challenge, origin: "http://localhost:3000" };
+  return {
+    credentialId: "credential",
+    clientDataJSON: Buffer.from(JSON.stringify(clientData)).toString("base64url"),
+    authenticatorData: "",
+    signature: "",
+  };
+}
+
+const transfer = { fromWalletId: 10, recipient: { type: "handle" as const, handle: "bob" }, amount: "25.00", fee: "0.25" };
+
+describe("biometric step-up", () => {
+  it("binds the digest to every field of the operation", () => {
+    const operation: StepUpOperation = { action: "transfer", wallet: "10", amount: "25.00", destination: "2:20", fee: "0.25" };
+
+    expect(digestOperation(operation)).not.toEqual(digestOperation({ ...operation, amount: "2500" }));
+    expect(digestOperation(operation)).not.toEqual(digestOperation({ ...operation, destination: "3:30" }));
+    expect(digestOperation(operation)).not.toEqual(digestOperation({ ...operation, wallet: "11" }));
+    expect(digestOperation(operation)).not.toEqual(digestOperation({ ...operation, fee: "0.50" }));
+  });
+
+  it("rejects a transfer without a biometric assertion", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+
+    await expect(caller.transactions.transfer(transfer)).rejects.toThrow(STEP_UP_REQUIRED_ERR_MSG);
+  });
+
+  it("rejects an assertion approving a different amount or fee", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const approved = { action: "transfer" as const, wallet: "10", amount: "25.00", destination: "handle:bob", fee: "0.25" };
+
+    for (const operation of [{ ...approved, amount: "1.00" }, { ...approved, fee: "0.10" }]) {
+      const assertion = assertionFor(operation);
+      await expect(caller.transactions.transfer({ ...transfer, stepUp: { assertion } })).rejects.toThrow(
+        STEP_UP_FAILED_ERR_MSG
+      );
+    }
+  });
+
+  it("replays a completed transfer to a retry without a new approval", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const retry = { ...transfer, idempotencyKey: "retry-key-1" };
+    const response = { success: true, message: "Sent 25.00 USD to bob" };
+    storedKey = {
+      procedure: "transactions.transfer",
+      requestHash: hashRequest("transactions.transfer", retry),
+      status: "completed",
+      response,
+    };
+
+    await expect(caller.transactions.transfer(retry)).resolves.toEqual(response);
+    await expect(caller.transactions.transfer({ ...retry, amount: "26.00" })).rejects.toThrow(STEP_UP_REQUIRED_ERR_MSG);
+  });
+
+  it("lets a user without any factor set up recovery codes, and asks everyone else for a step-up", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+
+    activeFingerprints = 0;
+    await expect(caller.auth.regenerateRecoveryCodes({})).resolves.toMatchObject({ success: true });
+
+    activeFingerprints = 1;
+    await expect(caller.auth.regenerateRecoveryCodes({})).rejects.toThrow(STEP_UP_REQUIRED_ERR_MSG);
+    const transferAssertion = assertionFor({ action: "transfer", wallet: "10", amount: "25.00", destination: "handle:bob" });
+    await expect(caller.auth.regenerateRecoveryCodes({ stepUp: { assertion: transferAssertion } })).rejects.toThrow(
+      STEP_UP_FAILED_ERR_MSG
+    );
+  });
+
+  it("asks for a step-up before enrolling an authenticator app once the user has a factor", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    activeFingerprints = 1;
+
+    await expect(caller.auth.beginTotpEnrollment({})).rejects.toThrow(STEP_UP_REQUIRED_ERR_MSG);
+    const codesAssertion = assertionFor({
+      action: "regenerate_recovery_codes",
+      wallet: "account",
+      amount: "0",
+      destination: "recovery_codes",
+    });
+    await expect(caller.auth.beginTotpEnrollment({ stepUp: { assertion: codesAssertion } })).rejects.toThrow(
+      STEP_UP_FAILED_ERR_MSG
+    );
+  });
+
+  it("binds the approval for a new fingerprint to its credential", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const registration = { credentialId: "new-credential", attestationObject: "", clientDataJSON: "" };
+    activeFingerprints = 1;
+
+    await expect(caller.auth.registerFingerprint(registration)).rejects.toThrow(STEP_UP_REQUIRED_ERR_MSG);
+    const otherCredential = assertionFor({
+      action: "register_fingerprint",
+      wallet: "account",
+      amount: "0",
+      destination: "attacker-credential",
+    });
+    await expect(caller.auth.registerFingerprint({ ...registration, stepUp: { assertion: otherCredential } })).rejects.toThrow(
+      STEP_UP_FAILED_ERR_MSG
+    );
+  });
+
+  it("asks for a step-up to resume a scheduled transfer", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const otherSchedule = assertionFor({ action: "resume_schedule", wallet: "schedule:4", amount: "0", destination: "" });
+
+    await expect(caller.scheduledTransfers.resume({ id: 3 })).rejects.toThrow(STEP_UP_REQUIRED_ERR_MSG);
+    await expect(caller.scheduledTransfers.resume({ id: 3, stepUp: { assertion: otherSchedule } })).rejects.toThrow(
+      STEP_UP_FAILED_ERR_MSG
+    );
+  });
+});
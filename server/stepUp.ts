@@ -0,0 +1,150 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import { redeemRecoveryCode } from "./recoveryCodes";
+import { verifyTotpCode } from "./totp";
+import { base64UrlDecode, createAuthenticationOptions, readClientDataChallenge, verifyAuthenticationResponse } from "./webauthn";
+
+/**
+ * Biometric step-up for money-moving operations and account security changes
+ * The challenge for a step-up assertion is a random nonce followed by the
+ * SHA-256 digest of the exact operation (action, wallet, amount, destination
+ * and fee), so an assertion approves one specific operation only.
+ */
+
+export const stepUpOperationSchema = z.object({
+  action: z.enum([
+    "transfer",
+    "withdrawal",
+    "crypto_withdrawal",
+    "refund",
+    "regenerate_recovery_codes",
+    "enroll_totp",
+    "register_fingerprint",
+    "deactivate_fingerprint",
+    "remove_fingerprint",
+    "resume_schedule",
+  ]),
+  /**
+   * Source wallet ID, the currency code for procedures addressed by currency,
+   * `transaction:<id>` for refunds, `schedule:<id>` for resuming a scheduled
+   * transfer, or `account` for account security changes
+   */
+  wallet: z.string(),
+  amount: z.string(),
+  destination: z.string(),
+  /** Fee the user was quoted; absent for operations that charge none */
+  fee: z.string().optional(),
+});
+
+export type StepUpOperation = z.infer<typeof stepUpOperationSchema>;
+
+export const webAuthnAssertionSchema = z.object({
+  credentialId: z.string(),
+  clientDataJSON: z.string(),
+  authenticatorData: z.string(),
+  signature: z.string(),
+});
+
+/**
+ * Proof supplied alongside a money-moving mutation
+ * Any of a fingerprint assertion, an authenticator app code or a one-time
+ * recovery code; policies may require more than one.
+ */
+export const stepUpSchema = z.object({
+  assertion: webAuthnAssertionSchema.optional(),
+  totpCode: z.string().regex(/^\d{6}$/).optional(),
+  recoveryCode: z.string().max(32).optional(),
+});
+
+export type StepUpProof = z.infer<typeof stepUpSchema>;
+
+const NONCE_LENGTH = 32;
+
+export function digestOperation(operation: StepUpOperation): Buffer {
+  const canonical = JSON.stringify([
+    operation.action,
+    operation.wallet,
+    operation.amount,
+    operation.destination,
+    operation.fee ?? "",
+  ]);
+  return createHash("sha256").update(canonical).digest();
+}
+
+/**
+ * Create assertion options whose challenge commits to the operation
+ */
+export async function createStepUpOptions(userId: number, operation: StepUpOperation) {
+  return createAuthenticationOptions("transaction", { userId }, digestOperation(operation));
+}
+
+/**
+ * Check a step-up assertion for the given user and operation
+ */
+export async function verifyStepUpAssertion(
+  userId: number,
+  operation: StepUpOperation,
+  assertion: z.infer<typeof webAuthnAssertionSchema>
+): Promise<boolean> {
+  const challenge = readClientDataChallenge(assertion.clientDataJSON);
+  if (!challenge) {
+    return false;
+  }
+
+  const committed = base64UrlDecode(challenge).subarray(NONCE_LENGTH);
+  const expected = digestOperation(operation);
+  if (committed.byteLength !== expected.byteLength || !timingSafeEqual(committed, expected)) {
+    console.warn("[StepUp] Assertion was issued for a different operation");
+    return false;
+  }
+
+  const result = await verifyAuthenticationResponse(assertion, {
+    purpose: "transaction",
+    userId,
+    requireUserVerification: true,
+  });
+  return result.valid;
+}
+
+export function suppliedFactorCount(proof: StepUpProof | undefined): number {
+  return [proof?.assertion, proof?.totpCode, proof?.recoveryCode].filter(Boolean).length;
+}
+
+/**
+ * Check the supplied step-up factors for the given user and operation
+ * Factors are checked in order (assertion, TOTP, recovery code) until
+ * `minFactors` have passed, so a recovery code is only spent when needed.
+ * Any supplied factor that is checked and fails rejects the whole proof.
+ */
+export async function verifyStepUpProof(
+  userId: number,
+  operation: StepUpOperation,
+  proof: StepUpProof,
+  minFactors = 1
+): Promise<boolean> {
+  const checks: Array<() => Promise<boolean>> = [];
+  if (proof.assertion) {
+    const assertion = proof.assertion;
+    checks.push(() => verifyStepUpAssertion(userId, operation, assertion));
+  }
+  if (proof.totpCode) {
+    const totpCode = proof.totpCode;
+    checks.push(() => verifyTotpCode(userId, totpCode));
+  }
+  if (proof.recoveryCode) {
+    const recoveryCode = proof.recoveryCode;
+    checks.push(() => redeemRecoveryCode(userId, recoveryCode, { operation }));
+  }
+
+  let passed = 0;
+  for (const check of checks) {
+    if (passed >= minFactors) {
+      break;
+    }
+    if (!(await check())) {
+      return false;
+    }
+    passed++;
+  }
+  return passed >= minFactors;
+}
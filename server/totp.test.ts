@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type FakeFactor = {
+  secret: string;
+  confirmedAt: Date | null;
+  lastUsedStep: number;
+  failedAttempts: number;
+  lockedUntil: Date | null;
+};
+
+let factor: FakeFactor | undefined;
+const auditLogs: Array<Record<string, unknown>> = [];
+
+vi.mock("./db", () => ({
+  getTotpFactor: vi.fn(async () => (factor ? { ...factor } : undefined)),
+  markTotpStepUsed: vi.fn(async (_userId: number, step: number) => {
+    if (!factor || factor.lastUsedStep >= step) return false;
+    factor.lastUsedStep = step;
+    factor.failedAttempts = 0;
+    return true;
+  }),
+  recordTotpFailure: vi.fn(async () => (factor ? ++factor.failedAttempts : 0)),
+  lockTotpFactor: vi.fn(async (_userId: number, maxFailures: number, lockedUntil: Date) => {
+    if (!factor || factor.failedAttempts < maxFailures) return false;
+    factor.failedAttempts = 0;
+    factor.lockedUntil = lockedUntil;
+    return true;
+  }),
+  createAuditLog: vi.fn(async (data: Record<string, unknown>) => {
+    auditLogs.push(data);
+  }),
+  createNotification: vi.fn(async () => undefined),
+}));
+
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  decryptSecret,
+  encryptSecret,
+  generateHotp,
+  matchTotpStep,
+  timeStep,
+  TOTP_LOCKOUT_MS,
+  TOTP_MAX_FAILURES,
+  verifyTotpCode,
+} from "./totp";
+
+// RFC 6238 appendix B test key for HMAC-SHA1
+const RFC_SECRET = Buffer.from("12345678901234567890");
+
+describe("TOTP", () => {
+  it("matches the RFC 6238 SHA-1 test vectors", () => {
+    expect(generateHotp(RFC_SECRET, timeStep(59 * 1000), 8)).toBe("94287082");
+    expect(generateHotp(RFC_SECRET, timeStep(1111111109 * 1000), 8)).toBe("07081804");
+    expect(generateHotp(RFC_SECRET, timeStep(20000000000 * 1000), 8)).toBe("65353130");
+  });
+
+  it("accepts codes within the drift window only", () => {
+    const now = 1111111109 * 1000;
+    const step = timeStep(now);
+
+    expect(matchTotpStep(RFC_SECRET, generateHotp(RFC_SECRET, step), now)).toBe(step);
+    expect(matchTotpStep(RFC_SECRET, generateHotp(RFC_SECRET, step - 1), now)).toBe(step - 1);
+    expect(matchTotpStep(RFC_SECRET, generateHotp(RFC_SECRET, step + 1), now)).toBe(step + 1);
+    expect(matchTotpStep(RFC_SECRET, generateHotp(RFC_SECRET, step - 2), now)).toBeNull();
+    expect(matchTotpStep(RFC_SECRET, "12345", now)).toBeNull();
+  });
+
+  it("round-trips base32 secrets and encrypted storage", () => {
+    const encoded = base32Encode(RFC_SECRET);
+    expect(encoded).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(base32Decode(encoded)).toEqual(RFC_SECRET);
+
+    const stored = encryptSecret(encoded);
+    expect(stored).not.toContain(encoded);
+    expect(decryptSecret(stored)).toBe(encoded);
+  });
+
+  it("builds an otpauth URI for authenticator apps", () => {
+    const uri = buildOtpauthUri("GEZDGNBV", "alice@example.com");
+
+    expect(uri).toMatch(/^otpauth:\/\/totp\/Biometric%20Wallet%3Aalice%40example\.com\?/);
+    expect(new URL(uri).searchParams.get("secret")).toBe("GEZDGNBV");
+    expect(new URL(uri).searchParams.get("period")).toBe("30");
+  });
+});
+
+describe("TOTP lockout", () => {
+  const now = new Date(1111111109 * 1000);
+  const code = () => generateHotp(RFC_SECRET, timeStep(now.getTime()));
+  const wrongCode = () => (code() === "000000" ? "111111" : "000000");
+
+  beforeEach(() => {
+    factor = {
+      secret: encryptSecret(base32Encode(RFC_SECRET)),
+      confirmedAt: new Date(0),
+      lastUsedStep: 0,
+      failedAttempts: 0,
+      lockedUntil: null,
+    };
+    auditLogs.length = 0;
+  });
+
+  it("locks the factor after too many wrong codes and records a security event", async () => {
+    for (let attempt = 0; attempt < TOTP_MAX_FAILURES; attempt++) {
+      expect(await verifyTotpCode(7, wrongCode(), now)).toBe(false);
+    }
+
+    expect(factor?.lockedUntil).toEqual(new Date(now.getTime() + TOTP_LOCKOUT_MS));
+    expect(auditLogs).toEqual([expect.objectContaining({ action: "totp_locked", targetUserId: 7 })]);
+
+    // Even the right code is refused until the lock lapses
+    expect(await verifyTotpCode(7, code(), now)).toBe(false);
+    const later = new Date(now.getTime() + TOTP_LOCKOUT_MS + 1);
+    expect(await verifyTotpCode(7, generateHotp(RFC_SECRET, timeStep(later.getTime())), later)).toBe(true);
+  });
+
+  it("starts the count again after an accepted code", async () => {
+    for (let attempt = 0; attempt < TOTP_MAX_FAILURES - 1; attempt++) {
+      await verifyTotpCode(7, wrongCode(), now);
+    }
+    expect(await verifyTotpCode(7, code(), now)).toBe(true);
+    expect(await verifyTotpCode(7, wrongCode(), now)).toBe(false);
+
+    expect(factor).toMatchObject({ failedAttempts: 1, lockedUntil: null });
+    expect(auditLogs).toHaveLength(0);
+  });
+});
@@ -0,0 +1,256 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+import {
+  deleteTotpFactor,
+  getTotpFactor,
+  lockTotpFactor,
+  markTotpStepUsed,
+  recordTotpFailure,
+  upsertTotpFactor,
+} from "./db";
+import { ENV } from "./_core/env";
+import { recordSecurityEvent } from "./securityEvents";
+
+/**
+ * RFC 6238 TOTP second factor
+ * Secrets are 160-bit, stored AES-256-GCM encrypted, and codes are 6-digit
+ * HMAC-SHA1 over 30-second steps, matching common authenticator apps.
+ * Repeated wrong codes lock the factor for a while, so codes cannot be
+ * guessed by retrying step-ups.
+ */
+
+export const TOTP_ISSUER = "Biometric Wallet";
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+/** Accept codes from this many steps before or after the current one */
+const DRIFT_WINDOW = 1;
+/** Wrong codes in a row before the factor is locked */
+export const TOTP_MAX_FAILURES = 5;
+export const TOTP_LOCKOUT_MS = 15 * 60 * 1000;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (let i = 0; i < bytes.length; i++) {
+    value = (value << 8) | bytes[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, "");
+  let bits = 0;
+  let value = 0;
+  const output: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(output);
+}
+
+/**
+ * HOTP value (RFC 4226) for the given counter
+ */
+export function generateHotp(secret: Buffer, counter: number, digits = DIGITS): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac("sha1", secret).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** digits).toString().padStart(digits, "0");
+}
+
+export function timeStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+/**
+ * Find the time step a code was generated for, within the drift window
+ * @returns The matching step, or null when the code is wrong
+ */
+export function matchTotpStep(secret: Buffer, code: string, now = Date.now(), window = DRIFT_WINDOW): number | null {
+  if (!/^\d+$/.test(code) || code.length !== DIGITS) {
+    return null;
+  }
+
+  const current = timeStep(now);
+  const candidate = Buffer.from(code);
+  for (let drift = -window; drift <= window; drift++) {
+    const expected = Buffer.from(generateHotp(secret, current + drift));
+    if (timingSafeEqual(candidate, expected)) {
+      return current + drift;
+    }
+  }
+  return null;
+}
+
+export function buildOtpauthUri(secret: string, accountName: string, issuer = TOTP_ISSUER): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: DIGITS.toString(),
+    period: STEP_SECONDS.toString(),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+function encryptionKey(): Buffer {
+  return createHash("sha256").update(ENV.totpEncryptionKey || ENV.cookieSecret).digest();
+}
+
+/**
+ * Encrypt a base32 secret for storage as `iv.tag.ciphertext` (base64url)
+ */
+export function encryptSecret(secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString("base64url")).join(".");
+}
+
+export function decryptSecret(stored: string): string {
+  const [iv, tag, ciphertext] = stored.split(".").map(part => Buffer.from(part, "base64url"));
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+}
+
+/**
+ * Start (or restart) TOTP enrollment with a fresh secret
+ * The factor stays inactive until confirmed with a valid code. Returns null
+ * when an app is already enabled; it must be disabled with a code first.
+ */
+export async function beginTotpEnrollment(userId: number, accountName: string) {
+  const existing = await getTotpFactor(userId);
+  if (existing?.confirmedAt) {
+    return null;
+  }
+
+  const secret = base32Encode(randomBytes(20));
+  await upsertTotpFactor({ userId, secret: encryptSecret(secret) });
+
+  const otpauthUri = buildOtpauthUri(secret, accountName);
+  const qrCode = await QRCode.toDataURL(otpauthUri);
+  return { secret, otpauthUri, qrCode };
+}
+
+/**
+ * Count a wrong code, locking the factor and telling the user once there
+ * have been too many
+ */
+async function recordFailure(userId: number, now: Date) {
+  const failures = await recordTotpFailure(userId);
+  if (failures < TOTP_MAX_FAILURES) {
+    return;
+  }
+
+  const lockedUntil = new Date(now.getTime() + TOTP_LOCKOUT_MS);
+  if (!(await lockTotpFactor(userId, TOTP_MAX_FAILURES, lockedUntil))) {
+    return;
+  }
+  await recordSecurityEvent(userId, {
+    action: "totp_locked",
+    subject: "Authenticator app locked",
+    content:
+      `${failures} wrong authenticator app codes were entered on your account, so the app cannot be used ` +
+      `until ${lockedUntil.toUTCString()}. If this was not you, sign out your other sessions.`,
+    details: { failures, lockedUntil },
+  });
+}
+
+async function acceptCode(userId: number, code: string, confirm: boolean, now = new Date()): Promise<boolean> {
+  const factor = await getTotpFactor(userId);
+  if (!factor || (!confirm && !factor.confirmedAt)) {
+    return false;
+  }
+  if (factor.lockedUntil && factor.lockedUntil > now) {
+    console.warn("[TOTP] Code rejected while the factor is locked");
+    return false;
+  }
+
+  const step = matchTotpStep(base32Decode(decryptSecret(factor.secret)), code, now.getTime());
+  if (step === null) {
+    await recordFailure(userId, now);
+    return false;
+  }
+
+  // Consuming the step atomically stops the same code being used twice
+  return markTotpStepUsed(userId, step, confirm);
+}
+
+/**
+ * Confirm a pending enrollment with the first code from the authenticator app
+ */
+export async function confirmTotpEnrollment(userId: number, code: string): Promise<boolean> {
+  const factor = await getTotpFactor(userId);
+  if (!factor || factor.confirmedAt) {
+    return false;
+  }
+  if (!(await acceptCode(userId, code, true))) {
+    return false;
+  }
+
+  await recordSecurityEvent(userId, {
+    action: "totp_enabled",
+    subject: "Authenticator app enabled",
+    content: "An authenticator app was set up as a verification method on your account.",
+  });
+  return true;
+}
+
+/**
+ * Verify a code against the user's confirmed TOTP factor
+ * Fails without checking the code while the factor is locked.
+ */
+export async function verifyTotpCode(userId: number, code: string, now = new Date()): Promise<boolean> {
+  return acceptCode(userId, code, false, now);
+}
+
+export async function getTotpStatus(userId: number, now = new Date()) {
+  const factor = await getTotpFactor(userId);
+  return {
+    enabled: Boolean(factor?.confirmedAt),
+    pending: Boolean(factor && !factor.confirmedAt),
+    confirmedAt: factor?.confirmedAt ?? null,
+    lockedUntil: factor?.lockedUntil && factor.lockedUntil > now ? factor.lockedUntil : null,
+  };
+}
+
+/**
+ * Remove the user's TOTP factor after checking a current code
+ */
+export async function disableTotp(userId: number, code: string): Promise<boolean> {
+  if (!(await verifyTotpCode(userId, code))) {
+    return false;
+  }
+
+  await deleteTotpFactor(userId);
+  await recordSecurityEvent(userId, {
+    action: "totp_disabled",
+    subject: "Authenticator app removed",
+    content: "The authenticator app was removed as a verification method from your account.",
+  });
+  return true;
+}
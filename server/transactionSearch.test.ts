@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { decodeCursor, encodeCursor, transactionFiltersSchema } from "./transactionSearch";
+
+describe("transaction search", () => {
+  it("round-trips page cursors and rejects malformed ones", () => {
+    const row = { createdAt: new Date("2025-01-01T12:00:00Z"), id: 42 };
+    expect(decodeCursor(encodeCursor(row))).toEqual(row);
+    expect(decodeCursor("not-a-cursor")).toBeUndefined();
+  });
+
+  it("validates filter ranges", () => {
+    expect(transactionFiltersSchema.parse({ currencyCode: " usd ", minAmount: "1.5" })).toEqual({
+      currencyCode: "USD",
+      minAmount: "1.5",
+    });
+    expect(transactionFiltersSchema.safeParse({ minAmount: "-1" }).success).toBe(false);
+    expect(transactionFiltersSchema.safeParse({ minAmount: "10", maxAmount: "2" }).success).toBe(false);
+    expect(
+      transactionFiltersSchema.safeParse({ from: new Date("2025-02-01"), to: new Date("2025-01-01") }).success
+    ).toBe(false);
+  });
+});
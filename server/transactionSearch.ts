@@ -0,0 +1,55 @@
+import { z } from "zod";
+import type { TransactionCursor } from "./db";
+import { currencyCodeSchema } from "./currencies";
+import { compareDecimals, isDecimal } from "@shared/money";
+
+/**
+ * Transaction search
+ * Filters are applied in SQL by `getUserTransactions`; pages are addressed
+ * by an opaque cursor naming the last row returned.
+ */
+
+const amountBoundSchema = z
+  .string()
+  .trim()
+  .refine(value => isDecimal(value) && compareDecimals(value, "0") >= 0, "Amounts must be non-negative decimals");
+
+export const transactionFiltersSchema = z
+  .object({
+    type: z.enum(["transfer", "deposit", "withdrawal", "exchange", "refund"]).optional(),
+    status: z.enum(["pending", "processing", "completed", "failed", "cancelled"]).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    minAmount: amountBoundSchema.optional(),
+    maxAmount: amountBoundSchema.optional(),
+    walletId: z.number().int().positive().optional(),
+    currencyCode: currencyCodeSchema.optional(),
+    counterpartyUserId: z.number().int().positive().optional(),
+    search: z.string().trim().min(1).max(100).optional(),
+  })
+  .refine(filters => !filters.from || !filters.to || filters.from <= filters.to, {
+    message: "Start date must not be after end date",
+    path: ["from"],
+  })
+  .refine(
+    filters => !filters.minAmount || !filters.maxAmount || compareDecimals(filters.minAmount, filters.maxAmount) <= 0,
+    { message: "Minimum amount must not exceed maximum amount", path: ["minAmount"] }
+  );
+
+/**
+ * Encode the position after `row` as an opaque page cursor
+ */
+export function encodeCursor(row: TransactionCursor) {
+  return Buffer.from(`${row.createdAt.getTime()}:${row.id}`).toString("base64url");
+}
+
+/**
+ * Decode a page cursor; returns undefined if it is malformed
+ */
+export function decodeCursor(cursor: string): TransactionCursor | undefined {
+  const match = /^(\d+):(\d+)$/.exec(Buffer.from(cursor, "base64url").toString());
+  if (!match) {
+    return undefined;
+  }
+  return { createdAt: new Date(Number(match[1])), id: Number(match[2]) };
+}
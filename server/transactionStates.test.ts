@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const now = new Date("2025-01-10T12:00:00Z");
+
+let row: Record<string, unknown> | undefined;
+const events: Array<Record<string, unknown>> = [];
+
+vi.mock("./db", () => ({
+  insertTransaction: vi.fn(async (_tx: object, data: Record<string, unknown>) => {
+    row = { id: 1, ...data };
+    return 1;
+  }),
+  lockTransaction: vi.fn(async () => (row ? { ...row } : undefined)),
+  updateTransactionStatus: vi.fn(async (_tx: object, _id: number, changes: Record<string, unknown>) => {
+    row = { ...row, ...changes };
+  }),
+  insertTransactionEvent: vi.fn(async (_tx: object, data: Record<string, unknown>) => {
+    events.push(data);
+  }),
+}));
+
+const { recordTransaction, transitionTransaction, TransactionStateError } = await import("./transactionStates");
+
+const tx = {} as Parameters<typeof recordTransaction>[0];
+const withdrawal = {
+  fromUserId: 7,
+  fromWalletId: 10,
+  toWalletId: 10,
+  amount: "1.00000000",
+  transactionType: "withdrawal" as const,
+};
+
+describe("transaction state machine", () => {
+  beforeEach(() => {
+    row = undefined;
+    events.length = 0;
+  });
+
+  it("walks a withdrawal from pending to completed and records each step", async () => {
+    await recordTransaction(tx, { ...withdrawal, status: "pending" }, undefined, now);
+    await transitionTransaction(tx, 1, "processing", { actorId: 1, reason: "submitted" }, now);
+    await transitionTransaction(tx, 1, "completed", { actorId: 1, reason: "hold_captured" }, now);
+
+    expect(row).toMatchObject({ status: "completed", completedAt: now, failureReason: null });
+    expect(events).toEqual([
+      expect.objectContaining({ fromStatus: null, toStatus: "pending", actorId: 7, reason: "created" }),
+      expect.objectContaining({ fromStatus: "pending", toStatus: "processing", actorId: 1, reason: "submitted" }),
+      expect.objectContaining({ fromStatus: "processing", toStatus: "completed", actorId: 1, reason: "hold_captured" }),
+    ]);
+  });
+
+  it("fills completedAt for transactions posted at once", async () => {
+    await recordTransaction(tx, { ...withdrawal, status: "completed" }, undefined, now);
+    expect(row).toMatchObject({ status: "completed", completedAt: now });
+    expect(events[0]).toMatchObject({ toStatus: "completed", reason: "posted" });
+  });
+
+  it("rejects illegal transitions and leaves the transaction untouched", async () => {
+    await expect(recordTransaction(tx, { ...withdrawal, status: "processing" })).rejects.toThrow(TransactionStateError);
+
+    await recordTransaction(tx, { ...withdrawal, status: "pending" }, undefined, now);
+    await expect(transitionTransaction(tx, 1, "completed", { reason: "hold_captured" })).rejects.toThrow(
+      "A pending transaction cannot become completed"
+    );
+
+    await transitionTransaction(tx, 1, "cancelled", { actorId: 7, reason: "cancelled_by_user" }, now);
+    expect(row).toMatchObject({ status: "cancelled", failureReason: "cancelled_by_user", completedAt: null });
+    await expect(transitionTransaction(tx, 1, "failed", { reason: "hold_expired" })).rejects.toThrow(TransactionStateError);
+    expect(events).toHaveLength(2);
+  });
+});
@@ -0,0 +1,130 @@
+import { insertTransaction, insertTransactionEvent, lockTransaction, updateTransactionStatus, type DbTransaction } from "./db";
+import type { InsertTransaction, Transaction } from "../drizzle/schema";
+
+/**
+ * Transaction state machine
+ * Transactions start `pending`, or `completed` when they are posted to the
+ * ledger in the same database transaction that creates them. Pending ones
+ * move to `processing` once work on them starts, then end `completed`,
+ * `failed` or `cancelled`; ended transactions never change again. Every
+ * move is checked here and recorded in `transactionEvents`.
+ */
+
+export type TransactionStatus = Transaction["status"];
+
+export const TRANSACTION_TRANSITIONS: Record<TransactionStatus, readonly TransactionStatus[]> = {
+  pending: ["processing", "failed", "cancelled"],
+  processing: ["completed", "failed", "cancelled"],
+  completed: [],
+  failed: [],
+  cancelled: [],
+};
+
+const INITIAL_STATUSES: readonly TransactionStatus[] = ["pending", "completed"];
+
+/** Why a transaction was created or moved */
+export type TransactionEventReason =
+  | "created" // recorded as pending
+  | "posted" // recorded and posted to the ledger at once
+  | "submitted" // work on it started, e.g. a withdrawal was broadcast
+  | "hold_captured"
+  | "hold_released"
+  | "hold_expired"
+  | "cancelled_by_user";
+
+export type TransactionEventContext = {
+  /** User or admin making the change; null for the system */
+  actorId?: number | null;
+  reason: TransactionEventReason;
+  note?: string;
+};
+
+export class TransactionStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransactionStateError";
+  }
+}
+
+export function canTransition(from: TransactionStatus, to: TransactionStatus) {
+  return TRANSACTION_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * @throws TransactionStateError if `from` cannot move to `to`
+ */
+export function assertTransition(from: TransactionStatus, to: TransactionStatus) {
+  if (!canTransition(from, to)) {
+    throw new TransactionStateError(`A ${from} transaction cannot become ${to}`);
+  }
+}
+
+function statusChanges(to: TransactionStatus, reason: TransactionEventReason, now: Date) {
+  return {
+    status: to,
+    completedAt: to === "completed" ? now : null,
+    failureReason: to === "failed" || to === "cancelled" ? reason : null,
+  };
+}
+
+/**
+ * Insert a transaction and the event recording its creation
+ * The creator defaults to the user the money comes from, else the one it goes to.
+ * @throws TransactionStateError if it does not start pending or completed
+ */
+export async function recordTransaction(
+  tx: DbTransaction,
+  data: InsertTransaction,
+  context?: Partial<TransactionEventContext>,
+  now = new Date()
+) {
+  const status = data.status ?? "pending";
+  if (!INITIAL_STATUSES.includes(status)) {
+    throw new TransactionStateError(`Transactions cannot start ${status}`);
+  }
+  const reason = context?.reason ?? (status === "completed" ? "posted" : "created");
+
+  const transactionId = await insertTransaction(tx, { ...data, ...statusChanges(status, reason, now) });
+  await insertTransactionEvent(tx, {
+    transactionId,
+    fromStatus: null,
+    toStatus: status,
+    actorId: context?.actorId !== undefined ? context.actorId : data.fromUserId ?? data.toUserId ?? null,
+    reason,
+    note: context?.note ?? null,
+    createdAt: now,
+  });
+  return transactionId;
+}
+
+/**
+ * Move a transaction to a new status and record the event
+ * The row is locked first, so concurrent moves are checked one after the other.
+ * @throws TransactionStateError if the transaction does not exist or the move is not allowed
+ */
+export async function transitionTransaction(
+  tx: DbTransaction,
+  transactionId: number,
+  to: TransactionStatus,
+  context: TransactionEventContext,
+  now = new Date()
+) {
+  const transaction = await lockTransaction(tx, transactionId);
+  if (!transaction) {
+    throw new TransactionStateError(`Transaction ${transactionId} not found`);
+  }
+  assertTransition(transaction.status, to);
+
+  const changes = statusChanges(to, context.reason, now);
+  await updateTransactionStatus(tx, transaction.id, changes);
+  await insertTransactionEvent(tx, {
+    transactionId: transaction.id,
+    fromStatus: transaction.status,
+    toStatus: to,
+    actorId: context.actorId ?? null,
+    reason: context.reason,
+    note: context.note ?? null,
+    createdAt: now,
+  });
+  return { ...transaction, ...changes };
+}
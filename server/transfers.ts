@@ -0,0 +1,96 @@
+import type { InsertTransaction } from "../drizzle/schema";
+import { feeLines, postTransaction, transferLines, type AfterPost } from "./ledger";
+import { postQuotedConversion, QuoteError, quoteConversion } from "./quotes";
+import { openRecipientWallet, planTransfer, type Recipient } from "./recipients";
+import { assertQuotedFee, quoteFee } from "./fees";
+
+/**
+ * Peer-to-peer transfers
+ * Shared by the `transactions.transfer` mutation and scheduled transfers.
+ */
+
+export type TransferRequest = {
+  fromWalletId: number;
+  recipient: Recipient;
+  amount: string;
+  toCurrencyCode?: string;
+  quoteId?: number;
+  /** Fee the sender was shown for a same-currency transfer; conversions pay their quote's fee */
+  fee?: string;
+  description?: string;
+};
+
+/**
+ * Send money from one of the sender's wallets to another user
+ * Cross-currency transfers post at the price of `quoteId`, whose fee covers
+ * the conversion; with `autoQuote` a fresh quote is taken instead, for
+ * transfers the sender approved ahead of time. Same-currency transfers pay
+ * the sender's transfer fee on top of the amount, and fail if that is not
+ * `request.fee` when one is given. `afterPost` runs in the database
+ * transaction that posts it.
+ * @throws RecipientError, QuoteError, FeeError, CurrencyError, MoneyError or
+ *   InsufficientBalanceError if the transfer cannot be made
+ */
+export async function sendTransfer(
+  senderId: number,
+  request: TransferRequest,
+  options: { autoQuote?: boolean; afterPost?: AfterPost; paymentRequestId?: number } = {}
+) {
+  const plan = await planTransfer(senderId, request);
+  const fromCurrency = plan.fromWallet.currencyCode;
+  const converting = plan.toCurrencyCode !== fromCurrency;
+
+  let quoteId = request.quoteId;
+  if (!converting && quoteId) {
+    throw new QuoteError("Quotes only apply to cross-currency transfers");
+  }
+  if (converting && !quoteId) {
+    if (!options.autoQuote) {
+      throw new QuoteError("Cross-currency transfers need a quote; preview the transfer first");
+    }
+    quoteId = (await quoteConversion(senderId, { fromCurrency, toCurrency: plan.toCurrencyCode, amount: plan.amount })).id;
+  }
+
+  const fee = quoteId ? "0" : (await quoteFee(senderId, "transfer", plan.fromCurrency, plan.amount)).fee;
+  if (!quoteId && request.fee !== undefined) {
+    assertQuotedFee(request.fee, fee);
+  }
+
+  const toWallet = await openRecipientWallet(plan);
+  const transactionData: InsertTransaction = {
+    fromUserId: senderId,
+    toUserId: plan.recipient.id,
+    fromWalletId: plan.fromWallet.id,
+    toWalletId: toWallet.id,
+    amount: plan.amount,
+    fee,
+    transactionType: "transfer",
+    status: "completed",
+    description: request.description,
+    paymentRequestId: options.paymentRequestId,
+  };
+
+  // Record the transaction and move the balances through the ledger;
+  // the balance check happens under the wallet row locks
+  if (quoteId) {
+    const { transactionId, quote } = await postQuotedConversion(
+      quoteId,
+      senderId,
+      transactionData,
+      { walletId: plan.fromWallet.id, currencyCode: fromCurrency },
+      { walletId: toWallet.id, currencyCode: plan.toCurrencyCode },
+      options.afterPost
+    );
+    return { transactionId, plan, credited: { amount: quote.convertedAmount, currencyCode: quote.toCurrency } };
+  }
+
+  const transactionId = await postTransaction(
+    transactionData,
+    [
+      ...transferLines(plan.fromWallet.id, toWallet.id, fromCurrency, plan.amount),
+      ...feeLines(plan.fromWallet.id, plan.fromCurrency, fee),
+    ],
+    options.afterPost
+  );
+  return { transactionId, plan, credited: { amount: plan.amount, currencyCode: fromCurrency } };
+}
@@ -0,0 +1,211 @@
+import { createHash, generateKeyPairSync, sign, type KeyObject } from "crypto";
+import { describe, expect, it } from "vitest";
+import { base64UrlEncode, verifyAssertion, verifyRegistration, WebAuthnVerificationError } from "./webauthn";
+
+const RP_ID = "localhost";
+const ORIGIN = "http://localhost:3000";
+
+// Just enough of a CBOR encoder to build authenticator fixtures
+function cborHead(major: number, length: number): Buffer {
+  if (length < 24) return Buffer.from([(major << 5) | length]);
+  if (length < 0x100) return Buffer.from([(major << 5) | 24, length]);
+  const head = Buffer.alloc(3);
+  head[0] = (major << 5) | 25;
+  head.writeUInt16BE(length, 1);
+  return head;
+}
+
+function cbor(value: unknown): Buffer {
+  if (typeof value === "number") {
+    return value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value);
+  }
+  if (typeof value === "string") {
+    const bytes = Buffer.from(value, "utf8");
+    return Buffer.concat([cborHead(3, bytes.length), bytes]);
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.concat([cborHead(2, value.length), value]);
+  }
+  if (value instanceof Map) {
+    const parts = [cborHead(5, value.size)];
+    value.forEach((v, k) => parts.push(cbor(k), cbor(v)));
+    return Buffer.concat(parts);
+  }
+  throw new Error(`Cannot encode ${String(value)}`);
+}
+
+function createCredential() {
+  const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+  const jwk = publicKey.export({ format: "jwk" });
+  const coseKey = cbor(
+    new Map<number, unknown>([
+      [1, 2],
+      [3, -7],
+      [-1, 1],
+      [-2, Buffer.from(jwk.x!, "base64url")],
+      [-3, Buffer.from(jwk.y!, "base64url")],
+    ])
+  );
+  return { privateKey, coseKey, credentialId: Buffer.from("test-credential-id") };
+}
+
+function buildRegistration(options: {
+  challenge: string;
+  fmt: "none" | "packed";
+  origin?: string;
+  rpId?: string;
+  signingKey?: KeyObject;
+}) {
+  const credential = createCredential();
+  const clientDataJSON = Buffer.from(
+    JSON.stringify({ type: "webauthn.create", challenge: options.challenge, origin: options.origin ?? ORIGIN })
+  );
+
+  const header = Buffer.alloc(37);
+  createHash("sha256").update(options.rpId ?? RP_ID).digest().copy(header, 0);
+  header[32] = 0x45; // UP | UV | AT
+  const credentialIdLength = Buffer.alloc(2);
+  credentialIdLength.writeUInt16BE(credential.credentialId.length);
+  const authData = Buffer.concat([
+    header,
+    Buffer.alloc(16),
+    credentialIdLength,
+    credential.credentialId,
+    credential.coseKey,
+  ]);
+
+  const attStmt = new Map<string, unknown>();
+  if (options.fmt === "packed") {
+    const clientDataHash = createHash("sha256").update(clientDataJSON).digest();
+    const sig = sign("sha256", Buffer.concat([authData, clientDataHash]), {
+      key: options.signingKey ?? credential.privateKey,
+      dsaEncoding: "der",
+    });
+    attStmt.set("alg", -7).set("sig", sig);
+  }
+
+  const attestationObject = cbor(
+    new Map<string, unknown>([
+      ["fmt", options.fmt],
+      ["attStmt", attStmt],
+      ["authData", authData],
+    ])
+  );
+
+  return {
+    credential,
+    attestationObject: base64UrlEncode(attestationObject),
+    clientDataJSON: base64UrlEncode(clientDataJSON),
+  };
+}
+
+function buildAssertion(options: { challenge: string; privateKey: KeyObject; counter: number }) {
+  const clientDataJSON = Buffer.from(
+    JSON.stringify({ type: "webauthn.get", challenge: options.challenge, origin: ORIGIN })
+  );
+  const authData = Buffer.alloc(37);
+  createHash("sha256").update(RP_ID).digest().copy(authData, 0);
+  authData[32] = 0x05; // UP | UV
+  authData.writeUInt32BE(options.counter, 33);
+
+  const clientDataHash = createHash("sha256").update(clientDataJSON).digest();
+  const signature = sign("sha256", Buffer.concat([authData, clientDataHash]), {
+    key: options.privateKey,
+    dsaEncoding: "der",
+  });
+
+  return {
+    clientDataJSON: base64UrlEncode(clientDataJSON),
+    authenticatorData: base64UrlEncode(authData),
+    signature: base64UrlEncode(signature),
+  };
+}
+
+const challenge = base64UrlEncode(Buffer.alloc(32, 7));
+
+describe("verifyRegistration", () => {
+  it("accepts a 'none' attestation and returns the credential", () => {
+    const { credential, ...response } = buildRegistration({ challenge, fmt: "none" });
+
+    const result = verifyRegistration({ ...response, expectedChallenge: challenge });
+
+    expect(result.credentialId).toBe(base64UrlEncode(credential.credentialId));
+    expect(result.publicKey).toBe(base64UrlEncode(credential.coseKey));
+    expect(result.attestationFormat).toBe("none");
+    expect(result.attestationType).toBe("none");
+    expect(result.aaguid).toBe("00000000-0000-0000-0000-000000000000");
+    expect(result.userVerified).toBe(true);
+  });
+
+  it("accepts a packed self attestation signed by the credential key", () => {
+    const { credential, ...response } = buildRegistration({ challenge, fmt: "packed" });
+
+    const result = verifyRegistration({ ...response, expectedChallenge: challenge });
+
+    expect(result.attestationFormat).toBe("packed");
+    expect(result.attestationType).toBe("self");
+  });
+
+  it("rejects a packed self attestation signed by another key", () => {
+    const { privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+    const { credential, ...response } = buildRegistration({ challenge, fmt: "packed", signingKey: privateKey });
+
+    expect(() => verifyRegistration({ ...response, expectedChallenge: challenge })).toThrow(
+      "Self attestation signature is invalid"
+    );
+  });
+
+  it("rejects a response for a different challenge", () => {
+    const { credential, ...response } = buildRegistration({ challenge, fmt: "none" });
+
+    expect(() =>
+      verifyRegistration({ ...response, expectedChallenge: base64UrlEncode(Buffer.alloc(32, 8)) })
+    ).toThrow(WebAuthnVerificationError);
+  });
+
+  it("rejects a response from another origin or RP ID", () => {
+    const wrongOrigin = buildRegistration({ challenge, fmt: "none", origin: "https://evil.example" });
+    const wrongRpId = buildRegistration({ challenge, fmt: "none", rpId: "evil.example" });
+
+    expect(() => verifyRegistration({ ...wrongOrigin, expectedChallenge: challenge })).toThrow("Unexpected origin");
+    expect(() => verifyRegistration({ ...wrongRpId, expectedChallenge: challenge })).toThrow("RP ID hash mismatch");
+  });
+});
+
+describe("verifyAssertion", () => {
+  const credential = createCredential();
+  const publicKey = base64UrlEncode(credential.coseKey);
+
+  it("accepts a valid signature with an increasing counter", () => {
+    const response = buildAssertion({ challenge, privateKey: credential.privateKey, counter: 6 });
+
+    const result = verifyAssertion({ ...response, publicKey, storedCounter: 5, expectedChallenge: challenge });
+
+    expect(result).toEqual({ counter: 6, userVerified: true, counterRegressed: false });
+  });
+
+  it("rejects a signature from a different key", () => {
+    const { privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+    const response = buildAssertion({ challenge, privateKey, counter: 6 });
+
+    expect(() =>
+      verifyAssertion({ ...response, publicKey, storedCounter: 5, expectedChallenge: challenge })
+    ).toThrow("Assertion signature is invalid");
+  });
+
+  it("reports a counter that did not increase", () => {
+    const response = buildAssertion({ challenge, privateKey: credential.privateKey, counter: 5 });
+
+    const result = verifyAssertion({ ...response, publicKey, storedCounter: 5, expectedChallenge: challenge });
+
+    expect(result.counterRegressed).toBe(true);
+  });
+
+  it("allows authenticators that never increment the counter", () => {
+    const response = buildAssertion({ challenge, privateKey: credential.privateKey, counter: 0 });
+
+    const result = verifyAssertion({ ...response, publicKey, storedCounter: 0, expectedChallenge: challenge });
+
+    expect(result.counterRegressed).toBe(false);
+  });
+});
@@ -1,12 +1,38 @@
-import { randomBytes } from "crypto";
-import { createFingerprint, getFingerprintByCredentialId, getUserFingerprints } from "./db";
+import { createHash, createPublicKey, timingSafeEqual, verify, X509Certificate, type KeyObject } from "crypto";
+import { createFingerprint, getFingerprintByCredentialId, getUserFingerprints, updateFingerprintUsage } from "./db";
 import type { InsertFingerprint } from "../drizzle/schema";
+import { ENV } from "./_core/env";
+import { decodeCbor, decodeCborFirst, type CborValue } from "./cbor";
+import { recordSecurityEvent } from "./securityEvents";
+import { checkCredentialPolicy, getAuthenticatorPolicy } from "./authenticatorPolicy";
+import { consumeChallenge, issueChallenge, type ChallengeBinding, type ChallengePurpose } from "./challengeStore";
 
 /**
  * WebAuthn utility functions for fingerprint authentication
  * Uses the Web Authentication API standard (FIDO2)
  */
 
+// COSE algorithm identifiers we advertise in pubKeyCredParams
+const COSE_ALG_ES256 = -7;
+const COSE_ALG_RS256 = -257;
+
+// Authenticator data flag bits (WebAuthn §6.1)
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_ELIGIBLE = 0x08;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+const FLAG_EXTENSION_DATA = 0x80;
+
+export type AttestationFormat = "none" | "packed" | "fido-u2f";
+
+export class WebAuthnVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebAuthnVerificationError";
+  }
+}
+
 // Base64 URL encoding/decoding utilities
 export function base64UrlEncode(buffer: ArrayBuffer | Uint8Array): string {
   const bytes = new Uint8Array(buffer);
@@ -27,26 +53,34 @@ export function base64UrlDecode(str: string): Uint8Array {
   return bytes;
 }
 
-/**
- * Generate a challenge for WebAuthn registration or authentication
- * Challenge should be a random 32-byte value
- */
-export function generateChallenge(): Uint8Array {
-  return randomBytes(32);
+function sha256(data: Uint8Array | string): Buffer {
+  return createHash("sha256").update(data).digest();
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.byteLength === b.byteLength && timingSafeEqual(a, b);
+}
+
+function getExpectedOrigins(): string[] {
+  return ENV.webAuthnOrigin
+    .split(",")
+    .map(origin => origin.trim())
+    .filter(Boolean);
 }
 
 /**
  * Create registration options for WebAuthn
  * These options are sent to the client for credential creation
  */
-export function createRegistrationOptions(userId: number, userName: string, displayName: string) {
-  const challenge = generateChallenge();
+export async function createRegistrationOptions(userId: number, userName: string, displayName: string) {
+  const policy = await getAuthenticatorPolicy();
+  const challenge = await issueChallenge("register", { userId });
 
   return {
-    challenge: base64UrlEncode(challenge),
+    challenge,
     rp: {
       name: "Biometric Wallet",
-      id: process.env.WEBAUTHN_RP_ID || "localhost",
+      id: ENV.webAuthnRpId,
     },
     user: {
       id: base64UrlEncode(new TextEncoder().encode(userId.toString())),
@@ -54,52 +88,482 @@ export function createRegistrationOptions(userId: number, userName: string, disp
       displayName: displayName,
     },
     pubKeyCredParams: [
-      { type: "public-key", alg: -7 }, // ES256
-      { type: "public-key", alg: -257 }, // RS256
+      { type: "public-key", alg: COSE_ALG_ES256 },
+      { type: "public-key", alg: COSE_ALG_RS256 },
     ],
     timeout: 60000,
     attestation: "direct",
     authenticatorSelection: {
-      authenticatorAttachment: "platform",
-      residentKey: "preferred",
-      userVerification: "preferred",
+      ...(policy.authenticatorAttachment === "any" ? {} : { authenticatorAttachment: policy.authenticatorAttachment }),
+      // Discoverable credentials let users sign in without entering a username
+      residentKey: "required",
+      requireResidentKey: true,
+      userVerification: policy.userVerification,
     },
   };
 }
 
 /**
  * Create authentication options for WebAuthn
- * These options are sent to the client for credential assertion
+ * These options are sent to the client for credential assertion.
+ * When bound to a user, only that user's active credentials are allowed.
  */
-export function createAuthenticationOptions(userId: number) {
-  const challenge = generateChallenge();
+export async function createAuthenticationOptions(
+  purpose: ChallengePurpose,
+  binding: ChallengeBinding,
+  context?: Uint8Array
+) {
+  const challenge = await issueChallenge(purpose, binding, { context });
+
+  const allowCredentials =
+    binding.userId != null
+      ? (await getUserFingerprints(binding.userId))
+          .filter(fp => fp.isActive)
+          .map(fp => ({
+            type: "public-key",
+            id: fp.credentialId,
+            transports: Array.isArray(fp.transports) ? (fp.transports as string[]) : undefined,
+          }))
+      : undefined;
 
   return {
-    challenge: base64UrlEncode(challenge),
+    challenge,
     timeout: 60000,
-    userVerification: "preferred",
-    rpId: process.env.WEBAUTHN_RP_ID || "localhost",
+    // A fingerprint only proves who is signing in or approving if the authenticator verified the user
+    userVerification: purpose === "register" ? "preferred" : "required",
+    rpId: ENV.webAuthnRpId,
+    allowCredentials,
+  };
+}
+
+/**
+ * Read the challenge echoed back in clientDataJSON, without trusting it yet
+ */
+export function readClientDataChallenge(clientDataJSON: string): string | undefined {
+  try {
+    const clientData = JSON.parse(new TextDecoder().decode(base64UrlDecode(clientDataJSON)));
+    return typeof clientData.challenge === "string" ? clientData.challenge : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export type ParsedAuthenticatorData = {
+  rpIdHash: Uint8Array;
+  userPresent: boolean;
+  userVerified: boolean;
+  backupEligible: boolean;
+  backedUp: boolean;
+  counter: number;
+  attestedCredential?: {
+    aaguid: string;
+    credentialId: Uint8Array;
+    publicKey: Uint8Array;
+  };
+};
+
+function formatAaguid(bytes: Uint8Array): string {
+  const hex = Buffer.from(bytes).toString("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Parse the binary authenticator data structure (WebAuthn §6.1)
+ */
+export function parseAuthenticatorData(authData: Uint8Array): ParsedAuthenticatorData {
+  if (authData.byteLength < 37) {
+    throw new WebAuthnVerificationError("Authenticator data is too short");
+  }
+
+  const view = new DataView(authData.buffer, authData.byteOffset, authData.byteLength);
+  const flags = authData[32];
+  const parsed: ParsedAuthenticatorData = {
+    rpIdHash: authData.slice(0, 32),
+    userPresent: (flags & FLAG_USER_PRESENT) !== 0,
+    userVerified: (flags & FLAG_USER_VERIFIED) !== 0,
+    backupEligible: (flags & FLAG_BACKUP_ELIGIBLE) !== 0,
+    backedUp: (flags & FLAG_BACKED_UP) !== 0,
+    counter: view.getUint32(33),
+  };
+
+  let offset = 37;
+  if (flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    if (authData.byteLength < offset + 18) {
+      throw new WebAuthnVerificationError("Attested credential data is truncated");
+    }
+    const aaguid = authData.slice(offset, offset + 16);
+    const credentialIdLength = view.getUint16(offset + 16);
+    offset += 18;
+    if (authData.byteLength < offset + credentialIdLength) {
+      throw new WebAuthnVerificationError("Credential ID is truncated");
+    }
+    const credentialId = authData.slice(offset, offset + credentialIdLength);
+    offset += credentialIdLength;
+    const { length } = decodeCborFirst(authData.subarray(offset));
+    const publicKey = authData.slice(offset, offset + length);
+    offset += length;
+    parsed.attestedCredential = { aaguid: formatAaguid(aaguid), credentialId, publicKey };
+  }
+
+  if (flags & FLAG_EXTENSION_DATA) {
+    offset += decodeCborFirst(authData.subarray(offset)).length;
+  }
+
+  if (offset !== authData.byteLength) {
+    throw new WebAuthnVerificationError("Unexpected trailing bytes in authenticator data");
+  }
+
+  return parsed;
+}
+
+function getBytes(map: Map<CborValue, CborValue>, key: number): Uint8Array {
+  const value = map.get(key);
+  if (!(value instanceof Uint8Array)) {
+    throw new WebAuthnVerificationError(`COSE key parameter ${key} is missing`);
+  }
+  return value;
+}
+
+/**
+ * Convert a COSE_Key (RFC 9053) into a Node.js public key
+ * Only the algorithms advertised in pubKeyCredParams are accepted.
+ */
+export function coseToPublicKey(coseKey: Uint8Array): { alg: number; key: KeyObject } {
+  const decoded = decodeCbor(coseKey);
+  if (!(decoded instanceof Map)) {
+    throw new WebAuthnVerificationError("COSE key must be a map");
+  }
+
+  const kty = decoded.get(1);
+  const alg = decoded.get(3);
+
+  if (kty === 2 && alg === COSE_ALG_ES256) {
+    if (decoded.get(-1) !== 1) {
+      throw new WebAuthnVerificationError("ES256 keys must use the P-256 curve");
+    }
+    const key = createPublicKey({
+      key: {
+        kty: "EC",
+        crv: "P-256",
+        x: base64UrlEncode(getBytes(decoded, -2)),
+        y: base64UrlEncode(getBytes(decoded, -3)),
+      },
+      format: "jwk",
+    });
+    return { alg, key };
+  }
+
+  if (kty === 3 && alg === COSE_ALG_RS256) {
+    const key = createPublicKey({
+      key: {
+        kty: "RSA",
+        n: base64UrlEncode(getBytes(decoded, -1)),
+        e: base64UrlEncode(getBytes(decoded, -2)),
+      },
+      format: "jwk",
+    });
+    return { alg, key };
+  }
+
+  throw new WebAuthnVerificationError(`Unsupported COSE key type ${String(kty)} / algorithm ${String(alg)}`);
+}
+
+/**
+ * Verify a WebAuthn signature. ES256 signatures are DER-encoded,
+ * RS256 signatures use PKCS#1 v1.5 padding.
+ */
+export function verifySignature(alg: number, key: KeyObject, data: Uint8Array, signature: Uint8Array): boolean {
+  if (alg === COSE_ALG_ES256) {
+    return verify("sha256", data, { key, dsaEncoding: "der" }, signature);
+  }
+  if (alg === COSE_ALG_RS256) {
+    return verify("sha256", data, key, signature);
+  }
+  throw new WebAuthnVerificationError(`Unsupported signature algorithm ${alg}`);
+}
+
+type CollectedClientData = {
+  type: string;
+  challenge: string;
+  origin: string;
+  crossOrigin?: boolean;
+};
+
+/**
+ * Validate clientDataJSON against the ceremony type, challenge and origin
+ */
+export function verifyClientData(
+  clientDataJSON: Uint8Array,
+  expectedType: "webauthn.create" | "webauthn.get",
+  expectedChallenge: string
+): CollectedClientData {
+  let clientData: CollectedClientData;
+  try {
+    clientData = JSON.parse(new TextDecoder().decode(clientDataJSON));
+  } catch {
+    throw new WebAuthnVerificationError("clientDataJSON is not valid JSON");
+  }
+
+  if (clientData.type !== expectedType) {
+    throw new WebAuthnVerificationError(`Unexpected client data type: ${clientData.type}`);
+  }
+  if (
+    typeof clientData.challenge !== "string" ||
+    !bytesEqual(base64UrlDecode(clientData.challenge), base64UrlDecode(expectedChallenge))
+  ) {
+    throw new WebAuthnVerificationError("Challenge mismatch");
+  }
+  if (!getExpectedOrigins().includes(clientData.origin)) {
+    throw new WebAuthnVerificationError(`Unexpected origin: ${clientData.origin}`);
+  }
+  if (clientData.crossOrigin) {
+    throw new WebAuthnVerificationError("Cross-origin ceremonies are not allowed");
+  }
+
+  return clientData;
+}
+
+/**
+ * Check the RP ID hash and user presence flag shared by both ceremonies
+ */
+export function verifyAuthenticatorFlags(authData: ParsedAuthenticatorData, requireUserVerification: boolean) {
+  if (!bytesEqual(authData.rpIdHash, sha256(ENV.webAuthnRpId))) {
+    throw new WebAuthnVerificationError("RP ID hash mismatch");
+  }
+  if (!authData.userPresent) {
+    throw new WebAuthnVerificationError("User presence flag not set");
+  }
+  if (requireUserVerification && !authData.userVerified) {
+    throw new WebAuthnVerificationError("User verification required");
+  }
+}
+
+function parseCertificateChain(attStmt: Map<CborValue, CborValue>): X509Certificate[] {
+  const x5c = attStmt.get("x5c");
+  if (!Array.isArray(x5c) || x5c.length === 0 || !x5c.every(cert => cert instanceof Uint8Array)) {
+    throw new WebAuthnVerificationError("Attestation certificate chain is malformed");
+  }
+  const chain = (x5c as Uint8Array[]).map(der => new X509Certificate(der));
+
+  // Each certificate must be signed by the next one in the chain
+  const now = new Date();
+  chain.forEach((cert, index) => {
+    if (new Date(cert.validFrom) > now || new Date(cert.validTo) < now) {
+      throw new WebAuthnVerificationError("Attestation certificate is not currently valid");
+    }
+    const issuer = chain[index + 1];
+    if (issuer && (!cert.checkIssued(issuer) || !cert.verify(issuer.publicKey))) {
+      throw new WebAuthnVerificationError("Attestation certificate chain is broken");
+    }
+  });
+
+  return chain;
+}
+
+function verifyPackedAttestation(
+  attStmt: Map<CborValue, CborValue>,
+  authDataBytes: Uint8Array,
+  clientDataHash: Uint8Array,
+  credential: { alg: number; key: KeyObject }
+) {
+  const alg = attStmt.get("alg");
+  const sig = attStmt.get("sig");
+  if (typeof alg !== "number" || !(sig instanceof Uint8Array)) {
+    throw new WebAuthnVerificationError("Packed attestation statement is malformed");
+  }
+
+  const signedData = Buffer.concat([authDataBytes, clientDataHash]);
+
+  if (attStmt.has("x5c")) {
+    const [leaf] = parseCertificateChain(attStmt);
+    if (leaf.ca) {
+      throw new WebAuthnVerificationError("Attestation certificate must not be a CA");
+    }
+    if (!leaf.subject.split("\n").includes("OU=Authenticator Attestation")) {
+      throw new WebAuthnVerificationError("Attestation certificate subject is invalid");
+    }
+    if (!verifySignature(alg, leaf.publicKey, signedData, sig)) {
+      throw new WebAuthnVerificationError("Packed attestation signature is invalid");
+    }
+    return;
+  }
+
+  // Self attestation: signed with the credential private key itself
+  if (alg !== credential.alg) {
+    throw new WebAuthnVerificationError("Self attestation algorithm does not match credential");
+  }
+  if (!verifySignature(alg, credential.key, signedData, sig)) {
+    throw new WebAuthnVerificationError("Self attestation signature is invalid");
+  }
+}
+
+function verifyFidoU2FAttestation(
+  attStmt: Map<CborValue, CborValue>,
+  authData: ParsedAuthenticatorData,
+  clientDataHash: Uint8Array
+) {
+  const sig = attStmt.get("sig");
+  if (!(sig instanceof Uint8Array)) {
+    throw new WebAuthnVerificationError("FIDO U2F attestation statement is malformed");
+  }
+
+  const chain = parseCertificateChain(attStmt);
+  if (chain.length !== 1) {
+    throw new WebAuthnVerificationError("FIDO U2F attestation must contain exactly one certificate");
+  }
+  const certificateKey = chain[0].publicKey;
+  if (certificateKey.asymmetricKeyDetails?.namedCurve !== "prime256v1") {
+    throw new WebAuthnVerificationError("FIDO U2F attestation certificate must use P-256");
+  }
+
+  const attested = authData.attestedCredential!;
+  const coseKey = decodeCbor(attested.publicKey) as Map<CborValue, CborValue>;
+  if (coseKey.get(3) !== COSE_ALG_ES256) {
+    throw new WebAuthnVerificationError("FIDO U2F credentials must be ES256");
+  }
+
+  const verificationData = Buffer.concat([
+    Buffer.from([0x00]),
+    authData.rpIdHash,
+    clientDataHash,
+    attested.credentialId,
+    Buffer.from([0x04]),
+    getBytes(coseKey, -2),
+    getBytes(coseKey, -3),
+  ]);
+
+  if (!verifySignature(COSE_ALG_ES256, certificateKey, verificationData, sig)) {
+    throw new WebAuthnVerificationError("FIDO U2F attestation signature is invalid");
+  }
+}
+
+export type VerifiedRegistration = {
+  credentialId: string;
+  publicKey: string;
+  counter: number;
+  aaguid: string;
+  attestationFormat: AttestationFormat;
+  /** "basic" when a certificate chain vouches for the authenticator model */
+  attestationType: "none" | "self" | "basic";
+  userVerified: boolean;
+};
+
+/**
+ * Verify an attestation object and client data for a registration ceremony
+ * (WebAuthn §7.1). Throws WebAuthnVerificationError on any failed check.
+ */
+export function verifyRegistration(params: {
+  attestationObject: string;
+  clientDataJSON: string;
+  expectedChallenge: string;
+  requireUserVerification?: boolean;
+}): VerifiedRegistration {
+  const clientDataBytes = base64UrlDecode(params.clientDataJSON);
+  verifyClientData(clientDataBytes, "webauthn.create", params.expectedChallenge);
+  const clientDataHash = sha256(clientDataBytes);
+
+  const attestation = decodeCbor(base64UrlDecode(params.attestationObject));
+  if (!(attestation instanceof Map)) {
+    throw new WebAuthnVerificationError("Attestation object must be a map");
+  }
+  const fmt = attestation.get("fmt");
+  const attStmt = attestation.get("attStmt");
+  const authDataBytes = attestation.get("authData");
+  if (typeof fmt !== "string" || !(attStmt instanceof Map) || !(authDataBytes instanceof Uint8Array)) {
+    throw new WebAuthnVerificationError("Attestation object is malformed");
+  }
+
+  const authData = parseAuthenticatorData(authDataBytes);
+  verifyAuthenticatorFlags(authData, params.requireUserVerification ?? false);
+  if (!authData.attestedCredential) {
+    throw new WebAuthnVerificationError("Attested credential data is missing");
+  }
+
+  const credential = coseToPublicKey(authData.attestedCredential.publicKey);
+  let attestationType: VerifiedRegistration["attestationType"] = "basic";
+
+  switch (fmt) {
+    case "none":
+      if (attStmt.size !== 0) {
+        throw new WebAuthnVerificationError("'none' attestation statement must be empty");
+      }
+      attestationType = "none";
+      break;
+    case "packed":
+      verifyPackedAttestation(attStmt, authDataBytes, clientDataHash, credential);
+      attestationType = attStmt.has("x5c") ? "basic" : "self";
+      break;
+    case "fido-u2f":
+      verifyFidoU2FAttestation(attStmt, authData, clientDataHash);
+      break;
+    default:
+      throw new WebAuthnVerificationError(`Unsupported attestation format: ${fmt}`);
+  }
+
+  return {
+    credentialId: base64UrlEncode(authData.attestedCredential.credentialId),
+    publicKey: base64UrlEncode(authData.attestedCredential.publicKey),
+    counter: authData.counter,
+    aaguid: authData.attestedCredential.aaguid,
+    attestationFormat: fmt,
+    attestationType,
+    userVerified: authData.userVerified,
   };
 }
 
 /**
  * Verify a WebAuthn registration response
- * This validates the credential created by the client
+ * Validates the attestation against the challenge issued to this user
+ * and stores the credential only when every check passes.
  */
 export async function verifyRegistrationResponse(
   userId: number,
-  credentialId: string,
-  publicKey: string,
-  transports?: string[]
+  response: {
+    credentialId: string;
+    attestationObject: string;
+    clientDataJSON: string;
+    transports?: string[];
+    nickname?: string;
+  }
 ): Promise<boolean> {
   try {
-    // Store the credential in the database
+    const expectedChallenge = readClientDataChallenge(response.clientDataJSON);
+    if (!expectedChallenge || !(await consumeChallenge(expectedChallenge, "register", { userId }))) {
+      console.warn("[WebAuthn] Unknown, expired or reused registration challenge for user", userId);
+      return false;
+    }
+
+    const policy = await getAuthenticatorPolicy();
+    const registration = verifyRegistration({
+      attestationObject: response.attestationObject,
+      clientDataJSON: response.clientDataJSON,
+      expectedChallenge,
+      requireUserVerification: policy.userVerification === "required",
+    });
+
+    if (registration.credentialId !== response.credentialId) {
+      throw new WebAuthnVerificationError("Credential ID does not match authenticator data");
+    }
+
+    const violations = checkCredentialPolicy(policy, registration);
+    if (violations.length > 0) {
+      throw new WebAuthnVerificationError(`Authenticator not permitted by policy: ${violations.join("; ")}`);
+    }
+
+    if (await getFingerprintByCredentialId(registration.credentialId)) {
+      throw new WebAuthnVerificationError("Credential is already registered");
+    }
+
     await createFingerprint({
       userId,
-      credentialId,
-      publicKey,
-      counter: 0,
-      transports: transports ? JSON.stringify(transports) : null,
+      credentialId: registration.credentialId,
+      nickname: response.nickname ?? null,
+      publicKey: registration.publicKey,
+      counter: registration.counter,
+      aaguid: registration.aaguid,
+      attestationType: registration.attestationType,
+      userVerified: registration.userVerified,
+      transports: response.transports ?? null,
       isActive: true,
     } as InsertFingerprint);
 
@@ -110,42 +574,109 @@ export async function verifyRegistrationResponse(
   }
 }
 
+export type VerifiedAssertion = {
+  counter: number;
+  userVerified: boolean;
+  counterRegressed: boolean;
+};
+
+/**
+ * Verify an assertion signature over authenticatorData || SHA-256(clientDataJSON)
+ * with the stored COSE public key (WebAuthn §7.2).
+ * Throws WebAuthnVerificationError on any failed check; a counter that did not
+ * increase is reported rather than thrown so the caller can raise an alert.
+ */
+export function verifyAssertion(params: {
+  publicKey: string;
+  storedCounter: number;
+  clientDataJSON: string;
+  authenticatorData: string;
+  signature: string;
+  expectedChallenge: string;
+  requireUserVerification?: boolean;
+}): VerifiedAssertion {
+  const clientDataBytes = base64UrlDecode(params.clientDataJSON);
+  verifyClientData(clientDataBytes, "webauthn.get", params.expectedChallenge);
+
+  const authDataBytes = base64UrlDecode(params.authenticatorData);
+  const authData = parseAuthenticatorData(authDataBytes);
+  verifyAuthenticatorFlags(authData, params.requireUserVerification ?? false);
+
+  const { alg, key } = coseToPublicKey(base64UrlDecode(params.publicKey));
+  const signedData = Buffer.concat([authDataBytes, sha256(clientDataBytes)]);
+  if (!verifySignature(alg, key, signedData, base64UrlDecode(params.signature))) {
+    throw new WebAuthnVerificationError("Assertion signature is invalid");
+  }
+
+  // Authenticators without a counter always report zero (WebAuthn §6.1.1)
+  const counterSupported = authData.counter !== 0 || params.storedCounter !== 0;
+  return {
+    counter: authData.counter,
+    userVerified: authData.userVerified,
+    counterRegressed: counterSupported && authData.counter <= params.storedCounter,
+  };
+}
+
 /**
  * Verify a WebAuthn authentication response
- * This validates the assertion created by the client
+ * Consumes the challenge issued for this ceremony, checks the assertion
+ * against the stored credential, enforces a strictly increasing signature
+ * counter and records the use of the credential.
  */
 export async function verifyAuthenticationResponse(
-  credentialId: string,
-  clientData: string,
-  authenticatorData: string,
-  signature: string
-): Promise<{ valid: boolean; userId?: number }> {
+  response: {
+    credentialId: string;
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+  },
+  ceremony: ChallengeBinding & { purpose: ChallengePurpose; requireUserVerification?: boolean }
+): Promise<{ valid: boolean; userId?: number; fingerprintId?: number; cloneDetected?: boolean }> {
   try {
-    // Decode the credential ID
-    const decodedBytes = base64UrlDecode(credentialId);
-    const decodedCredentialId = new TextDecoder().decode(decodedBytes);
-
-    // Look up the credential
-    const credential = await getFingerprintByCredentialId(decodedCredentialId);
-    if (!credential) {
+    const expectedChallenge = readClientDataChallenge(response.clientDataJSON);
+    if (!expectedChallenge || !(await consumeChallenge(expectedChallenge, ceremony.purpose, ceremony))) {
+      console.warn("[WebAuthn] Unknown, expired or reused authentication challenge");
       return { valid: false };
     }
 
-    // In a production system, you would:
-    // 1. Verify the signature using the stored public key
-    // 2. Check the counter to prevent cloning
-    // 3. Validate the client data and authenticator data
-
-    // For now, we'll do basic validation
-    if (!clientData || !authenticatorData || !signature) {
+    const credential = await getFingerprintByCredentialId(response.credentialId);
+    if (!credential || !credential.isActive) {
+      return { valid: false };
+    }
+    if (ceremony.userId != null && credential.userId !== ceremony.userId) {
       return { valid: false };
     }
 
-    // Update last used timestamp
-    // Update last used timestamp would require async import which is complex
-    // This will be handled in the router layer
+    const assertion = verifyAssertion({
+      publicKey: credential.publicKey,
+      storedCounter: credential.counter,
+      clientDataJSON: response.clientDataJSON,
+      authenticatorData: response.authenticatorData,
+      signature: response.signature,
+      expectedChallenge,
+      requireUserVerification: ceremony.requireUserVerification,
+    });
+
+    // The conditional update catches a concurrent assertion with the same counter
+    const counterRegressed =
+      assertion.counterRegressed || !(await updateFingerprintUsage(credential.id, assertion.counter));
+    if (counterRegressed) {
+      await recordSecurityEvent(credential.userId, {
+        action: "fingerprint_clone_suspected",
+        subject: "Possible cloned authenticator",
+        content:
+          "A sign-in with one of your fingerprint credentials reported an out-of-order signature counter. " +
+          "The attempt was blocked. If you did not make this request, remove the credential and contact support.",
+        details: {
+          fingerprintId: credential.id,
+          storedCounter: credential.counter,
+          reportedCounter: assertion.counter,
+        },
+      });
+      return { valid: false, cloneDetected: true };
+    }
 
-    return { valid: true, userId: credential.userId };
+    return { valid: true, userId: credential.userId, fingerprintId: credential.id };
   } catch (error) {
     console.error("Failed to verify authentication:", error);
     return { valid: false };
@@ -161,6 +692,9 @@ export async function getUserFingerprintsList(userId: number) {
     return fingerprints.map(fp => ({
       id: fp.id,
       credentialId: fp.credentialId,
+      nickname: fp.nickname,
+      aaguid: fp.aaguid,
+      transports: Array.isArray(fp.transports) ? (fp.transports as string[]) : [],
       createdAt: fp.createdAt,
       lastUsed: fp.lastUsed,
       isActive: fp.isActive,
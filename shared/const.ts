@@ -1,5 +1,10 @@
 export const COOKIE_NAME = "app_session_id";
+export const WEBAUTHN_CEREMONY_COOKIE = "webauthn_ceremony";
 export const ONE_YEAR_MS = 1000 * 60 * 60 * 24 * 365;
 export const AXIOS_TIMEOUT_MS = 30_000;
 export const UNAUTHED_ERR_MSG = 'Please login (10001)';
 export const NOT_ADMIN_ERR_MSG = 'You do not have required permission (10002)';
+export const STEP_UP_REQUIRED_ERR_MSG = 'Biometric verification required (10003)';
+export const STEP_UP_FAILED_ERR_MSG = 'Biometric verification failed (10004)';
+export const IDEMPOTENCY_CONFLICT_ERR_MSG = 'Idempotency key was already used for a different request (10005)';
+export const IDEMPOTENCY_IN_PROGRESS_ERR_MSG = 'A request with this idempotency key is still being processed (10006)';
@@ -0,0 +1,213 @@
+/**
+ * Exact decimal arithmetic for money
+ * Amounts travel as decimal strings, matching the decimal(18,8) columns,
+ * and are computed as scaled bigints so no value ever passes through a float.
+ */
+
+export type RoundingMode =
+  /** Toward zero (truncate) */
+  | "down"
+  /** Away from zero */
+  | "up"
+  /** Nearest, ties away from zero */
+  | "half-up"
+  /** Nearest, ties to the even neighbour (banker's rounding) */
+  | "half-even";
+
+/** Fractional digits stored by the amount columns */
+export const MAX_SCALE = 8;
+
+/** Integer digits stored by the amount columns */
+const MAX_INTEGER_DIGITS = 10;
+
+/** The parts of a currency that money math needs, e.g. a currencies row */
+export type CurrencyPrecision = {
+  code: string;
+  /** Fractional digits the currency supports */
+  decimals: number;
+};
+
+export class MoneyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MoneyError";
+  }
+}
+
+type Scaled = { units: bigint; scale: number };
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const DECIMAL_PATTERN = /^(-)?(\d+)(?:\.(\d+))?$/;
+
+function pow10(exponent: number): bigint {
+  return BigInt("1" + "0".repeat(exponent));
+}
+
+function abs(value: bigint): bigint {
+  return value < ZERO ? -value : value;
+}
+
+function parse(value: string): Scaled {
+  const match = DECIMAL_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new MoneyError(`Invalid amount: ${value}`);
+  }
+  const fraction = match[3] ?? "";
+  const units = BigInt(match[2] + fraction);
+  return { units: match[1] ? -units : units, scale: fraction.length };
+}
+
+function divideRounded(numerator: bigint, denominator: bigint, rounding: RoundingMode): bigint {
+  if (denominator === ZERO) {
+    throw new MoneyError("Division by zero");
+  }
+
+  const negative = numerator < ZERO !== denominator < ZERO;
+  const n = abs(numerator);
+  const d = abs(denominator);
+  let quotient = n / d;
+  const remainder = n % d;
+
+  if (remainder !== ZERO) {
+    const twice = remainder * TWO;
+    const roundAway =
+      rounding === "up" ||
+      (rounding === "half-up" && twice >= d) ||
+      (rounding === "half-even" && (twice > d || (twice === d && quotient % TWO === ONE)));
+    if (roundAway) quotient += ONE;
+  }
+
+  return negative ? -quotient : quotient;
+}
+
+function rescale(value: Scaled, scale: number, rounding: RoundingMode): bigint {
+  if (scale >= value.scale) {
+    return value.units * pow10(scale - value.scale);
+  }
+  return divideRounded(value.units, pow10(value.scale - scale), rounding);
+}
+
+function format(units: bigint, scale: number): string {
+  const negative = units < ZERO;
+  const digits = abs(units).toString().padStart(scale + 1, "0");
+  const integer = scale === 0 ? digits : digits.slice(0, -scale);
+  const fraction = scale === 0 ? "" : `.${digits.slice(-scale)}`;
+  return `${negative ? "-" : ""}${integer}${fraction}`;
+}
+
+/**
+ * Whether `value` is a plain decimal string (no exponent, sign optional)
+ */
+export function isDecimal(value: string): boolean {
+  return DECIMAL_PATTERN.test(value.trim());
+}
+
+/**
+ * Convert a decimal string to integer units at `scale`
+ * Throws if the value has significant digits beyond the scale.
+ */
+export function toUnits(value: string, scale: number): bigint {
+  const parsed = parse(value);
+  const units = rescale(parsed, scale, "down");
+  if (scale < parsed.scale && units * pow10(parsed.scale - scale) !== parsed.units) {
+    throw new MoneyError(`Amount ${value} has more than ${scale} decimal places`);
+  }
+  return units;
+}
+
+/**
+ * Convert integer units at `scale` back to a fixed-point decimal string
+ */
+export function fromUnits(units: bigint, scale: number): string {
+  return format(units, scale);
+}
+
+/**
+ * Validate a user-supplied amount and normalize it to the currency's scale
+ * Rejects malformed, negative and zero values, values with more decimal
+ * places than the currency supports and values the columns cannot hold.
+ */
+export function parseAmount(value: string, currency: CurrencyPrecision, options: { allowZero?: boolean } = {}): string {
+  const scale = Math.min(currency.decimals, MAX_SCALE);
+  const parsed = parse(value);
+  if (parsed.units < ZERO) {
+    throw new MoneyError("Amount must not be negative");
+  }
+  if (parsed.units === ZERO && !options.allowZero) {
+    throw new MoneyError("Amount must be greater than zero");
+  }
+
+  let units: bigint;
+  try {
+    units = toUnits(value, scale);
+  } catch {
+    throw new MoneyError(`${currency.code} amounts support at most ${scale} decimal places`);
+  }
+  if (units >= pow10(MAX_INTEGER_DIGITS + scale)) {
+    throw new MoneyError("Amount is too large");
+  }
+  return format(units, scale);
+}
+
+/**
+ * Round a decimal string to `scale` fractional digits
+ */
+export function roundDecimal(value: string, scale: number, rounding: RoundingMode = "half-even"): string {
+  return format(rescale(parse(value), scale, rounding), scale);
+}
+
+/**
+ * Compare two decimal strings exactly
+ * @returns -1, 0 or 1
+ */
+export function compareDecimals(a: string, b: string): -1 | 0 | 1 {
+  const left = parse(a);
+  const right = parse(b);
+  const scale = Math.max(left.scale, right.scale);
+  const difference = rescale(left, scale, "down") - rescale(right, scale, "down");
+  return difference === ZERO ? 0 : difference < ZERO ? -1 : 1;
+}
+
+export function addDecimals(a: string, b: string): string {
+  const left = parse(a);
+  const right = parse(b);
+  const scale = Math.max(left.scale, right.scale);
+  return format(rescale(left, scale, "down") + rescale(right, scale, "down"), scale);
+}
+
+export function subtractDecimals(a: string, b: string): string {
+  const left = parse(a);
+  const right = parse(b);
+  const scale = Math.max(left.scale, right.scale);
+  return format(rescale(left, scale, "down") - rescale(right, scale, "down"), scale);
+}
+
+/**
+ * Multiply two decimal strings and round the product to `scale`
+ */
+export function multiplyDecimals(a: string, b: string, scale: number, rounding: RoundingMode = "half-even"): string {
+  const left = parse(a);
+  const right = parse(b);
+  const product = { units: left.units * right.units, scale: left.scale + right.scale };
+  return format(rescale(product, scale, rounding), scale);
+}
+
+/**
+ * Divide two decimal strings and round the quotient to `scale`
+ */
+export function divideDecimals(a: string, b: string, scale: number, rounding: RoundingMode = "half-even"): string {
+  const left = parse(a);
+  const right = parse(b);
+  const numerator = left.units * pow10(scale + right.scale);
+  const denominator = right.units * pow10(left.scale);
+  return format(divideRounded(numerator, denominator, rounding), scale);
+}
+
+/**
+ * Format an amount for display at its currency's scale
+ */
+export function formatAmount(value: string, currency: CurrencyPrecision, rounding: RoundingMode = "half-even"): string {
+  return roundDecimal(value, Math.min(currency.decimals, MAX_SCALE), rounding);
+}